@@ -1,13 +1,11 @@
-import type {
-  NormalizedSuperJsonDocument,
-  ProfileDocumentNode,
-} from '@superfaceai/ast';
+import type { ProfileDocumentNode } from '@superfaceai/ast';
 import { extractVersion, isValidDocumentName } from '@superfaceai/ast';
 
 import type { ICrypto, IFileSystem, ILogger, ITimers } from '../../interfaces';
 import type { ISandbox } from '../../interfaces/sandbox';
 import type { SuperCache } from '../../lib';
 import { profileAstId, versionToString } from '../../lib';
+import type { NormalizedSuperJsonDocument } from '../../schema-tools/superjson/superjson';
 import type { Config } from '../config';
 import {
   invalidIdentifierIdError,
@@ -18,7 +16,10 @@ import {
 import type { Events, Interceptable } from '../events';
 import type { AuthCache, IFetch } from '../interpreter';
 import { Profile, ProfileConfiguration, resolveProfileAst } from '../profile';
-import type { IBoundProfileProvider } from '../profile-provider';
+import type {
+  IBoundProfileProvider,
+  IBoundProviderStore,
+} from '../profile-provider';
 
 export class InternalClient {
   constructor(
@@ -34,7 +35,8 @@ export class InternalClient {
     }>,
     private readonly crypto: ICrypto,
     private readonly fetchInstance: IFetch & Interceptable & AuthCache,
-    private readonly logger?: ILogger
+    private readonly logger?: ILogger,
+    private readonly boundProviderStore?: IBoundProviderStore
   ) {}
 
   public async getProfile(
@@ -66,7 +68,8 @@ export class InternalClient {
       this.boundProfileProviderCache,
       this.crypto,
       this.fetchInstance,
-      this.logger
+      this.logger,
+      this.boundProviderStore
     );
   }
 
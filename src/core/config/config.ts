@@ -23,6 +23,15 @@ const METRIC_DEBOUNCE_TIME = {
 const DISABLE_REPORTING = 'SUPERFACE_DISABLE_METRIC_REPORTING';
 const SANDBOX_TIMEOUT_ENV_NAME = 'SUPERFACE_SANDBOX_TIMEOUT';
 const BOUND_PROVIDER_CACHE_TIMEOUT = 'SUPERFACE_CACHE_TIMEOUT';
+const HTTP_KEEP_ALIVE = 'SUPERFACE_HTTP_KEEP_ALIVE';
+const HTTP_MAX_SOCKETS = 'SUPERFACE_HTTP_MAX_SOCKETS';
+const HTTP_MAX_FREE_SOCKETS = 'SUPERFACE_HTTP_MAX_FREE_SOCKETS';
+const HTTP_KEEP_ALIVE_TIMEOUT = 'SUPERFACE_HTTP_KEEP_ALIVE_TIMEOUT';
+const PROXY_ENV_NAMES = {
+  http: ['HTTP_PROXY', 'http_proxy'],
+  https: ['HTTPS_PROXY', 'https_proxy'],
+  no: ['NO_PROXY', 'no_proxy'],
+};
 
 // Defaults
 export const DEFAULT_API_URL = new URL('https://superface.ai').href;
@@ -44,6 +53,11 @@ export const DEFAULT_DISABLE_REPORTING = true;
 export const DEFAULT_CACHE = true;
 // 1 hour
 export const DEFAULT_BOUND_PROVIDER_TIMEOUT = 60 * 60;
+export const DEFAULT_HTTP_KEEP_ALIVE = true;
+export const DEFAULT_HTTP_MAX_SOCKETS = Infinity;
+export const DEFAULT_HTTP_MAX_FREE_SOCKETS = 256;
+// shorter than the common 5 seconds keep-alive timeout of servers, so idle connections are not closed by the server while being reused
+export const DEFAULT_HTTP_KEEP_ALIVE_TIMEOUT = 4000;
 
 const DEFAULTS = (fileSystem: FSPath): IConfig => ({
   cachePath: DEFAULT_CACHE_PATH(fileSystem),
@@ -57,6 +71,13 @@ const DEFAULTS = (fileSystem: FSPath): IConfig => ({
   superfacePath: DEFAULT_SUPERFACE_PATH(fileSystem),
   debug: false,
   cache: DEFAULT_CACHE,
+  httpKeepAlive: DEFAULT_HTTP_KEEP_ALIVE,
+  httpMaxSockets: DEFAULT_HTTP_MAX_SOCKETS,
+  httpMaxFreeSockets: DEFAULT_HTTP_MAX_FREE_SOCKETS,
+  httpKeepAliveTimeout: DEFAULT_HTTP_KEEP_ALIVE_TIMEOUT,
+  httpProxy: undefined,
+  httpsProxy: undefined,
+  noProxy: undefined,
 });
 
 // Extraction functions
@@ -102,6 +123,53 @@ function ensureValidUrl(value: string | undefined): string | undefined {
   return value !== undefined ? new URL(value).href : undefined;
 }
 
+function getHttpPoolLimit(
+  variableName: string,
+  environment: IEnvironment,
+  log?: LogFunction
+): number | undefined {
+  const value = ensurePositiveInteger(
+    environment.getNumber(variableName),
+    variableName,
+    log
+  );
+
+  return value;
+}
+
+function getProxyVariable(
+  which: 'http' | 'https' | 'no',
+  environment: IEnvironment
+): string | undefined {
+  for (const name of PROXY_ENV_NAMES[which]) {
+    const value = environment.getString(name);
+    if (value !== undefined && value !== '') {
+      return value;
+    }
+  }
+
+  return undefined;
+}
+
+function getProxyUrl(
+  which: 'http' | 'https',
+  environment: IEnvironment,
+  log?: LogFunction
+): string | undefined {
+  const value = getProxyVariable(which, environment);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  try {
+    return ensureValidUrl(value);
+  } catch {
+    log?.(`Invalid value: ${value} for ${which} proxy, expected URL`);
+
+    return undefined;
+  }
+}
+
 function ensurePositiveInteger(
   value: number | undefined,
   variableName: string,
@@ -174,6 +242,13 @@ export class Config implements IConfig {
   public superfacePath: string;
   public debug: boolean;
   public cache: boolean;
+  public httpKeepAlive: boolean;
+  public httpMaxSockets: number;
+  public httpMaxFreeSockets: number;
+  public httpKeepAliveTimeout: number;
+  public httpProxy?: string;
+  public httpsProxy?: string;
+  public noProxy?: string;
 
   constructor(fileSystem: FSPath, config?: Partial<IConfig>) {
     const defaults = DEFAULTS(fileSystem);
@@ -192,6 +267,15 @@ export class Config implements IConfig {
     this.superfacePath = config?.superfacePath ?? defaults.superfacePath;
     this.debug = config?.debug !== undefined ? config.debug : defaults.debug;
     this.cache = config?.cache ?? defaults.cache;
+    this.httpKeepAlive = config?.httpKeepAlive ?? defaults.httpKeepAlive;
+    this.httpMaxSockets = config?.httpMaxSockets ?? defaults.httpMaxSockets;
+    this.httpMaxFreeSockets =
+      config?.httpMaxFreeSockets ?? defaults.httpMaxFreeSockets;
+    this.httpKeepAliveTimeout =
+      config?.httpKeepAliveTimeout ?? defaults.httpKeepAliveTimeout;
+    this.httpProxy = config?.httpProxy ?? defaults.httpProxy;
+    this.httpsProxy = config?.httpsProxy ?? defaults.httpsProxy;
+    this.noProxy = config?.noProxy ?? defaults.noProxy;
   }
 }
 
@@ -218,6 +302,15 @@ export function mergeConfigs(
     sandboxTimeout: newConfig.sandboxTimeout ?? originalConfig.sandboxTimeout,
     debug: newConfig.debug ?? originalConfig.debug,
     cache: newConfig.cache ?? originalConfig.cache,
+    httpKeepAlive: newConfig.httpKeepAlive ?? originalConfig.httpKeepAlive,
+    httpMaxSockets: newConfig.httpMaxSockets ?? originalConfig.httpMaxSockets,
+    httpMaxFreeSockets:
+      newConfig.httpMaxFreeSockets ?? originalConfig.httpMaxFreeSockets,
+    httpKeepAliveTimeout:
+      newConfig.httpKeepAliveTimeout ?? originalConfig.httpKeepAliveTimeout,
+    httpProxy: newConfig.httpProxy ?? originalConfig.httpProxy,
+    httpsProxy: newConfig.httpsProxy ?? originalConfig.httpsProxy,
+    noProxy: newConfig.noProxy ?? originalConfig.noProxy,
   };
 
   logger?.log(
@@ -271,6 +364,25 @@ export function loadConfigFromCode(
     ),
     debug: config?.debug !== undefined ? config.debug : false,
     cache: config.cache,
+    httpKeepAlive: config.httpKeepAlive,
+    httpMaxSockets: ensurePositiveInteger(
+      config.httpMaxSockets,
+      'httpMaxSockets',
+      logFunction
+    ),
+    httpMaxFreeSockets: ensurePositiveInteger(
+      config.httpMaxFreeSockets,
+      'httpMaxFreeSockets',
+      logFunction
+    ),
+    httpKeepAliveTimeout: ensurePositiveInteger(
+      config.httpKeepAliveTimeout,
+      'httpKeepAliveTimeout',
+      logFunction
+    ),
+    httpProxy: ensureValidUrl(config.httpProxy),
+    httpsProxy: ensureValidUrl(config.httpsProxy),
+    noProxy: config.noProxy,
   };
 
   logger?.log(DEBUG_NAMESPACE, 'Loaded config from code: %O', env);
@@ -310,6 +422,25 @@ export function loadConfigFromEnv(
     cachePath: undefined,
     sandboxTimeout: getSandboxTimeout(environment, logFunction),
     debug: false,
+    httpKeepAlive: environment.getBoolean(HTTP_KEEP_ALIVE),
+    httpMaxSockets: getHttpPoolLimit(
+      HTTP_MAX_SOCKETS,
+      environment,
+      logFunction
+    ),
+    httpMaxFreeSockets: getHttpPoolLimit(
+      HTTP_MAX_FREE_SOCKETS,
+      environment,
+      logFunction
+    ),
+    httpKeepAliveTimeout: getHttpPoolLimit(
+      HTTP_KEEP_ALIVE_TIMEOUT,
+      environment,
+      logFunction
+    ),
+    httpProxy: getProxyUrl('http', environment, logFunction),
+    httpsProxy: getProxyUrl('https', environment, logFunction),
+    noProxy: getProxyVariable('no', environment),
   };
 
   logger?.log(
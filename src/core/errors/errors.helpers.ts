@@ -1,7 +1,8 @@
-import type { SecurityValues } from '@superfaceai/ast';
 import { AssertionError, BackoffKind } from '@superfaceai/ast';
 
 import { SDKBindError, SDKExecutionError } from '../../lib';
+import type { SecurityValues } from '../../schema-tools/superjson/superjson';
+import { JitterBackoffKind } from '../../schema-tools/superjson/superjson';
 import { isRegistryErrorBody } from '../registry';
 
 export function superJsonNotDefinedError(
@@ -344,9 +345,10 @@ export function invalidBackoffEntryError(kind: string): SDKExecutionError {
     [
       'Check your super.json',
       `Check property "kind" in [profile].providers.[provider].defaults.[usecase].retryPolicy.backoff with value "${kind}"`,
-      `Change value of property "kind" in retryPolicy.backoff to one of possible values: ${Object.values(
-        BackoffKind
-      ).join(', ')}`,
+      `Change value of property "kind" in retryPolicy.backoff to one of possible values: ${[
+        ...Object.values(BackoffKind),
+        ...Object.values(JitterBackoffKind),
+      ].join(', ')}`,
     ]
   );
 }
@@ -429,6 +431,28 @@ export function usecaseNotFoundError(
   );
 }
 
+export function usecaseNotPaginatedError(
+  name: string,
+  profileId: string
+): SDKExecutionError {
+  return new SDKExecutionError(
+    `Usecase "${name}" of profile "${profileId}" is not paginated`,
+    [
+      'Paginated usecase must have one of input fields: cursor, pageToken, nextPageToken',
+      'and one of result fields: nextCursor, nextPageToken, cursor',
+    ],
+    []
+  );
+}
+
+export function paginationItemsNotFoundError(name: string): SDKExecutionError {
+  return new SDKExecutionError(
+    `Unable to paginate items of usecase "${name}"`,
+    ['Result of the usecase must have exactly one list field with items'],
+    ['Paginate pages instead by omitting the items option']
+  );
+}
+
 export function localProviderAndRemoteMapError(
   providerName: string,
   profileId: string
@@ -547,6 +571,41 @@ export function unexpectedDigestValue(
   );
 }
 
+export function oauth2TokenRequestError(
+  tokenUrl: string,
+  statusCode: number,
+  body: unknown
+): SDKExecutionError {
+  const longLines = [
+    `Token endpoint responded with status code: ${statusCode}`,
+  ];
+  if (typeof body === 'object' && body !== null && 'error' in body) {
+    longLines.push(`Error response: ${JSON.stringify(body)}`);
+  }
+
+  return new SDKExecutionError(
+    `OAuth 2.0 auth failed, unable to obtain access token from "${tokenUrl}"`,
+    longLines,
+    [
+      'Check that client credentials in super.json or in perform options are correct',
+      'Check that token URL points to the token endpoint of the authorization server',
+    ]
+  );
+}
+
+export function unsignableRequestBodyError(
+  bodyType: string
+): SDKExecutionError {
+  return new SDKExecutionError(
+    'HMAC signing failed, request body cannot be signed',
+    [`Request body of type "${bodyType}" is not available before sending`],
+    [
+      'Use string, JSON, URL encoded or in-memory binary body with HMAC signing',
+      'Remove body from the list of signed components in security values',
+    ]
+  );
+}
+
 export function invalidResponseError(
   statusCode: number,
   error: unknown
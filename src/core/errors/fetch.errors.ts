@@ -7,7 +7,7 @@ interface NetworkError {
 
 interface RequestError {
   kind: 'request';
-  issue: 'abort' | 'timeout';
+  issue: 'abort' | 'timeout' | 'cancel';
 }
 
 export type FetchErrorIssue = NetworkError['issue'] | RequestError['issue'];
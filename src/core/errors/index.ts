@@ -1,3 +1,5 @@
 export * from './errors.helpers';
 export * from './fetch.errors';
 export * from './filesystem.errors';
+export * from './rate-limit.errors';
+export * from './timeout.errors';
@@ -0,0 +1,28 @@
+import { SDKExecutionError } from '../../lib';
+
+export class RateLimitExceededError extends SDKExecutionError {
+  constructor(
+    public readonly provider: string,
+    public readonly serviceId: string | undefined,
+    /** Time in milliseconds after which the request would be allowed */
+    public readonly retryAfter: number
+  ) {
+    super(
+      `Rate limit of ${
+        serviceId !== undefined
+          ? `service "${serviceId}" of provider "${provider}"`
+          : `provider "${provider}"`
+      } exceeded`,
+      [`Request would be allowed in ${retryAfter} ms`],
+      [
+        'Lower the rate of performs',
+        'Increase "maxWait" of the rate limit in super.json to wait for the budget instead',
+      ]
+    );
+
+    // https://github.com/Microsoft/TypeScript/wiki/Breaking-Changes#extending-built-ins-like-error-array-and-map-may-no-longer-work
+    Object.setPrototypeOf(this, RateLimitExceededError.prototype);
+
+    this.name = 'RateLimitExceededError';
+  }
+}
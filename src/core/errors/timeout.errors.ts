@@ -0,0 +1,25 @@
+import { SDKExecutionError } from '../../lib';
+
+export class PerformTimeoutError extends SDKExecutionError {
+  constructor(
+    public readonly usecase: string,
+    /** Time in milliseconds in which the perform had to finish */
+    public readonly timeout: number
+  ) {
+    super(
+      `Perform of usecase "${usecase}" timed out after ${timeout} ms`,
+      [
+        'The perform did not finish in time, including all retries and provider failovers',
+      ],
+      [
+        'Increase "timeout" of the perform',
+        'Increase "timeout" in usecase defaults in super.json',
+      ]
+    );
+
+    // https://github.com/Microsoft/TypeScript/wiki/Breaking-Changes#extending-built-ins-like-error-array-and-map-may-no-longer-work
+    Object.setPrototypeOf(this, PerformTimeoutError.prototype);
+
+    this.name = 'PerformTimeoutError';
+  }
+}
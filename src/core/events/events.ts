@@ -12,6 +12,7 @@ import type {
   ITimers,
   LogFunction,
 } from '../../interfaces';
+import type { CacheAccess, ICacheObserver } from '../../lib';
 import { UnexpectedError } from '../../lib';
 import type { HttpResponse, IFetch, RequestParameters } from '../interpreter';
 import type { UseCase } from '../usecase';
@@ -38,8 +39,22 @@ export type Interceptable = {
   events?: Events;
 };
 
+/**
+ * Returns a view of the interceptable with its own metadata, sharing everything else with the interceptable.
+ *
+ * Concurrent performs sharing one interceptable, such as a hedged perform and its primary perform, report their own metadata.
+ */
+export function withMetadata<T extends Interceptable>(
+  interceptable: T,
+  metadata: InterceptableMetadata
+): T {
+  return Object.assign(Object.create(interceptable) as T, { metadata });
+}
+
 type EventContextBase = {
   readonly time: Date;
+  /** Identifies one call of an intercepted function, the same object is passed to its pre and post hooks */
+  readonly invocation?: object;
   readonly usecase?: string;
   readonly profile?: string;
   readonly provider?: string;
@@ -126,10 +141,43 @@ export type AuthenticateContext = EventContextBase & {
   previousResponse?: HttpResponse;
 };
 
+export type CacheAccessContext = EventContextBase &
+  CacheAccess & {
+    /** Name of the cache, e.g. `bound-profile-provider` or `digest` */
+    cache: string;
+  };
+
+export type TokenRefreshedContext = EventContextBase & {
+  /** Id of the security values whose tokens were refreshed */
+  securityId: string;
+  accessToken: string;
+  /** Lifetime of the access token in seconds, if known */
+  expiresIn?: number;
+  /** Refresh token to use for the next refresh, same as `previousRefreshToken` when the server did not rotate it */
+  refreshToken: string;
+  previousRefreshToken: string;
+};
+
+export type ConnectionPoolContext = EventContextBase & {
+  /** Origin to which the request was sent, e.g. `https://api.example.com` */
+  origin: string;
+  /** Whether the request was sent over an idle connection kept open by an earlier request */
+  reused: boolean;
+  /** Number of connections currently serving requests */
+  activeSockets: number;
+  /** Number of idle connections kept open for reuse */
+  freeSockets: number;
+  /** Number of requests waiting for a connection */
+  pendingRequests: number;
+};
+
 type VoidEventTypes = {
   failure: FailureContext;
   success: SuccessContext;
   'provider-switch': ProviderSwitchContext;
+  'cache-access': CacheAccessContext;
+  'token-refreshed': TokenRefreshedContext;
+  'connection-pool': ConnectionPoolContext;
 };
 
 type VoidEventHook<EventContext extends EventContextBase> = (
@@ -250,6 +298,32 @@ export class Events implements IEvents<EventParams> {
   }
 }
 
+/**
+ * Emits `cache-access` events through events of the owner of the cache.
+ */
+export class CacheAccessEvents implements ICacheObserver {
+  constructor(
+    private readonly cache: string,
+    private readonly owner: Interceptable
+  ) {}
+
+  public onCacheAccess(access: CacheAccess): void {
+    const events = this.owner.events;
+    if (events === undefined) {
+      return;
+    }
+
+    void events.emit('cache-access', [
+      {
+        time: new Date(events.timers.now()),
+        ...this.owner.metadata,
+        ...access,
+        cache: this.cache,
+      },
+    ]);
+  }
+}
+
 export type InterceptPlacement = 'before' | 'after' | 'around';
 const eventInterceptorMetadataDefaults = {
   placement: 'around' as InterceptPlacement,
@@ -300,11 +374,13 @@ function replacementFunction<E extends keyof EventTypes>(
     let retry = true;
     while (retry) {
       let maybeResult: ReturnType<EventTypes[E][0]> | undefined;
+      const invocation = {};
 
       if (metadata.placement === 'before' || metadata.placement === 'around') {
         const hookResult = await events.emit(`pre-${metadata.eventName}`, [
           {
             time: new Date(events.timers.now()),
+            invocation,
             profile: this.metadata?.profile,
             usecase: this.metadata?.usecase,
             provider: this.metadata?.provider,
@@ -342,6 +418,7 @@ function replacementFunction<E extends keyof EventTypes>(
         const hookResult = await events.emit(`post-${metadata.eventName}`, [
           {
             time: new Date(events.timers.now()),
+            invocation,
             profile: this.metadata?.profile,
             usecase: this.metadata?.usecase,
             provider: this.metadata?.provider,
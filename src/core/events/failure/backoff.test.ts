@@ -1,4 +1,24 @@
-import { ConstantBackoff, ExponentialBackoff, LinearBackoff } from './backoff';
+import type { ICrypto } from '../../../interfaces';
+import {
+  ConstantBackoff,
+  DecorrelatedJitterBackoff,
+  EqualJitterBackoff,
+  ExponentialBackoff,
+  FullJitterBackoff,
+  LinearBackoff,
+} from './backoff';
+
+// randomInt always returns the highest or the lowest possible value
+const highestCrypto: ICrypto = {
+  hashString: jest.fn(),
+  hmac: jest.fn(),
+  randomInt: jest.fn((max: number) => max - 1),
+};
+const lowestCrypto: ICrypto = {
+  hashString: jest.fn(),
+  hmac: jest.fn(),
+  randomInt: jest.fn(() => 0),
+};
 
 describe('backoff', () => {
   describe('constant backoff', () => {
@@ -91,4 +111,87 @@ describe('backoff', () => {
       expect(backoff.current).toBe(512);
     });
   });
+
+  describe('full jitter backoff', () => {
+    it('stays between zero and exponential backoff', () => {
+      const highest = new FullJitterBackoff(highestCrypto, 100, 2);
+      expect(highest.up()).toBe(200);
+      expect(highest.up()).toBe(400);
+      expect(highest.down()).toBe(200);
+
+      const lowest = new FullJitterBackoff(lowestCrypto, 100, 2);
+      expect(lowest.up()).toBe(0);
+      expect(lowest.up()).toBe(0);
+      expect(lowest.down()).toBe(0);
+    });
+
+    it('respects maximum', () => {
+      const backoff = new FullJitterBackoff(
+        highestCrypto,
+        100,
+        2,
+        undefined,
+        300
+      );
+      expect(backoff.up()).toBe(200);
+      expect(backoff.up()).toBe(300);
+      expect(backoff.up()).toBe(300);
+    });
+  });
+
+  describe('equal jitter backoff', () => {
+    it('stays between half and full exponential backoff', () => {
+      const highest = new EqualJitterBackoff(highestCrypto, 100, 2);
+      expect(highest.up()).toBe(200);
+      expect(highest.up()).toBe(400);
+      expect(highest.down()).toBe(200);
+
+      const lowest = new EqualJitterBackoff(lowestCrypto, 100, 2);
+      expect(lowest.up()).toBe(100);
+      expect(lowest.up()).toBe(200);
+      expect(lowest.down()).toBe(100);
+    });
+  });
+
+  describe('decorrelated jitter backoff', () => {
+    it('grows from previous value', () => {
+      const highest = new DecorrelatedJitterBackoff(highestCrypto, 100, 3);
+      expect(highest.up()).toBe(300);
+      expect(highest.up()).toBe(900);
+      expect(highest.down()).toBe(300);
+      expect(highest.down()).toBe(100);
+      expect(highest.down()).toBe(100);
+
+      const lowest = new DecorrelatedJitterBackoff(lowestCrypto, 100, 3);
+      expect(lowest.up()).toBe(100);
+      expect(lowest.up()).toBe(100);
+      expect(lowest.down()).toBe(100);
+    });
+
+    it('respects maximum', () => {
+      const backoff = new DecorrelatedJitterBackoff(highestCrypto, 100, 3, 500);
+      expect(backoff.up()).toBe(300);
+      expect(backoff.up()).toBe(500);
+      expect(backoff.up()).toBe(500);
+    });
+
+    it('keeps growing without maximum', () => {
+      // validates the range like crypto.randomInt does
+      const crypto: ICrypto = {
+        ...highestCrypto,
+        randomInt: jest.fn((max: number) => {
+          if (!Number.isSafeInteger(max) || max > 2 ** 48) {
+            throw new RangeError(`Invalid range: ${max}`);
+          }
+
+          return max - 1;
+        }),
+      };
+      const backoff = new DecorrelatedJitterBackoff(crypto, 100, 3);
+
+      for (let i = 0; i < 100; i++) {
+        expect(backoff.up()).toBeGreaterThanOrEqual(100);
+      }
+    });
+  });
 });
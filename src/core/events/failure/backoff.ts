@@ -1,5 +1,8 @@
+import type { ICrypto } from '../../../interfaces';
+
 export class Backoff {
   public static DEFAULT_INITIAL = 500;
+  public static DEFAULT_MAXIMUM = 60_000;
 
   protected _current: number;
 
@@ -84,3 +87,91 @@ export class ExponentialBackoff extends Backoff {
     );
   }
 }
+
+/** Largest range of random integers, `crypto.randomInt` throws on ranges of 2^48 and more */
+const MAX_RANDOM_RANGE = 2 ** 48 - 1;
+
+/** Returns a random integer from the closed interval [min, max], max is lowered when the interval is too large */
+function randomBetween(crypto: ICrypto, min: number, max: number): number {
+  const low = Math.ceil(min);
+  const high = Math.floor(Math.min(max, low + MAX_RANDOM_RANGE - 1));
+  if (high <= low) {
+    return low;
+  }
+
+  return low + crypto.randomInt(high - low + 1);
+}
+
+/**
+ * Exponential backoff where each value is drawn uniformly from [0, exponential value].
+ *
+ * Spreads retries of many clients over the whole backoff window so they don't hit the provider at the same time.
+ */
+export class FullJitterBackoff extends Backoff {
+  constructor(
+    crypto: ICrypto,
+    initial: number,
+    base: number,
+    minimum?: number,
+    maximum?: number
+  ) {
+    const ceiling = new ExponentialBackoff(initial, base, minimum, maximum);
+
+    super(
+      () => randomBetween(crypto, 0, ceiling.up()),
+      () => randomBetween(crypto, 0, ceiling.down()),
+      initial
+    );
+  }
+}
+
+/**
+ * Exponential backoff where each value is drawn uniformly from [exponential value / 2, exponential value].
+ *
+ * Keeps at least half of the exponential backoff while still spreading out retries of many clients.
+ */
+export class EqualJitterBackoff extends Backoff {
+  constructor(
+    crypto: ICrypto,
+    initial: number,
+    base: number,
+    minimum?: number,
+    maximum?: number
+  ) {
+    const ceiling = new ExponentialBackoff(initial, base, minimum, maximum);
+    const jitter = (value: number) => randomBetween(crypto, value / 2, value);
+
+    super(
+      () => jitter(ceiling.up()),
+      () => jitter(ceiling.down()),
+      initial
+    );
+  }
+}
+
+/**
+ * Backoff where each value is drawn from [initial, previous value * multiplier] going up and from [initial, previous value / multiplier] going down.
+ *
+ * Values are decorrelated from the number of failures, which spreads out retries better than the jittered exponential backoffs.
+ */
+export class DecorrelatedJitterBackoff extends Backoff {
+  public static DEFAULT_MULTIPLIER = 3;
+
+  constructor(
+    crypto: ICrypto,
+    initial: number,
+    multiplier: number,
+    maximum?: number
+  ) {
+    super(
+      x =>
+        Backoff.clampValue(
+          randomBetween(crypto, initial, Math.max(initial, x) * multiplier),
+          undefined,
+          maximum
+        ),
+      x => randomBetween(crypto, initial, Math.max(initial, x / multiplier)),
+      initial
+    );
+  }
+}
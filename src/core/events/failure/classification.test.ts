@@ -0,0 +1,148 @@
+import { isRepeatableFailure, isRetryableFailure } from './classification';
+import type { ExecutionFailure } from './policy';
+
+describe('isRetryableFailure', () => {
+  const httpFailure = (statusCode: number): ExecutionFailure => ({
+    kind: 'http',
+    time: 0,
+    registryCacheAge: 0,
+    response: {
+      statusCode,
+      headers: {},
+      body: undefined,
+      debug: { request: { headers: {}, url: '', body: undefined } },
+    },
+  });
+
+  it('retries everything when not configured', () => {
+    expect(isRetryableFailure(httpFailure(400))).toBe(true);
+    expect(
+      isRetryableFailure({
+        kind: 'network',
+        issue: 'dns',
+        time: 0,
+        registryCacheAge: 0,
+      })
+    ).toBe(true);
+  });
+
+  it('retries only configured status codes', () => {
+    const retryable = { statusCodes: [502, 503, 504] };
+
+    expect(isRetryableFailure(httpFailure(503), retryable)).toBe(true);
+    expect(isRetryableFailure(httpFailure(500), retryable)).toBe(false);
+    expect(isRetryableFailure(httpFailure(404), retryable)).toBe(false);
+  });
+
+  it('retries only configured issues', () => {
+    const retryable = {
+      networkIssues: ['timeout' as const],
+      requestIssues: [],
+    };
+
+    expect(
+      isRetryableFailure(
+        { kind: 'network', issue: 'timeout', time: 0, registryCacheAge: 0 },
+        retryable
+      )
+    ).toBe(true);
+    expect(
+      isRetryableFailure(
+        { kind: 'network', issue: 'dns', time: 0, registryCacheAge: 0 },
+        retryable
+      )
+    ).toBe(false);
+    expect(
+      isRetryableFailure(
+        { kind: 'request', issue: 'timeout', time: 0, registryCacheAge: 0 },
+        retryable
+      )
+    ).toBe(false);
+    // lists restrict only failures of their own kind
+    expect(isRetryableFailure(httpFailure(400), retryable)).toBe(true);
+  });
+
+  it('always retries unknown and bind failures', () => {
+    const retryable = { statusCodes: [], networkIssues: [], requestIssues: [] };
+
+    expect(
+      isRetryableFailure(
+        {
+          kind: 'unknown',
+          originalError: new Error(),
+          time: 0,
+          registryCacheAge: 0,
+        },
+        retryable
+      )
+    ).toBe(true);
+    expect(
+      isRetryableFailure(
+        {
+          kind: 'bind',
+          originalError: new Error(),
+          time: 0,
+          registryCacheAge: 0,
+        },
+        retryable
+      )
+    ).toBe(true);
+  });
+});
+
+describe('isRepeatableFailure', () => {
+  const usecaseInfo = { profileId: 'profile', usecaseName: 'Usecase' };
+  const requestFailure: ExecutionFailure = {
+    kind: 'request',
+    issue: 'abort',
+    time: 0,
+    registryCacheAge: 0,
+  };
+  const networkFailure: ExecutionFailure = {
+    kind: 'network',
+    issue: 'dns',
+    time: 0,
+    registryCacheAge: 0,
+  };
+
+  it('repeats safe and idempotent usecases', () => {
+    expect(
+      isRepeatableFailure(requestFailure, {
+        ...usecaseInfo,
+        usecaseSafety: 'safe',
+      })
+    ).toBe(true);
+    expect(
+      isRepeatableFailure(requestFailure, {
+        ...usecaseInfo,
+        usecaseSafety: 'idempotent',
+      })
+    ).toBe(true);
+  });
+
+  it('repeats usecases without declared safety', () => {
+    expect(
+      isRepeatableFailure(requestFailure, {
+        ...usecaseInfo,
+        usecaseSafety: undefined,
+      })
+    ).toBe(true);
+  });
+
+  it('repeats unsafe usecases only before request reached the server', () => {
+    const unsafe = { ...usecaseInfo, usecaseSafety: 'unsafe' as const };
+
+    expect(isRepeatableFailure(networkFailure, unsafe)).toBe(true);
+    expect(isRepeatableFailure(requestFailure, unsafe)).toBe(false);
+  });
+
+  it('repeats unsafe usecases when explicitly allowed', () => {
+    expect(
+      isRepeatableFailure(requestFailure, {
+        ...usecaseInfo,
+        usecaseSafety: 'unsafe',
+        retryUnsafe: true,
+      })
+    ).toBe(true);
+  });
+});
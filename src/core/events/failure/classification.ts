@@ -0,0 +1,66 @@
+import type {
+  ExecutionFailure,
+  NetworkFailure,
+  RequestFailure,
+  UsecaseInfo,
+} from './policy';
+
+/**
+ * Failures which are worth retrying.
+ *
+ * Each list restricts only failures of its own kind, an omitted list means every failure of that kind is retryable.
+ */
+export type RetryableFailures = {
+  /** HTTP status codes of retryable HTTP failures */
+  statusCodes?: number[];
+  /** Issues of retryable network failures */
+  networkIssues?: NetworkFailure['issue'][];
+  /** Issues of retryable request failures */
+  requestIssues?: RequestFailure['issue'][];
+};
+
+/**
+ * Returns whether the failure should be retried according to `retryable`.
+ *
+ * All failures are retryable when `retryable` is not provided. Unknown and bind failures are always retryable.
+ */
+export function isRetryableFailure(
+  failure: ExecutionFailure,
+  retryable?: RetryableFailures
+): boolean {
+  switch (failure.kind) {
+    case 'http':
+      return (
+        retryable?.statusCodes?.includes(failure.response.statusCode) ?? true
+      );
+
+    case 'network':
+      return retryable?.networkIssues?.includes(failure.issue) ?? true;
+
+    case 'request':
+      return retryable?.requestIssues?.includes(failure.issue) ?? true;
+
+    default:
+      return true;
+  }
+}
+
+/**
+ * Returns whether the usecase may be performed again after the failure.
+ *
+ * Once a request of a usecase declared unsafe reached the server, the server may have already acted on it,
+ * so such usecase is not repeated unless `retryUnsafe` is set. Usecases without declared safety are always repeatable.
+ */
+export function isRepeatableFailure(
+  failure: ExecutionFailure,
+  usecaseInfo: UsecaseInfo
+): boolean {
+  if (
+    usecaseInfo.usecaseSafety !== 'unsafe' ||
+    usecaseInfo.retryUnsafe === true
+  ) {
+    return true;
+  }
+
+  return failure.kind !== 'request' && failure.kind !== 'http';
+}
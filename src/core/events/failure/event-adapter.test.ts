@@ -1,7 +1,6 @@
 import type {
   AstMetadata,
   MapDocumentNode,
-  NormalizedSuperJsonDocument,
   ProfileDocumentNode,
 } from '@superfaceai/ast';
 import { BackoffKind, OnFail } from '@superfaceai/ast';
@@ -12,8 +11,15 @@ import type { Result } from '../../../lib';
 import { err, ok } from '../../../lib';
 import { MockClient, MockEnvironment } from '../../../mock';
 import { normalizeSuperJsonDocument } from '../../../schema-tools/superjson/normalize';
+import type { NormalizedSuperJsonDocument } from '../../../schema-tools/superjson/superjson';
+import { RoutingKind } from '../../../schema-tools/superjson/superjson';
 import type { FileSystemError } from '../../errors';
-import { bindResponseError, NotFoundError } from '../../errors';
+import {
+  bindResponseError,
+  NotFoundError,
+  PerformTimeoutError,
+  RequestFetchError,
+} from '../../errors';
 import { Provider, ProviderConfiguration } from '../../provider';
 
 const astMetadata: AstMetadata = {
@@ -566,6 +572,87 @@ describe('event-adapter', () => {
     await expect(result).rejects.toThrow(/timeout/);
   });
 
+  it('does not use retry policy - aborts after cancellation', async () => {
+    const controller = new AbortController();
+    const endpoint = await mockServer.forGet('/first').thenCallback(() => {
+      controller.abort();
+
+      return new Promise(() => undefined);
+    });
+    const client = createMockClient();
+
+    client.addBoundProfileProvider(
+      firstMockProfileDocument,
+      firstMockMapDocument,
+      'provider',
+      mockServer.url
+    );
+    const profile = await client.getProfile('starwars/character-information');
+    const useCase = profile.getUseCase('Test');
+    const provider = new Provider(new ProviderConfiguration('provider', []));
+    const result = useCase.perform(undefined, {
+      provider,
+      signal: controller.signal,
+    });
+
+    await expect(result).rejects.toEqual(new RequestFetchError('cancel'));
+    expect((await endpoint.getSeenRequests()).length).toEqual(1);
+  });
+
+  // Concurrency limit
+  it('use concurrency limit - frees slot of request modified by later hook', async () => {
+    const endpoint = await mockServer.forGet('/first').thenJson(200, {});
+    const superJson = normalizeSuperJsonDocument(
+      {
+        profiles: {
+          ['starwars/character-information']: {
+            version: '1.0.0',
+            providers: {
+              provider: {
+                defaults: {
+                  Test: {
+                    input: {},
+                    concurrencyLimit: { maxConcurrent: 1 },
+                  },
+                },
+              },
+            },
+          },
+        },
+        providers: {
+          provider: {
+            security: [],
+          },
+        },
+      },
+      new MockEnvironment()
+    );
+
+    const client = createMockClient({ superJson });
+    client.addBoundProfileProvider(
+      firstMockProfileDocument,
+      firstMockMapDocument,
+      'provider',
+      mockServer.url
+    );
+    client.events.on('pre-fetch', { priority: 2 }, (_context, args) => ({
+      kind: 'modify',
+      newArgs: [args[0], { ...args[1] }],
+    }));
+
+    const profile = await client.getProfile('starwars/character-information');
+    const useCase = profile.getUseCase('Test');
+    const provider = await client.getProvider('provider');
+
+    await expect(
+      useCase.perform(undefined, { provider })
+    ).resolves.toBeTruthy();
+    await expect(
+      useCase.perform(undefined, { provider })
+    ).resolves.toBeTruthy();
+    expect((await endpoint.getSeenRequests()).length).toEqual(2);
+  });
+
   // Circuit breaker
   it('use circuit-breaker policy - aborts after HTTP 500', async () => {
     const endpoint = await mockServer.forGet('/first').thenJson(500, {});
@@ -702,6 +789,68 @@ describe('event-adapter', () => {
     expect((await endpoint.getSeenRequests()).length).toEqual(2);
   });
 
+  it('use circuit-breaker policy with backoff - aborts backoff after perform timeout', async () => {
+    const endpoint = await mockServer.forGet('/first').thenJson(500, {});
+    const superJson = normalizeSuperJsonDocument(
+      {
+        profiles: {
+          ['starwars/character-information']: {
+            version: '1.0.0',
+            providers: {
+              provider: {
+                defaults: {
+                  Test: {
+                    input: {},
+                    retryPolicy: {
+                      kind: OnFail.CIRCUIT_BREAKER,
+                      maxContiguousRetries: 5,
+                      requestTimeout: 1000,
+                      backoff: {
+                        kind: BackoffKind.EXPONENTIAL,
+                        start: 5000,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        providers: {
+          provider: {
+            security: [],
+          },
+        },
+      },
+      new MockEnvironment()
+    );
+
+    const client = createMockClient({ superJson });
+    client.addBoundProfileProvider(
+      firstMockProfileDocument,
+      firstMockMapDocument,
+      'provider',
+      mockServer.url
+    );
+
+    const profile = await client.getProfile('starwars/character-information');
+    const useCase = profile.getUseCase('Test');
+    const provider = await client.getProvider('provider');
+    const result = useCase.perform(undefined, { provider, timeout: 2000 });
+
+    // wait until the retry is backing off, the backoff is longer than the timeout
+    const isBackingOff = () =>
+      client.timers.timers.some(timer => timer.enabled && timer.timeout > 2000);
+    while (!isBackingOff()) {
+      await new Promise(setImmediate);
+    }
+    client.timers.tick(2000);
+
+    await expect(result).rejects.toEqual(new PerformTimeoutError('Test', 2000));
+    expect(isBackingOff()).toBe(false);
+    expect((await endpoint.getSeenRequests()).length).toEqual(1);
+  });
+
   it('use circuit-breaker policy - switch providers after HTTP 500, using default provider', async () => {
     const endpoint = await mockServer.forGet('/first').thenJson(500, {});
     const secondEndpoint = await mockServer.forGet('/second').thenJson(200, {});
@@ -772,6 +921,292 @@ describe('event-adapter', () => {
     expect((await secondEndpoint.getSeenRequests()).length).toEqual(1);
   });
 
+  it('use circuit-breaker policy - switch providers after HTTP 500, usecase without declared safety', async () => {
+    const endpoint = await mockServer.forGet('/first').thenJson(500, {});
+    const secondEndpoint = await mockServer.forGet('/second').thenJson(200, {});
+    const superJson = normalizeSuperJsonDocument(
+      {
+        profiles: {
+          ['starwars/character-information']: {
+            version: '1.0.0',
+            defaults: {
+              Test: {
+                providerFailover: true,
+              },
+            },
+            priority: ['provider', 'second'],
+            providers: {
+              provider: {
+                defaults: {
+                  Test: {
+                    input: {},
+                    retryPolicy: {
+                      kind: OnFail.CIRCUIT_BREAKER,
+                      maxContiguousRetries: 2,
+                      requestTimeout: 1000,
+                    },
+                  },
+                },
+              },
+              second: {},
+            },
+          },
+        },
+        providers: {
+          provider: {
+            security: [],
+          },
+          second: {
+            security: [],
+          },
+        },
+      },
+      new MockEnvironment()
+    );
+    const ast: ProfileDocumentNode = {
+      ...firstMockProfileDocument,
+      definitions: firstMockProfileDocument.definitions.map(definition => ({
+        ...definition,
+        safety: undefined,
+      })),
+    };
+
+    const client = createMockClient({ superJson, ast });
+
+    client.addBoundProfileProvider(
+      ast,
+      firstMockMapDocument,
+      'provider',
+      mockServer.url
+    );
+    client.addBoundProfileProvider(
+      ast,
+      secondMockMapDocument,
+      'second',
+      mockServer.url
+    );
+
+    const profile = await client.getProfile('starwars/character-information');
+    const useCase = profile.getUseCase('Test');
+    const result = await useCase.perform(undefined);
+
+    expect(result.isOk() && result.value).toEqual({
+      message: 'hello from second provider',
+    });
+    // We send request twice
+    expect((await endpoint.getSeenRequests()).length).toEqual(2);
+    expect((await secondEndpoint.getSeenRequests()).length).toEqual(1);
+  });
+
+  it('use circuit-breaker policy - does not switch providers after cancellation', async () => {
+    const controller = new AbortController();
+    const endpoint = await mockServer.forGet('/first').thenCallback(() => {
+      controller.abort();
+
+      return new Promise(() => undefined);
+    });
+    const secondEndpoint = await mockServer.forGet('/second').thenJson(200, {});
+    const superJson = normalizeSuperJsonDocument(
+      {
+        profiles: {
+          ['starwars/character-information']: {
+            version: '1.0.0',
+            defaults: {
+              Test: {
+                providerFailover: true,
+              },
+            },
+            priority: ['provider', 'second'],
+            providers: {
+              provider: {
+                defaults: {
+                  Test: {
+                    input: {},
+                    retryPolicy: {
+                      kind: OnFail.CIRCUIT_BREAKER,
+                      maxContiguousRetries: 2,
+                      requestTimeout: 1000,
+                    },
+                  },
+                },
+              },
+              second: {},
+            },
+          },
+        },
+        providers: {
+          provider: {
+            security: [],
+          },
+          second: {
+            security: [],
+          },
+        },
+      },
+      new MockEnvironment()
+    );
+
+    const client = createMockClient({ superJson });
+    client.addBoundProfileProvider(
+      firstMockProfileDocument,
+      firstMockMapDocument,
+      'provider',
+      mockServer.url
+    );
+    client.addBoundProfileProvider(
+      firstMockProfileDocument,
+      secondMockMapDocument,
+      'second',
+      mockServer.url
+    );
+    const failure = jest.fn();
+    client.on('failure', { priority: 1 }, failure);
+
+    const profile = await client.getProfile('starwars/character-information');
+    const useCase = profile.getUseCase('Test');
+    const result = useCase.perform(undefined, { signal: controller.signal });
+
+    await expect(result).rejects.toEqual(new RequestFetchError('cancel'));
+    expect((await endpoint.getSeenRequests()).length).toEqual(1);
+    expect((await secondEndpoint.getSeenRequests()).length).toEqual(0);
+    expect(failure).not.toHaveBeenCalled();
+  });
+
+  it('use circuit-breaker policy - does not switch providers after perform timeout', async () => {
+    const endpoint = await mockServer.forGet('/first').thenJson(500, {});
+    const secondEndpoint = await mockServer.forGet('/second').thenJson(200, {});
+    const superJson = normalizeSuperJsonDocument(
+      {
+        profiles: {
+          ['starwars/character-information']: {
+            version: '1.0.0',
+            defaults: {
+              Test: {
+                providerFailover: true,
+              },
+            },
+            priority: ['provider', 'second'],
+            providers: {
+              provider: {
+                defaults: {
+                  Test: {
+                    input: {},
+                    retryPolicy: {
+                      kind: OnFail.CIRCUIT_BREAKER,
+                      maxContiguousRetries: 0,
+                      requestTimeout: 1000,
+                    },
+                  },
+                },
+              },
+              second: {},
+            },
+          },
+        },
+        providers: {
+          provider: {
+            security: [],
+          },
+          second: {
+            security: [],
+          },
+        },
+      },
+      new MockEnvironment()
+    );
+
+    const client = createMockClient({ superJson });
+    client.addBoundProfileProvider(
+      firstMockProfileDocument,
+      firstMockMapDocument,
+      'provider',
+      mockServer.url
+    );
+    client.addBoundProfileProvider(
+      firstMockProfileDocument,
+      secondMockMapDocument,
+      'second',
+      mockServer.url
+    );
+    // the timeout elapses once the failed response is received, before failover hooks handle it
+    client.on('pre-unhandled-http', { priority: 0 }, async () => {
+      client.timers.tick(2000);
+
+      return { kind: 'continue' };
+    });
+    const providerSwitch = jest.fn();
+    client.on('provider-switch', { priority: 1 }, providerSwitch);
+
+    const profile = await client.getProfile('starwars/character-information');
+    const useCase = profile.getUseCase('Test');
+    const result = useCase.perform(undefined, { timeout: 2000 });
+
+    await expect(result).rejects.toEqual(new PerformTimeoutError('Test', 2000));
+    expect((await endpoint.getSeenRequests()).length).toEqual(1);
+    expect((await secondEndpoint.getSeenRequests()).length).toEqual(0);
+    expect(providerSwitch).not.toHaveBeenCalled();
+  });
+
+  it('use round-robin routing - alternates providers', async () => {
+    const endpoint = await mockServer.forGet('/first').thenJson(200, {});
+    const secondEndpoint = await mockServer.forGet('/second').thenJson(200, {});
+    const superJson = normalizeSuperJsonDocument(
+      {
+        profiles: {
+          ['starwars/character-information']: {
+            version: '1.0.0',
+            priority: ['provider', 'second'],
+            routing: RoutingKind.ROUND_ROBIN,
+            providers: {
+              provider: {},
+              second: {},
+            },
+          },
+        },
+        providers: {
+          provider: {
+            security: [],
+          },
+          second: {
+            security: [],
+          },
+        },
+      },
+      new MockEnvironment()
+    );
+
+    const client = createMockClient({ superJson });
+
+    client.addBoundProfileProvider(
+      firstMockProfileDocument,
+      firstMockMapDocument,
+      'provider',
+      mockServer.url
+    );
+    client.addBoundProfileProvider(
+      firstMockProfileDocument,
+      secondMockMapDocument,
+      'second',
+      mockServer.url
+    );
+
+    const profile = await client.getProfile('starwars/character-information');
+    const useCase = profile.getUseCase('Test');
+    const results = [
+      await useCase.perform(undefined),
+      await useCase.perform(undefined),
+      await useCase.perform(undefined),
+    ];
+
+    expect(results.map(result => result.isOk() && result.value)).toEqual([
+      { message: 'hello' },
+      { message: 'hello from second provider' },
+      { message: 'hello' },
+    ]);
+    expect((await endpoint.getSeenRequests()).length).toEqual(2);
+    expect((await secondEndpoint.getSeenRequests()).length).toEqual(1);
+  });
+
   it('use circuit-breaker policy - do not switch providers after HTTP 500 - using provider from user', async () => {
     const endpoint = await mockServer.forGet('/first').thenJson(500, {});
     const secondEndpoint = await mockServer.forGet('/second').thenJson(200, {});
@@ -1,11 +1,23 @@
 import type { ILogger, ITimers } from '../../../interfaces';
-import { clone, SDKBindError, UnexpectedError } from '../../../lib';
-import { isFetchError } from '../../errors';
+import {
+  cancellableSleep,
+  clone,
+  SDKBindError,
+  UnexpectedError,
+} from '../../../lib';
+import {
+  isFetchError,
+  RateLimitExceededError,
+  RequestFetchError,
+} from '../../errors';
 import type { Events } from '../events';
+import type { RequestHedging } from './hedging';
 import type { FailurePolicyRouter } from './policies';
 import type { ExecutionFailure, FailurePolicyReason } from './policy';
 import type {
   AbortResolution,
+  ExecutionResolution,
+  QueueResolution,
   RecacheResolution,
   SwitchProviderResolution,
 } from './resolution';
@@ -28,15 +40,26 @@ export type HooksContext = Record<
     router: FailurePolicyRouter;
     // action queued from nested hooks for the last hook
     queuedAction: QueuedAction;
+    // hedging of slow performs, if configured
+    hedging?: RequestHedging;
   }
 >;
 
 function handleCommonResolution(
   performContext: HooksContext[string],
-  resolution: AbortResolution | RecacheResolution | SwitchProviderResolution
+  resolution: AbortResolution | RecacheResolution | SwitchProviderResolution,
+  provider?: string
 ): { newResult: Promise<never> } {
   switch (resolution.kind) {
     case 'abort':
+      // executions of other providers than the current one, such as hedged performs, are not handled in post-bind-and-perform
+      if (
+        provider !== undefined &&
+        provider !== performContext.router.getCurrentProvider()
+      ) {
+        return { newResult: Promise.reject(resolution.reason.toError()) };
+      }
+
       performContext.queuedAction = {
         kind: 'full-abort',
         reason: resolution.reason,
@@ -65,6 +88,21 @@ function handleCommonResolution(
   }
 }
 
+function isCancellation(error: unknown): boolean {
+  return isFetchError(error) && error.issue === 'cancel';
+}
+
+/** Waits until the execution leaves all queues it was put in */
+export async function leaveQueue(
+  resolution: ExecutionResolution
+): Promise<Exclude<ExecutionResolution, QueueResolution>> {
+  while (resolution.kind === 'queue') {
+    resolution = await resolution.resolution;
+  }
+
+  return resolution;
+}
+
 export function registerHooks(
   events: Events,
   timers: ITimers,
@@ -73,6 +111,8 @@ export function registerHooks(
   registerNetworkHooks(events, timers, logger);
   const log = logger?.log(DEBUG_NAMESPACE);
   const logSensitive = logger?.log(DEBUG_NAMESPACE_SENSITIVE);
+  // start times of routed performs by their options, so that routing can measure their latency
+  const routedPerforms = new WeakMap<object, number>();
 
   events.on('pre-bind-and-perform', { priority: 1 }, async (context, args) => {
     log?.('Handling event pre-bind-and-perform with context: %O', context);
@@ -90,21 +130,48 @@ export function registerHooks(
       return { kind: 'continue' };
     }
 
+    const info = {
+      time: context.time.getTime(),
+      registryCacheAge: 0, // TODO
+      checkFailoverRestore: true,
+      signal: args[1]?.signal,
+    };
+
+    // routed performs bind to the provider picked by the routing
+    const routedProvider = performContext.router.routeExecution(info);
+    if (routedProvider !== undefined) {
+      const options = { ...args[1], provider: routedProvider };
+      routedPerforms.set(options, info.time);
+
+      return { kind: 'modify', newArgs: [args[0], options] };
+    }
+
     if (performContext.router.getCurrentProvider() === undefined) {
       return { kind: 'continue' };
     }
 
-    const resolution = performContext.router.beforeExecution({
-      time: context.time.getTime(),
-      registryCacheAge: 0, // TODO
-      checkFailoverRestore: true,
-    });
+    const beforeResolution = performContext.router.beforeExecution(info);
+    const resolution = await leaveQueue(beforeResolution);
+    // cancelled while waiting in a queue, the provider did not fail
+    if (resolution.kind === 'abort' && info.signal?.aborted === true) {
+      return {
+        kind: 'abort',
+        newResult: Promise.reject(new RequestFetchError('cancel')),
+      };
+    }
 
     switch (resolution.kind) {
       case 'continue':
-        return { kind: 'continue' };
-
       case 'backoff':
+        // slots are held by requests, the perform only waits for its turn
+        if (beforeResolution.kind === 'queue') {
+          const provider = performContext.router.getCurrentProvider();
+          if (provider !== undefined) {
+            performContext.router.startExecution(provider, info);
+            performContext.router.finishExecution(provider, info);
+          }
+        }
+
         return { kind: 'continue' };
 
       default:
@@ -159,9 +226,13 @@ export function registerHooks(
             },
           ]);
 
+          const startedAt =
+            args[1] !== undefined ? routedPerforms.get(args[1]) : undefined;
           const resolution = performContext.router.afterSuccess({
             time: context.time.getTime(),
             registryCacheAge: 0, // TODO
+            duration:
+              startedAt !== undefined ? timers.now() - startedAt : undefined,
           });
 
           if (resolution.kind === 'continue') {
@@ -169,6 +240,11 @@ export function registerHooks(
           }
         }
 
+        // cancelled by the caller, the provider did not fail
+        if (isCancellation(error)) {
+          return { kind: 'continue' };
+        }
+
         // error is defined, handle it
         void events.emit('failure', [
           {
@@ -211,6 +287,14 @@ export function registerHooks(
 
         switch (action.kind) {
           case 'switch-provider': {
+            // cancelled performs, such as those past their timeout, are not failed over
+            if (args[1]?.signal?.aborted === true) {
+              return {
+                kind: 'modify',
+                newResult: Promise.reject(new RequestFetchError('cancel')),
+              };
+            }
+
             log?.('Switching to provider', action.provider);
             void events.emit('provider-switch', [
               {
@@ -263,11 +347,15 @@ function registerNetworkHooks(
 ): void {
   const log = logger?.log(DEBUG_NAMESPACE);
   const logSensitive = logger?.log(DEBUG_NAMESPACE_SENSITIVE);
+  // providers of started executions by their fetch invocations, so that post-fetch can finish them
+  const startedExecutions = new WeakMap<object, string>();
+
   events.on('pre-fetch', { priority: 1 }, async (context, args) => {
     log?.('Handling event pre-fetch with context: %O', context);
     logSensitive?.('\targs: %O', args);
-    // only listen to fetch events in perform context
+    // only listen to intercepted fetch events in perform context
     if (
+      context.invocation === undefined ||
       context.profile === undefined ||
       context.usecase === undefined ||
       context.provider === undefined
@@ -281,36 +369,53 @@ function registerNetworkHooks(
     if (performContext === undefined) {
       return { kind: 'continue' };
     }
-    const resolution = performContext.router.beforeExecution({
+    const info = {
       time: context.time.getTime(),
       registryCacheAge: 0, // TODO
       checkFailoverRestore: false,
-    });
+      signal: args[1].signal,
+    };
+    const resolution = await leaveQueue(
+      performContext.router.beforeExecution(info, context.provider)
+    );
+    // cancelled while waiting in a queue, the provider did not fail
+    if (resolution.kind === 'abort' && info.signal?.aborted === true) {
+      return {
+        kind: 'abort',
+        newResult: Promise.reject(new RequestFetchError('cancel')),
+      };
+    }
 
     switch (resolution.kind) {
       case 'continue':
+      case 'backoff': {
+        const newArgs = resolution.timeout > 0 ? clone(args) : args;
         if (resolution.timeout > 0) {
-          const newArgs = clone(args);
           newArgs[1].timeout = resolution.timeout;
-
-          return { kind: 'modify', newArgs };
         }
-        break;
 
-      case 'backoff':
-        await timers.sleep(resolution.backoff);
-        if (resolution.timeout > 0) {
-          const newArgs = clone(args);
-          newArgs[1].timeout = resolution.timeout;
+        performContext.router.startExecution(context.provider, info);
+        startedExecutions.set(context.invocation, context.provider);
 
+        // the request is cancelled right away when the perform is cancelled during the backoff, such as when its timeout elapses
+        if (resolution.kind === 'backoff') {
+          await cancellableSleep(timers, resolution.backoff, newArgs[1].signal);
+        }
+
+        if (newArgs !== args) {
           return { kind: 'modify', newArgs };
         }
         break;
+      }
 
       default:
         return {
           kind: 'abort',
-          ...handleCommonResolution(performContext, resolution),
+          ...handleCommonResolution(
+            performContext,
+            resolution,
+            context.provider
+          ),
         };
     }
 
@@ -321,8 +426,9 @@ function registerNetworkHooks(
     log?.('Handling event post-fetch with context: %O', context);
     logSensitive?.('\targs: %O', args);
     logSensitive?.('\tresult: %O', res);
-    // only listen to fetch events in perform context
+    // only listen to intercepted fetch events in perform context
     if (
+      context.invocation === undefined ||
       context.profile === undefined ||
       context.usecase === undefined ||
       context.provider === undefined
@@ -337,6 +443,16 @@ function registerNetworkHooks(
       return { kind: 'continue' };
     }
 
+    // pre-fetch hooks after this one may replace the request parameters, the invocation stays the same
+    const startedProvider = startedExecutions.get(context.invocation);
+    if (startedProvider !== undefined) {
+      startedExecutions.delete(context.invocation);
+      performContext.router.finishExecution(startedProvider, {
+        time: timers.now(),
+        registryCacheAge: 0, // TODO
+      });
+    }
+
     // defer queued action until post-perform
     if (performContext.queuedAction !== undefined) {
       return { kind: 'continue' };
@@ -351,6 +467,11 @@ function registerNetworkHooks(
       error = err as Error;
     }
 
+    // the request was rejected before being sent or cancelled by the caller, the provider did not fail
+    if (error instanceof RateLimitExceededError || isCancellation(error)) {
+      return { kind: 'continue' };
+    }
+
     void events.emit('failure', [
       {
         time: new Date(timers.now()),
@@ -377,7 +498,10 @@ function registerNetworkHooks(
       };
     }
 
-    const resolution = performContext.router.afterFailure(failure);
+    const resolution = performContext.router.afterFailure(
+      failure,
+      context.provider
+    );
 
     switch (resolution.kind) {
       case 'continue':
@@ -389,7 +513,11 @@ function registerNetworkHooks(
       default:
         return {
           kind: 'modify',
-          ...handleCommonResolution(performContext, resolution),
+          ...handleCommonResolution(
+            performContext,
+            resolution,
+            context.provider
+          ),
         };
     }
   });
@@ -420,12 +548,15 @@ function registerNetworkHooks(
       return { kind: 'continue' };
     }
 
-    const resolution = performContext.router.afterFailure({
-      time: context.time.getTime(),
-      registryCacheAge: 0, // TODO,
-      kind: 'http',
-      response,
-    });
+    const resolution = performContext.router.afterFailure(
+      {
+        time: context.time.getTime(),
+        registryCacheAge: 0, // TODO,
+        kind: 'http',
+        response,
+      },
+      context.provider
+    );
 
     switch (resolution.kind) {
       case 'continue':
@@ -440,7 +571,11 @@ function registerNetworkHooks(
       default:
         return {
           kind: 'abort',
-          ...handleCommonResolution(performContext, resolution),
+          ...handleCommonResolution(
+            performContext,
+            resolution,
+            context.provider
+          ),
         };
     }
   });
@@ -0,0 +1,34 @@
+import { RequestHedging } from './hedging';
+
+describe('RequestHedging', () => {
+  it('uses initial delay until enough latencies are recorded', () => {
+    const hedging = new RequestHedging(95, 500);
+
+    for (let i = 0; i < RequestHedging.MIN_SAMPLES - 1; i++) {
+      hedging.recordLatency(10);
+    }
+
+    expect(hedging.delay).toBe(500);
+  });
+
+  it('uses percentile of recorded latencies', () => {
+    const hedging = new RequestHedging(90, 500);
+
+    for (let i = 1; i <= 20; i++) {
+      hedging.recordLatency(i * 10);
+    }
+
+    expect(hedging.delay).toBe(180);
+  });
+
+  it('only keeps most recent latencies', () => {
+    const hedging = new RequestHedging(100, 500);
+
+    hedging.recordLatency(10_000);
+    for (let i = 0; i < RequestHedging.MAX_SAMPLES; i++) {
+      hedging.recordLatency(10);
+    }
+
+    expect(hedging.delay).toBe(10);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Hedging of slow performs.
+ *
+ * Keeps latencies of recent successful performs and decides how long to wait for a perform
+ * before repeating it with the next provider.
+ */
+export class RequestHedging {
+  public static DEFAULT_PERCENTILE = 95;
+  public static DEFAULT_INITIAL_DELAY = 1000;
+  /** Number of latencies needed before the percentile is used instead of the initial delay */
+  public static MIN_SAMPLES = 10;
+  /** Number of most recent latencies kept */
+  public static MAX_SAMPLES = 100;
+
+  private readonly latencies: number[] = [];
+
+  constructor(
+    public readonly percentile: number = RequestHedging.DEFAULT_PERCENTILE,
+    public readonly initialDelay: number = RequestHedging.DEFAULT_INITIAL_DELAY
+  ) {}
+
+  /** Time in milliseconds after which an unfinished perform should be hedged */
+  public get delay(): number {
+    if (this.latencies.length < RequestHedging.MIN_SAMPLES) {
+      return this.initialDelay;
+    }
+
+    const sorted = [...this.latencies].sort((a, b) => a - b);
+    const index = Math.ceil((this.percentile / 100) * sorted.length) - 1;
+
+    return sorted[Math.max(0, index)];
+  }
+
+  public recordLatency(latency: number): void {
+    this.latencies.push(latency);
+
+    if (this.latencies.length > RequestHedging.MAX_SAMPLES) {
+      this.latencies.shift();
+    }
+  }
+}
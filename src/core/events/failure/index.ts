@@ -1,5 +1,9 @@
 export * from './backoff';
+export * from './classification';
 export * from './event-adapter';
+export * from './hedging';
 export * from './map-interpreter-adapter';
 export * from './policies';
 export * from './policy';
+export * from './routing';
+export * from './throttling';
@@ -1,11 +1,14 @@
+import { MockTimers } from '../../../mock';
 import { ExponentialBackoff } from './backoff';
 import {
   AbortPolicy,
+  BulkheadPolicy,
   CircuitBreakerPolicy,
   FailurePolicyRouter,
   RetryPolicy,
 } from './policies';
-import type { UsecaseInfo } from './policy';
+import type { ExecutionFailure, UsecaseInfo } from './policy';
+import { LatencyRouting, RoundRobinRouting } from './routing';
 
 describe('failure policies', () => {
   const usecaseInfo: UsecaseInfo = {
@@ -14,6 +17,33 @@ describe('failure policies', () => {
     usecaseSafety: 'safe',
   };
 
+  const throttledFailure = (
+    time: number,
+    retryAfter: string
+  ): ExecutionFailure => ({
+    kind: 'http',
+    time,
+    registryCacheAge: 0,
+    response: {
+      statusCode: 429,
+      headers: { 'retry-after': retryAfter },
+      body: undefined,
+      debug: { request: { headers: {}, url: '', body: undefined } },
+    },
+  });
+
+  const httpFailure = (time: number, statusCode: number): ExecutionFailure => ({
+    kind: 'http',
+    time,
+    registryCacheAge: 0,
+    response: {
+      statusCode,
+      headers: {},
+      body: undefined,
+      debug: { request: { headers: {}, url: '', body: undefined } },
+    },
+  });
+
   describe('abort policy', () => {
     const policy = new AbortPolicy(usecaseInfo);
 
@@ -45,6 +75,20 @@ describe('failure policies', () => {
       });
     });
 
+    it('marks failures which are not retryable', () => {
+      const policy = new AbortPolicy(usecaseInfo, { statusCodes: [503] });
+
+      expect(policy.isRetryable(httpFailure(0, 503))).toBe(true);
+      expect(policy.afterFailure(httpFailure(0, 404))).toEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining(
+            'Failure is not retryable: Request ended with http error, status code: 404'
+          ),
+        }),
+      });
+    });
+
     it('always continues on success', () => {
       const event = { time: 0, registryCacheAge: 0 };
 
@@ -364,6 +408,95 @@ describe('failure policies', () => {
         }),
       });
     });
+
+    it('waits as long as the provider asks', () => {
+      const policy = new RetryPolicy(
+        usecaseInfo,
+        3,
+        30_000,
+        new ExponentialBackoff(50, 2.0)
+      );
+
+      expect(policy.afterFailure(throttledFailure(0, '10'))).toStrictEqual({
+        kind: 'retry',
+      });
+      expect(
+        policy.beforeExecution({ time: 4000, registryCacheAge: 0 })
+      ).toStrictEqual({
+        kind: 'backoff',
+        backoff: 6000,
+        timeout: 30_000,
+      });
+
+      // next failure without headers uses backoff again
+      expect(policy.afterFailure(failure)).toStrictEqual({
+        kind: 'retry',
+      });
+      expect(
+        policy.beforeExecution({ time: 0, registryCacheAge: 0 })
+      ).toStrictEqual({
+        kind: 'backoff',
+        backoff: 200,
+        timeout: 30_000,
+      });
+    });
+
+    it('caps wait asked by the provider', () => {
+      const policy = new RetryPolicy(
+        usecaseInfo,
+        3,
+        30_000,
+        new ExponentialBackoff(50, 2.0),
+        5000
+      );
+
+      policy.afterFailure(throttledFailure(0, '3600'));
+      expect(
+        policy.beforeExecution({ time: 0, registryCacheAge: 0 })
+      ).toStrictEqual({
+        kind: 'backoff',
+        backoff: 5000,
+        timeout: 30_000,
+      });
+    });
+
+    it('aborts right away on failures which are not retryable', () => {
+      const policy = new RetryPolicy(
+        usecaseInfo,
+        3,
+        30_000,
+        new ExponentialBackoff(50, 2.0),
+        undefined,
+        { statusCodes: [502, 503, 504], requestIssues: ['timeout'] }
+      );
+
+      expect(policy.afterFailure(httpFailure(0, 503))).toStrictEqual({
+        kind: 'retry',
+      });
+      expect(policy.afterFailure(httpFailure(0, 404))).toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining(
+            'Failure is not retryable: Request ended with http error, status code: 404'
+          ),
+          statusCode: 404,
+        }),
+      });
+      expect(policy.afterFailure(failure)).toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining('Failure is not retryable'),
+        }),
+      });
+      // failures which are not retryable don't increase the backoff
+      expect(
+        policy.beforeExecution({ time: 0, registryCacheAge: 0 })
+      ).toStrictEqual({
+        kind: 'backoff',
+        backoff: 100,
+        timeout: 30_000,
+      });
+    });
   });
 
   describe('circuit breaker policy', () => {
@@ -561,6 +694,64 @@ describe('failure policies', () => {
       ).toStrictEqual({ kind: 'continue', timeout: 40 });
     });
 
+    it('stays open as long as the provider asks', () => {
+      const policy = new CircuitBreakerPolicy(
+        usecaseInfo,
+        1,
+        1000,
+        40,
+        new ExponentialBackoff(50, 2.0)
+      );
+
+      expect(policy.afterFailure(throttledFailure(0, '5'))).toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining('Circuit breaker is open'),
+        }),
+      });
+
+      expect(
+        policy.beforeExecution({ time: 1000, registryCacheAge: 0 })
+      ).toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining('Circuit breaker is open'),
+        }),
+      });
+      expect(
+        policy.beforeExecution({ time: 5000, registryCacheAge: 0 })
+      ).toStrictEqual({ kind: 'continue', timeout: 40 });
+    });
+
+    it('does not open on failures which are not retryable', () => {
+      const policy = new CircuitBreakerPolicy(
+        usecaseInfo,
+        1,
+        1000,
+        40,
+        new ExponentialBackoff(50, 2.0),
+        undefined,
+        { statusCodes: [503] }
+      );
+
+      expect(policy.afterFailure(httpFailure(0, 400))).toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining('Failure is not retryable'),
+        }),
+      });
+      expect(
+        policy.beforeExecution({ time: 0, registryCacheAge: 0 })
+      ).toStrictEqual({ kind: 'continue', timeout: 40 });
+
+      expect(policy.afterFailure(httpFailure(0, 503))).toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining('Circuit breaker is open'),
+        }),
+      });
+    });
+
     it('opens again from half-closed state when it fails', () => {
       const policy = new CircuitBreakerPolicy(
         usecaseInfo,
@@ -841,11 +1032,196 @@ describe('failure policies', () => {
     });
   });
 
+  describe('bulkhead policy', () => {
+    const info = { time: 0, registryCacheAge: 0 };
+
+    it('continues until the limit is reached', () => {
+      const policy = new BulkheadPolicy(
+        usecaseInfo,
+        new AbortPolicy(usecaseInfo),
+        new MockTimers(),
+        2
+      );
+
+      expect(policy.beforeExecution(info)).toStrictEqual({
+        kind: 'continue',
+        timeout: 30_000,
+      });
+      policy.startExecution(info);
+      expect(policy.beforeExecution(info)).toStrictEqual({
+        kind: 'continue',
+        timeout: 30_000,
+      });
+      policy.startExecution(info);
+
+      expect(policy.beforeExecution(info)).toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining(
+            'Max (2) concurrent executions reached'
+          ),
+        }),
+      });
+
+      policy.finishExecution(info);
+      expect(policy.beforeExecution(info)).toStrictEqual({
+        kind: 'continue',
+        timeout: 30_000,
+      });
+    });
+
+    it('queues executions until a slot is free', async () => {
+      const policy = new BulkheadPolicy(
+        usecaseInfo,
+        new AbortPolicy(usecaseInfo),
+        new MockTimers(),
+        1,
+        1
+      );
+
+      policy.startExecution(info);
+      const queued = policy.beforeExecution(info);
+      expect(queued).toStrictEqual({
+        kind: 'queue',
+        resolution: expect.any(Promise),
+      });
+      // queue is full
+      expect(policy.beforeExecution(info)).toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining('concurrent executions reached'),
+        }),
+      });
+
+      policy.finishExecution(info);
+      await expect(
+        queued.kind === 'queue' && queued.resolution
+      ).resolves.toStrictEqual({ kind: 'continue', timeout: 30_000 });
+
+      // the slot is reserved for the execution leaving the queue
+      expect(policy.beforeExecution(info).kind).toBe('queue');
+      policy.startExecution(info);
+      policy.finishExecution(info);
+      policy.startExecution(info);
+      policy.finishExecution(info);
+      expect(policy.beforeExecution(info).kind).toBe('continue');
+    });
+
+    it('aborts queued executions after queue timeout', async () => {
+      const timers = new MockTimers();
+      const policy = new BulkheadPolicy(
+        usecaseInfo,
+        new AbortPolicy(usecaseInfo),
+        timers,
+        1,
+        1,
+        1000
+      );
+
+      policy.startExecution(info);
+      const queued = policy.beforeExecution(info);
+      timers.tick(1000);
+
+      await expect(
+        queued.kind === 'queue' && queued.resolution
+      ).resolves.toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining('Queue timeout (1000 ms) exceeded'),
+        }),
+      });
+      // the timed out execution no longer waits in the queue
+      expect(policy.beforeExecution(info).kind).toBe('queue');
+    });
+
+    it('removes cancelled executions from the queue', async () => {
+      const timers = new MockTimers();
+      const policy = new BulkheadPolicy(
+        usecaseInfo,
+        new AbortPolicy(usecaseInfo),
+        timers,
+        1,
+        1
+      );
+      const controller = new AbortController();
+
+      policy.startExecution(info);
+      const queued = policy.beforeExecution({
+        ...info,
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(
+        queued.kind === 'queue' && queued.resolution
+      ).resolves.toStrictEqual({
+        kind: 'abort',
+        reason: expect.objectContaining({
+          message: expect.stringContaining(
+            'Execution was cancelled while queued'
+          ),
+        }),
+      });
+      expect(timers.timers.every(timer => !timer.enabled)).toBe(true);
+
+      // the freed slot is not reserved for the cancelled execution
+      policy.finishExecution(info);
+      expect(policy.beforeExecution(info).kind).toBe('continue');
+    });
+
+    it('does not queue cancelled executions', async () => {
+      const policy = new BulkheadPolicy(
+        usecaseInfo,
+        new AbortPolicy(usecaseInfo),
+        new MockTimers(),
+        1,
+        1
+      );
+      const controller = new AbortController();
+      controller.abort();
+
+      policy.startExecution(info);
+      const queued = policy.beforeExecution({
+        ...info,
+        signal: controller.signal,
+      });
+
+      await expect(
+        queued.kind === 'queue' && queued.resolution
+      ).resolves.toMatchObject({ kind: 'abort' });
+      // the queue is still empty
+      expect(policy.beforeExecution(info).kind).toBe('queue');
+    });
+  });
+
   describe('FailurePolicyRouter', () => {
     const profileId = 'scope/name/usecase';
     const usecaseName = 'usecase';
     const usecaseSafety = 'safe';
 
+    describe('getNextProvider', () => {
+      it('returns next provider in failover order', () => {
+        const router = new FailurePolicyRouter(
+          () => new AbortPolicy({ profileId, usecaseSafety, usecaseName }),
+          ['first', 'second']
+        );
+
+        expect(router.getNextProvider('first')).toBe('second');
+        expect(router.getNextProvider('second')).toBeUndefined();
+        expect(router.getNextProvider('other')).toBeUndefined();
+      });
+
+      it('returns undefined when failover is not allowed', () => {
+        const router = new FailurePolicyRouter(
+          () => new AbortPolicy({ profileId, usecaseSafety, usecaseName }),
+          ['first', 'second']
+        );
+        router.setAllowFailover(false);
+
+        expect(router.getNextProvider('first')).toBeUndefined();
+      });
+    });
+
     describe('setCurrentProvider', () => {
       it('sets current provider', () => {
         const router = new FailurePolicyRouter(
@@ -1137,6 +1513,116 @@ describe('failure policies', () => {
         ).toEqual({ kind: 'retry' });
       });
 
+      it('does not retry unsafe usecase after request reached the server', () => {
+        const router = new FailurePolicyRouter(
+          () =>
+            new RetryPolicy(
+              { profileId, usecaseSafety: 'unsafe', usecaseName },
+              5,
+              30_000,
+              new ExponentialBackoff(50, 2.0)
+            ),
+          ['first', 'second']
+        );
+        router.setCurrentProvider('first');
+
+        expect(
+          router.afterFailure({
+            kind: 'request',
+            issue: 'timeout',
+            time: 0,
+            registryCacheAge: 0,
+          })
+        ).toEqual({
+          kind: 'abort',
+          reason: expect.objectContaining({
+            message: expect.stringContaining(
+              'Unsafe usecase is not repeated after the request reached the server'
+            ),
+          }),
+        });
+        expect(router.getCurrentProvider()).toBe('first');
+      });
+
+      it('does not fail over unsafe usecase after request reached the server', () => {
+        const router = new FailurePolicyRouter(
+          () =>
+            new AbortPolicy({
+              profileId,
+              usecaseSafety: 'unsafe',
+              usecaseName,
+            }),
+          ['first', 'second']
+        );
+        router.setCurrentProvider('first');
+
+        expect(
+          router.afterFailure({
+            kind: 'http',
+            response: {
+              statusCode: 500,
+              headers: {},
+              body: undefined,
+              debug: { request: { headers: {}, url: '', body: undefined } },
+            },
+            time: 0,
+            registryCacheAge: 0,
+          })
+        ).toMatchObject({ kind: 'abort' });
+        expect(router.getCurrentProvider()).toBe('first');
+      });
+
+      it('retries unsafe usecase after network failure', () => {
+        const router = new FailurePolicyRouter(
+          () =>
+            new RetryPolicy(
+              { profileId, usecaseSafety: 'unsafe', usecaseName },
+              5,
+              30_000,
+              new ExponentialBackoff(50, 2.0)
+            ),
+          ['first']
+        );
+        router.setCurrentProvider('first');
+
+        expect(
+          router.afterFailure({
+            kind: 'network',
+            issue: 'reject',
+            time: 0,
+            registryCacheAge: 0,
+          })
+        ).toEqual({ kind: 'retry' });
+      });
+
+      it('retries unsafe usecase when explicitly allowed', () => {
+        const router = new FailurePolicyRouter(
+          () =>
+            new RetryPolicy(
+              {
+                profileId,
+                usecaseSafety: 'unsafe',
+                usecaseName,
+                retryUnsafe: true,
+              },
+              5,
+              30_000,
+              new ExponentialBackoff(50, 2.0)
+            ),
+          ['first']
+        );
+        router.setCurrentProvider('first');
+
+        expect(
+          router.afterFailure({
+            kind: 'request',
+            issue: 'timeout',
+            time: 0,
+            registryCacheAge: 0,
+          })
+        ).toEqual({ kind: 'retry' });
+      });
+
       it('aborts when there is not another provider', () => {
         const router = new FailurePolicyRouter(
           () => new AbortPolicy({ profileId, usecaseSafety, usecaseName }),
@@ -1171,6 +1657,69 @@ describe('failure policies', () => {
         ).toMatchObject({ kind: 'switch-provider', provider: 'second' });
       });
 
+      it('does not fail over failures which are not retryable', () => {
+        const retryable = { statusCodes: [500, 503] };
+        const policies = [
+          () =>
+            new RetryPolicy(
+              usecaseInfo,
+              3,
+              30_000,
+              new ExponentialBackoff(50, 2.0),
+              undefined,
+              retryable
+            ),
+          () =>
+            new CircuitBreakerPolicy(
+              usecaseInfo,
+              3,
+              30_000,
+              30_000,
+              new ExponentialBackoff(50, 2.0),
+              undefined,
+              retryable
+            ),
+          () => new AbortPolicy(usecaseInfo, retryable),
+        ];
+
+        for (const instantiatePolicy of policies) {
+          const router = new FailurePolicyRouter(instantiatePolicy, [
+            'first',
+            'second',
+          ]);
+          router.setCurrentProvider('first');
+
+          expect(router.afterFailure(httpFailure(0, 404))).toEqual({
+            kind: 'abort',
+            reason: expect.objectContaining({
+              message: expect.stringContaining('Failure is not retryable'),
+            }),
+          });
+          expect(router.getCurrentProvider()).toBe('first');
+        }
+      });
+
+      it('does not fail over execution of provider other than current one', () => {
+        const router = new FailurePolicyRouter(
+          () => new AbortPolicy({ profileId, usecaseSafety, usecaseName }),
+          ['first', 'second', 'third']
+        );
+        router.setCurrentProvider('first');
+
+        expect(
+          router.afterFailure(
+            {
+              kind: 'network',
+              issue: 'timeout',
+              time: 0,
+              registryCacheAge: 0,
+            },
+            'second'
+          )
+        ).toMatchObject({ kind: 'abort' });
+        expect(router.getCurrentProvider()).toBe('first');
+      });
+
       it('does not switch to another provider - failover not allowed', () => {
         const router = new FailurePolicyRouter(
           () => new AbortPolicy({ profileId, usecaseSafety, usecaseName }),
@@ -1237,6 +1786,227 @@ describe('failure policies', () => {
       });
     });
 
+    describe('execution tracking', () => {
+      it('fails over when concurrency limit is reached', () => {
+        const timers = new MockTimers();
+        const router = new FailurePolicyRouter(
+          () =>
+            new BulkheadPolicy(
+              usecaseInfo,
+              new AbortPolicy(usecaseInfo),
+              timers,
+              1
+            ),
+          ['first', 'second']
+        );
+        router.setCurrentProvider('first');
+
+        router.startExecution('first', { time: 0, registryCacheAge: 0 });
+        expect(
+          router.beforeExecution({ time: 0, registryCacheAge: 0 })
+        ).toEqual({
+          kind: 'switch-provider',
+          provider: 'second',
+          reason: expect.objectContaining({
+            message: expect.stringContaining('concurrent executions reached'),
+          }),
+        });
+      });
+
+      it('probes full provider without queueing an execution', () => {
+        const timers = new MockTimers();
+        const router = new FailurePolicyRouter(
+          () =>
+            new BulkheadPolicy(
+              usecaseInfo,
+              new AbortPolicy(usecaseInfo),
+              timers,
+              1,
+              1
+            ),
+          ['first', 'second']
+        );
+        router.setCurrentProvider('first');
+        router.startExecution('second', { time: 0, registryCacheAge: 0 });
+
+        expect(
+          router.afterFailure({
+            kind: 'network',
+            issue: 'timeout',
+            time: 0,
+            registryCacheAge: 0,
+          })
+        ).toMatchObject({ kind: 'abort' });
+
+        // the capacity of the probed provider is fully restored
+        router.finishExecution('second', { time: 0, registryCacheAge: 0 });
+        router.setCurrentProvider('second');
+        expect(
+          router.beforeExecution({ time: 0, registryCacheAge: 0 })
+        ).toMatchObject({ kind: 'continue' });
+      });
+
+      it('fails over when queued execution times out', async () => {
+        const timers = new MockTimers();
+        const router = new FailurePolicyRouter(
+          () =>
+            new BulkheadPolicy(
+              usecaseInfo,
+              new AbortPolicy(usecaseInfo),
+              timers,
+              1,
+              1,
+              1000
+            ),
+          ['first', 'second']
+        );
+        router.setCurrentProvider('first');
+
+        router.startExecution('first', { time: 0, registryCacheAge: 0 });
+        const resolution = router.beforeExecution({
+          time: 0,
+          registryCacheAge: 0,
+        });
+        timers.tick(1000);
+
+        await expect(
+          resolution.kind === 'queue' && resolution.resolution
+        ).resolves.toEqual({
+          kind: 'switch-provider',
+          provider: 'second',
+          reason: expect.objectContaining({
+            message: expect.stringContaining('Queue timeout'),
+          }),
+        });
+      });
+
+      it('does not fail over queued execution which was cancelled', async () => {
+        const timers = new MockTimers();
+        const router = new FailurePolicyRouter(
+          () =>
+            new BulkheadPolicy(
+              usecaseInfo,
+              new AbortPolicy(usecaseInfo),
+              timers,
+              1,
+              1
+            ),
+          ['first', 'second']
+        );
+        router.setCurrentProvider('first');
+        const controller = new AbortController();
+
+        router.startExecution('first', { time: 0, registryCacheAge: 0 });
+        const resolution = router.beforeExecution({
+          time: 0,
+          registryCacheAge: 0,
+          signal: controller.signal,
+        });
+        controller.abort();
+
+        await expect(
+          resolution.kind === 'queue' && resolution.resolution
+        ).resolves.toMatchObject({ kind: 'abort' });
+        expect(router.getCurrentProvider()).toBe('first');
+      });
+    });
+
+    describe('routeExecution', () => {
+      const info = { time: 0, registryCacheAge: 0, checkFailoverRestore: true };
+
+      it('does not route without routing', () => {
+        const router = new FailurePolicyRouter(
+          () => new AbortPolicy(usecaseInfo),
+          ['first', 'second']
+        );
+
+        expect(router.routeExecution(info)).toBeUndefined();
+      });
+
+      it('routes performs in the routing order', () => {
+        const router = new FailurePolicyRouter(
+          () => new AbortPolicy(usecaseInfo),
+          ['first', 'second'],
+          new RoundRobinRouting(['first', 'second'])
+        );
+
+        expect(router.routeExecution(info)).toBe('first');
+        expect(router.routeExecution(info)).toBe('second');
+        expect(router.routeExecution(info)).toBe('first');
+      });
+
+      it('skips providers which cannot continue', () => {
+        const router = new FailurePolicyRouter(
+          provider =>
+            new CircuitBreakerPolicy(
+              usecaseInfo,
+              provider === 'first' ? 1 : 5,
+              60_000,
+              30_000,
+              new ExponentialBackoff(50, 2.0)
+            ),
+          ['first', 'second'],
+          new RoundRobinRouting(['first', 'second'])
+        );
+
+        router.setCurrentProvider('first');
+        router.afterFailure({
+          kind: 'network',
+          issue: 'timeout',
+          time: 0,
+          registryCacheAge: 0,
+        });
+
+        expect(router.routeExecution(info)).toBe('second');
+        expect(router.routeExecution(info)).toBe('second');
+      });
+
+      it('fails over in the routing order and does not restore', () => {
+        const router = new FailurePolicyRouter(
+          () => new AbortPolicy(usecaseInfo),
+          ['first', 'second', 'third'],
+          new RoundRobinRouting(['first', 'second', 'third'])
+        );
+
+        router.routeExecution(info);
+        router.routeExecution(info);
+        router.setCurrentProvider('third');
+
+        expect(router.beforeExecution(info)).toEqual({
+          kind: 'continue',
+          timeout: 30_000,
+        });
+        expect(
+          router.afterFailure({
+            kind: 'network',
+            issue: 'timeout',
+            time: 0,
+            registryCacheAge: 0,
+          })
+        ).toEqual({
+          kind: 'switch-provider',
+          provider: 'first',
+          reason: expect.anything(),
+        });
+      });
+
+      it('reports performs to the routing', () => {
+        const routing = new LatencyRouting(['first', 'second']);
+        const router = new FailurePolicyRouter(
+          () => new AbortPolicy(usecaseInfo),
+          ['first', 'second'],
+          routing
+        );
+
+        router.setCurrentProvider('first');
+        router.afterSuccess({ time: 0, registryCacheAge: 0, duration: 500 });
+        router.setCurrentProvider('second');
+        router.afterSuccess({ time: 0, registryCacheAge: 0, duration: 100 });
+
+        expect(router.routeExecution(info)).toBe('second');
+      });
+    });
+
     describe('afterSuccess', () => {
       it('throws if current provider is undefined', () => {
         const router = new FailurePolicyRouter(
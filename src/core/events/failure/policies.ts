@@ -1,5 +1,8 @@
+import type { ITimers } from '../../../interfaces';
 import { UnexpectedError } from '../../../lib';
 import type { Backoff } from './backoff';
+import type { RetryableFailures } from './classification';
+import { isRepeatableFailure, isRetryableFailure } from './classification';
 import type {
   ExecutionFailure,
   ExecutionInfo,
@@ -10,13 +13,18 @@ import { FailurePolicy, FailurePolicyReason } from './policy';
 import type {
   ExecutionResolution,
   FailureResolution,
+  QueueResolution,
   SuccessResolution,
   SwitchProviderResolution,
 } from './resolution';
+import type { ProviderRouting } from './routing';
+import { throttlingDelay } from './throttling';
 
 export class FailurePolicyRouter {
   private currentProvider: string | undefined;
   private allowFailover = true;
+  /** Order in which providers are failed over, changes with each routed perform */
+  private failoverOrder: string[];
 
   private readonly providersOfUseCase: Record<string, FailurePolicy>;
 
@@ -24,8 +32,10 @@ export class FailurePolicyRouter {
     private readonly instantiateFailurePolicy: (
       provider: string
     ) => FailurePolicy,
-    private readonly priority: string[]
+    private readonly priority: string[],
+    private readonly routing?: ProviderRouting
   ) {
+    this.failoverOrder = priority;
     this.providersOfUseCase = Object.fromEntries(
       priority.map(provider => [provider, instantiateFailurePolicy(provider)])
     );
@@ -49,16 +59,60 @@ export class FailurePolicyRouter {
     this.allowFailover = allowFailover;
   }
 
+  /** Returns the provider following the provider in failover order, undefined when failover is not allowed */
+  public getNextProvider(provider: string): string | undefined {
+    if (!this.allowFailover) {
+      return undefined;
+    }
+
+    const index = this.failoverOrder.indexOf(provider);
+
+    return index !== -1 ? this.failoverOrder[index + 1] : undefined;
+  }
+
+  private getPolicy(provider: string): FailurePolicy {
+    if (!(provider in this.providersOfUseCase)) {
+      this.providersOfUseCase[provider] =
+        this.instantiateFailurePolicy(provider);
+    }
+
+    return this.providersOfUseCase[provider];
+  }
+
+  /**
+   * Selects the provider of the next perform according to the routing.
+   *
+   * The first provider in the routing order which can continue is selected, failover then follows the same order.
+   * Returns undefined when performs are not routed and the provider stays selected by priority.
+   */
+  public routeExecution(info: ExecutionInfo): string | undefined {
+    if (this.routing === undefined) {
+      return undefined;
+    }
+
+    const order = this.routing.order();
+    if (order.length === 0) {
+      return undefined;
+    }
+
+    this.failoverOrder = order.filter(provider =>
+      this.priority.includes(provider)
+    );
+
+    return (
+      order.find(provider => this.getPolicy(provider).canExecute(info)) ??
+      order[0]
+    );
+  }
+
   private attemptSwitch(
     info: ExecutionInfo,
     providers: string[],
     reason: FailurePolicyReason
   ): SwitchProviderResolution | undefined {
     // find the first previous provider that doesn't abort
-    const newProvider = providers.find(
-      provider =>
-        this.providersOfUseCase[provider].beforeExecution(info).kind ===
-        'continue'
+    const newProvider = providers.find(provider =>
+      this.providersOfUseCase[provider].canExecute(info)
     );
 
     if (newProvider === undefined) {
@@ -84,8 +138,8 @@ export class FailurePolicyRouter {
       return undefined;
     }
 
-    const previousProviders = this.priority.slice(
-      this.priority.indexOf(this.currentProvider) + 1
+    const previousProviders = this.failoverOrder.slice(
+      this.failoverOrder.indexOf(this.currentProvider) + 1
     );
 
     return this.attemptSwitch(info, previousProviders, reason);
@@ -100,7 +154,12 @@ export class FailurePolicyRouter {
       );
     }
 
-    if (!this.allowFailover || info.checkFailoverRestore !== true) {
+    // routed performs start with the best provider, there is nothing to restore
+    if (
+      !this.allowFailover ||
+      info.checkFailoverRestore !== true ||
+      this.routing !== undefined
+    ) {
       return undefined;
     }
 
@@ -109,7 +168,15 @@ export class FailurePolicyRouter {
       .filter(
         // TODO: Temporary hack to avoid infinite switch loops
         // this needs to be solved globally
-        provider => !(this.providersOfUseCase[provider] instanceof AbortPolicy)
+        provider => {
+          const policy = this.providersOfUseCase[provider];
+
+          return !(
+            policy instanceof AbortPolicy ||
+            (policy instanceof BulkheadPolicy &&
+              policy.inner instanceof AbortPolicy)
+          );
+        }
       );
 
     return this.attemptSwitch(
@@ -131,6 +198,11 @@ export class FailurePolicyRouter {
     info: ExecutionInfo,
     innerResolution: ExecutionResolution | FailureResolution
   ): ExecutionResolution | FailureResolution {
+    // cancelled executions are not failed over
+    if (innerResolution.kind === 'abort' && info.signal?.aborted === true) {
+      return innerResolution;
+    }
+
     if (innerResolution.kind === 'abort') {
       const failover = this.attemptFailover(info, innerResolution.reason);
       if (failover === undefined) {
@@ -145,16 +217,39 @@ export class FailurePolicyRouter {
       return failover;
     }
 
+    // fail over if the execution gets aborted while waiting in the queue
+    if (innerResolution.kind === 'queue') {
+      const resolution: QueueResolution = {
+        kind: 'queue',
+        resolution: innerResolution.resolution.then(queued =>
+          this.handleFailover(info, queued)
+        ),
+      };
+
+      return resolution;
+    }
+
     return innerResolution;
   }
 
-  public beforeExecution(info: ExecutionInfo): ExecutionResolution {
+  /**
+   * Executions of other providers than the current one, such as hedged performs, only consult the policy of their provider.
+   * They are neither failed over nor restored.
+   */
+  public beforeExecution(
+    info: ExecutionInfo,
+    provider?: string
+  ): ExecutionResolution {
     if (this.currentProvider === undefined) {
       throw new UnexpectedError(
         'Property currentProvider is not set in Router instance'
       );
     }
 
+    if (provider !== undefined && provider !== this.currentProvider) {
+      return this.getPolicy(provider).beforeExecution(info);
+    }
+
     const failoverRestore = this.attemptFailoverRestore(info);
     if (failoverRestore !== undefined) {
       return failoverRestore;
@@ -166,15 +261,50 @@ export class FailurePolicyRouter {
     return this.handleFailover(info, innerResolution);
   }
 
-  public afterFailure(info: ExecutionFailure): FailureResolution {
+  public afterFailure(
+    info: ExecutionFailure,
+    provider?: string
+  ): FailureResolution {
     if (this.currentProvider === undefined) {
       throw new UnexpectedError(
         'Property currentProvider is not set in Router instance'
       );
     }
 
-    const innerResolution =
-      this.providersOfUseCase[this.currentProvider].afterFailure(info);
+    const executedProvider = provider ?? this.currentProvider;
+    this.routing?.recordFailure(executedProvider);
+    const policy = this.getPolicy(executedProvider);
+    const innerResolution = policy.afterFailure(info);
+
+    // neither retry nor fail over, the server might have already acted on the request
+    if (!isRepeatableFailure(info, policy.usecaseInfo)) {
+      return {
+        kind: 'abort',
+        reason: (innerResolution.kind === 'abort'
+          ? innerResolution.reason
+          : FailurePolicyReason.fromExecutionFailure(info)
+        ).addPrefixMessage(
+          'Unsafe usecase is not repeated after the request reached the server'
+        ),
+      };
+    }
+
+    // failures which are not worth repeating are not sent to another provider either
+    if (!policy.isRetryable(info)) {
+      return {
+        kind: 'abort',
+        reason:
+          innerResolution.kind === 'abort'
+            ? innerResolution.reason
+            : FailurePolicyReason.fromExecutionFailure(info).addPrefixMessage(
+                'Failure is not retryable'
+              ),
+      };
+    }
+
+    if (executedProvider !== this.currentProvider) {
+      return innerResolution;
+    }
 
     return this.handleFailover(
       { ...info, checkFailoverRestore: false },
@@ -182,27 +312,54 @@ export class FailurePolicyRouter {
     );
   }
 
-  public afterSuccess(info: ExecutionSuccess): SuccessResolution {
+  public afterSuccess(
+    info: ExecutionSuccess,
+    provider?: string
+  ): SuccessResolution {
     if (this.currentProvider === undefined) {
       throw new UnexpectedError(
         'Property currentProvider is not set in Router instance'
       );
     }
 
-    return this.providersOfUseCase[this.currentProvider].afterSuccess(info);
+    const executedProvider = provider ?? this.currentProvider;
+    this.routing?.recordSuccess(executedProvider, info.duration);
+
+    return this.getPolicy(executedProvider).afterSuccess(info);
+  }
+
+  public startExecution(provider: string, info: ExecutionInfo): void {
+    if (provider in this.providersOfUseCase) {
+      this.providersOfUseCase[provider].startExecution(info);
+    }
+  }
+
+  public finishExecution(provider: string, info: ExecutionInfo): void {
+    if (provider in this.providersOfUseCase) {
+      this.providersOfUseCase[provider].finishExecution(info);
+    }
   }
 
   public reset(): void {
     this.setCurrentProvider(this.priority[0]);
+    this.failoverOrder = this.priority;
     for (const policy of Object.values(this.providersOfUseCase)) {
       policy.reset();
     }
   }
 }
 
-/** Simple policy which aborts on the first failure */
+/**
+ * Simple policy which aborts on the first failure
+ *
+ * Failures which are not `retryable` are not failed over to another provider either.
+ */
 export class AbortPolicy extends FailurePolicy {
-  constructor(usecaseInfo: UsecaseInfo) {
+  constructor(
+    usecaseInfo: UsecaseInfo,
+    /** Failures worth failing over, all failures are failed over when not provided */
+    public readonly retryable?: RetryableFailures
+  ) {
     super(usecaseInfo);
   }
 
@@ -211,12 +368,20 @@ export class AbortPolicy extends FailurePolicy {
   }
 
   public override afterFailure(info: ExecutionFailure): FailureResolution {
+    const reason = FailurePolicyReason.fromExecutionFailure(info);
+
     return {
       kind: 'abort',
-      reason: FailurePolicyReason.fromExecutionFailure(info),
+      reason: this.isRetryable(info)
+        ? reason
+        : reason.addPrefixMessage('Failure is not retryable'),
     };
   }
 
+  public override isRetryable(info: ExecutionFailure): boolean {
+    return isRetryableFailure(info, this.retryable);
+  }
+
   public override afterSuccess(_info: ExecutionSuccess): SuccessResolution {
     return { kind: 'continue' };
   }
@@ -224,10 +389,17 @@ export class AbortPolicy extends FailurePolicy {
   public override reset(): void {}
 }
 
-/** Simple retry policy with exponential backoff */
+/**
+ * Simple retry policy with exponential backoff
+ *
+ * When the provider responds with 429 or 503 and tells us how long to wait, the wait (capped by `maxRetryAfter`) is used instead of the backoff.
+ *
+ * Failures which are not `retryable` abort right away without affecting the backoff.
+ */
 export class RetryPolicy extends FailurePolicy {
   public static DEFAULT_MAX_CONTIGUOUS_RETRIES = 5;
   public static DEFAULT_REQUEST_TIMEOUT = 30_000;
+  public static DEFAULT_MAX_RETRY_AFTER = 60_000;
 
   /**
    * Counts the length of the current streak of actions
@@ -238,18 +410,25 @@ export class RetryPolicy extends FailurePolicy {
   /** Counts the current balace of .up() and .down() calls to backoff */
   private balance: number;
   private lastCallTime: number;
+  /** Time until which the provider asked us not to send requests */
+  private throttledUntil: number;
 
   constructor(
     usecaseInfo: UsecaseInfo,
     public readonly maxContiguousRetries: number,
     public readonly requestTimeout: number,
-    private readonly backoff: Backoff
+    private readonly backoff: Backoff,
+    /** Maximum time in milliseconds to wait when asked by the provider */
+    public readonly maxRetryAfter: number = RetryPolicy.DEFAULT_MAX_RETRY_AFTER,
+    /** Failures worth retrying, all failures are retried when not provided */
+    public readonly retryable?: RetryableFailures
   ) {
     super(usecaseInfo);
 
     this.streak = 0;
     this.balance = 0;
     this.lastCallTime = 0;
+    this.throttledUntil = 0;
   }
 
   public override beforeExecution(info: ExecutionInfo): ExecutionResolution {
@@ -258,6 +437,15 @@ export class RetryPolicy extends FailurePolicy {
       return { kind: 'continue', timeout: this.requestTimeout };
     }
 
+    // wait as long as the provider asked us to
+    if (this.throttledUntil > info.time) {
+      return {
+        kind: 'backoff',
+        backoff: this.throttledUntil - info.time,
+        timeout: this.requestTimeout,
+      };
+    }
+
     // don't apply backoff if enough time has elapsed since then anyway
     const sinceLastCall = info.time - this.lastCallTime;
     const backoff = Math.max(0, this.backoff.current - sinceLastCall);
@@ -266,12 +454,22 @@ export class RetryPolicy extends FailurePolicy {
   }
 
   public override afterFailure(info: ExecutionFailure): FailureResolution {
+    if (!this.isRetryable(info)) {
+      return {
+        kind: 'abort',
+        reason: FailurePolicyReason.fromExecutionFailure(info).addPrefixMessage(
+          'Failure is not retryable'
+        ),
+      };
+    }
+
     if (info.kind === 'bind') {
       this.streak = -this.maxContiguousRetries;
     }
     // either reset to -1 or make the negative streak longer
     this.streak = Math.min(-1, this.streak - 1);
     this.lastCallTime = info.time;
+    this.throttledUntil = this.throttledUntilAfter(info);
 
     if (-this.streak > this.maxContiguousRetries) {
       // abort when we fail too much
@@ -293,6 +491,7 @@ export class RetryPolicy extends FailurePolicy {
   public override afterSuccess(info: ExecutionSuccess): SuccessResolution {
     this.streak = Math.max(1, this.streak + 1);
     this.lastCallTime = info.time;
+    this.throttledUntil = 0;
 
     if (this.balance >= 0) {
       return { kind: 'continue' };
@@ -305,9 +504,24 @@ export class RetryPolicy extends FailurePolicy {
     return { kind: 'continue' };
   }
 
+  public override isRetryable(info: ExecutionFailure): boolean {
+    return isRetryableFailure(info, this.retryable);
+  }
+
+  /** Returns time until which the provider asked us to wait after the failure, or 0 if it didn't */
+  public throttledUntilAfter(info: ExecutionFailure): number {
+    const delay = throttlingDelay(info);
+    if (delay === undefined) {
+      return 0;
+    }
+
+    return info.time + Math.min(delay, this.maxRetryAfter);
+  }
+
   public override reset(): void {
     this.streak = 0;
     this.lastCallTime = 0;
+    this.throttledUntil = 0;
 
     while (this.balance < 0) {
       this.backoff.down();
@@ -326,6 +540,10 @@ export class RetryPolicy extends FailurePolicy {
  * until a configured timeout is reached. After this timeout, the breaker goes into half-open state where any failure will trip it again.
  *
  * If a successful execution is detected from half-open state, the breaker closes again and is in the same state as at the beginning.
+ *
+ * If the provider asked us to wait longer than the reset timeout when the breaker trips, the breaker stays open until then.
+ *
+ * Failures which are not `retryable` abort the execution but neither trip the breaker nor count towards the threshold.
  */
 export class CircuitBreakerPolicy extends FailurePolicy {
   public static DEFAULT_OPEN_TIME = 30_000;
@@ -333,6 +551,7 @@ export class CircuitBreakerPolicy extends FailurePolicy {
   private readonly inner: RetryPolicy;
   private state: 'closed' | 'open' | 'half-open';
   private openTime: number;
+  private throttledUntil: number;
 
   constructor(
     usecaseInfo: UsecaseInfo,
@@ -341,7 +560,11 @@ export class CircuitBreakerPolicy extends FailurePolicy {
     /** Reset timeout in milliseconds */
     private readonly resetTimeout: number,
     requestTimeout: number,
-    backoff: Backoff
+    backoff: Backoff,
+    /** Maximum time in milliseconds to wait when asked by the provider */
+    maxRetryAfter?: number,
+    /** Failures worth retrying, all failures are retried when not provided */
+    retryable?: RetryableFailures
   ) {
     super(usecaseInfo);
 
@@ -349,16 +572,22 @@ export class CircuitBreakerPolicy extends FailurePolicy {
       usecaseInfo,
       failureThreshold - 1,
       requestTimeout,
-      backoff
+      backoff,
+      maxRetryAfter,
+      retryable
     );
 
     this.state = 'closed';
     this.openTime = 0;
+    this.throttledUntil = 0;
   }
 
   public override beforeExecution(info: ExecutionInfo): ExecutionResolution {
     if (this.state === 'open') {
-      if (info.time >= this.openTime + this.resetTimeout) {
+      if (
+        info.time >=
+        Math.max(this.openTime + this.resetTimeout, this.throttledUntil)
+      ) {
         this.halfOpen();
 
         return { kind: 'continue', timeout: this.inner.requestTimeout };
@@ -389,8 +618,12 @@ export class CircuitBreakerPolicy extends FailurePolicy {
   }
 
   public override afterFailure(info: ExecutionFailure): FailureResolution {
+    if (this.state !== 'open' && !this.inner.isRetryable(info)) {
+      return this.inner.afterFailure(info);
+    }
+
     if (this.state === 'half-open') {
-      this.open(info.time);
+      this.open(info.time, this.inner.throttledUntilAfter(info));
 
       return {
         kind: 'abort',
@@ -407,7 +640,7 @@ export class CircuitBreakerPolicy extends FailurePolicy {
     const innerResponse = this.inner.afterFailure(info);
 
     if (innerResponse.kind === 'abort') {
-      this.open(info.time);
+      this.open(info.time, this.inner.throttledUntilAfter(info));
 
       return {
         kind: 'abort',
@@ -420,6 +653,10 @@ export class CircuitBreakerPolicy extends FailurePolicy {
     return innerResponse;
   }
 
+  public override isRetryable(info: ExecutionFailure): boolean {
+    return this.inner.isRetryable(info);
+  }
+
   public override afterSuccess(info: ExecutionSuccess): SuccessResolution {
     if (this.state === 'half-open') {
       this.close();
@@ -432,10 +669,11 @@ export class CircuitBreakerPolicy extends FailurePolicy {
     return this.inner.afterSuccess(info);
   }
 
-  private open(time: number) {
+  private open(time: number, throttledUntil = 0) {
     this.state = 'open';
     this.inner.reset();
     this.openTime = time;
+    this.throttledUntil = throttledUntil;
   }
 
   private halfOpen() {
@@ -450,5 +688,169 @@ export class CircuitBreakerPolicy extends FailurePolicy {
     this.inner.reset();
     this.state = 'closed';
     this.openTime = 0;
+    this.throttledUntil = 0;
+  }
+}
+
+/**
+ * Bulkhead pattern
+ *
+ * Limits the number of executions in flight against the provider. When the limit is reached, new executions wait in a queue
+ * until another execution finishes. Executions which don't fit into the queue or wait longer than the queue timeout are aborted,
+ * which lets the router fail over to another provider.
+ *
+ * Failures and successes are handled by the inner policy.
+ */
+export class BulkheadPolicy extends FailurePolicy {
+  public static DEFAULT_MAX_QUEUED = 0;
+  public static DEFAULT_QUEUE_TIMEOUT = 30_000;
+
+  /** Number of executions in flight */
+  private running: number;
+  /** Number of slots given to executions leaving the queue which have not started yet */
+  private reserved: number;
+  private readonly queue: { leave: () => void }[];
+
+  constructor(
+    usecaseInfo: UsecaseInfo,
+    public readonly inner: FailurePolicy,
+    private readonly timers: ITimers,
+    /** Maximum number of executions in flight */
+    public readonly maxConcurrent: number,
+    /** Maximum number of executions waiting for a free slot */
+    public readonly maxQueued: number = BulkheadPolicy.DEFAULT_MAX_QUEUED,
+    /** Time in milliseconds after which a waiting execution is aborted */
+    public readonly queueTimeout: number = BulkheadPolicy.DEFAULT_QUEUE_TIMEOUT
+  ) {
+    super(usecaseInfo);
+
+    this.running = 0;
+    this.reserved = 0;
+    this.queue = [];
+  }
+
+  public override beforeExecution(info: ExecutionInfo): ExecutionResolution {
+    const innerResolution = this.inner.beforeExecution(info);
+    if (
+      innerResolution.kind !== 'continue' &&
+      innerResolution.kind !== 'backoff'
+    ) {
+      return innerResolution;
+    }
+
+    if (this.queue.length === 0 && this.hasFreeSlot()) {
+      return innerResolution;
+    }
+
+    if (this.queue.length >= this.maxQueued) {
+      return {
+        kind: 'abort',
+        reason: FailurePolicyReason.fromPolicyReason(
+          `Max (${this.maxConcurrent}) concurrent executions reached`
+        ),
+      };
+    }
+
+    return { kind: 'queue', resolution: this.enqueue(info) };
+  }
+
+  public override canExecute(info: ExecutionInfo): boolean {
+    return (
+      this.queue.length === 0 &&
+      this.hasFreeSlot() &&
+      this.inner.canExecute(info)
+    );
+  }
+
+  public override afterFailure(info: ExecutionFailure): FailureResolution {
+    return this.inner.afterFailure(info);
+  }
+
+  public override afterSuccess(info: ExecutionSuccess): SuccessResolution {
+    return this.inner.afterSuccess(info);
+  }
+
+  public override isRetryable(info: ExecutionFailure): boolean {
+    return this.inner.isRetryable(info);
+  }
+
+  public override startExecution(info: ExecutionInfo): void {
+    this.reserved = Math.max(0, this.reserved - 1);
+    this.running += 1;
+    this.inner.startExecution(info);
+  }
+
+  public override finishExecution(info: ExecutionInfo): void {
+    this.running = Math.max(0, this.running - 1);
+    this.inner.finishExecution(info);
+
+    while (this.queue.length > 0 && this.hasFreeSlot()) {
+      this.queue.shift()?.leave();
+    }
+  }
+
+  public override reset(): void {
+    // executions in flight are still running, only the inner state is reset
+    this.inner.reset();
+  }
+
+  private hasFreeSlot(): boolean {
+    return this.running + this.reserved < this.maxConcurrent;
+  }
+
+  private enqueue(info: ExecutionInfo): Promise<ExecutionResolution> {
+    return new Promise(resolve => {
+      const cancelledResolution: ExecutionResolution = {
+        kind: 'abort',
+        reason: FailurePolicyReason.fromPolicyReason(
+          'Execution was cancelled while queued'
+        ),
+      };
+      if (info.signal?.aborted === true) {
+        resolve(cancelledResolution);
+
+        return;
+      }
+
+      // cancelled executions leave the queue right away, so that they don't take a slot later
+      const cancel = () => {
+        this.timers.clearTimeout(timeout);
+        this.queue.splice(this.queue.indexOf(entry), 1);
+
+        resolve(cancelledResolution);
+      };
+
+      const entry = {
+        leave: () => {
+          this.timers.clearTimeout(timeout);
+          info.signal?.removeEventListener('abort', cancel);
+
+          const resolution = this.inner.beforeExecution({
+            ...info,
+            time: this.timers.now(),
+          });
+          if (resolution.kind === 'continue' || resolution.kind === 'backoff') {
+            this.reserved += 1;
+          }
+
+          resolve(resolution);
+        },
+      };
+
+      const timeout = this.timers.setTimeout(() => {
+        info.signal?.removeEventListener('abort', cancel);
+        this.queue.splice(this.queue.indexOf(entry), 1);
+
+        resolve({
+          kind: 'abort',
+          reason: FailurePolicyReason.fromPolicyReason(
+            `Queue timeout (${this.queueTimeout} ms) exceeded`
+          ),
+        });
+      }, this.queueTimeout);
+
+      info.signal?.addEventListener('abort', cancel, { once: true });
+      this.queue.push(entry);
+    });
   }
 }
@@ -9,7 +9,10 @@ import type {
 export type UsecaseInfo = {
   profileId: string;
   usecaseName: string;
-  usecaseSafety: 'safe' | 'unsafe' | 'idempotent';
+  /** Safety declared by the profile, undefined when the profile doesn't declare it */
+  usecaseSafety?: 'safe' | 'unsafe' | 'idempotent';
+  /** Whether an unsafe usecase may be repeated after the request reached the server */
+  retryUnsafe?: boolean;
 };
 
 type BaseEvent = {
@@ -25,6 +28,8 @@ export type ExecutionInfo = BaseEvent & {
    * This can be used to inhibit failover-restores in the middle of a perform.
    */
   checkFailoverRestore?: boolean;
+  /** Cancels the execution, it leaves any queue it waits in */
+  signal?: AbortSignal;
 };
 
 /** Network failure happens when no connection could even be open to the service. */
@@ -36,10 +41,12 @@ export type NetworkFailure = {
 /**
  * Request failure happens when the connection was open and a request was sent, but then no response or only a portion of the response was received,
  * either because of a timeout or abortion from the other side.
+ *
+ * Request cancelled by the caller with `cancel` issue is not a fault of the provider.
  */
 export type RequestFailure = {
   kind: 'request';
-  issue: 'abort' | 'timeout';
+  issue: 'abort' | 'timeout' | 'cancel';
 } & BaseEvent;
 
 /** HTTP failure happens when a request was sent but the response contains an unexpected HTTP status code. */
@@ -66,7 +73,10 @@ export type ExecutionFailure =
   | UnknownFailure
   | BindFailure;
 
-export type ExecutionSuccess = BaseEvent;
+export type ExecutionSuccess = BaseEvent & {
+  /** Time in milliseconds the execution took, if known */
+  duration?: number;
+};
 
 type FailurePolicyReasonData =
   | {
@@ -103,6 +113,15 @@ export class FailurePolicyReason {
     return this.toString();
   }
 
+  /** HTTP status code of the failure, if the reason is an HTTP failure */
+  public get statusCode(): number | undefined {
+    if (this.data.kind === 'failure' && this.data.failure.kind === 'http') {
+      return this.data.failure.response.statusCode;
+    }
+
+    return undefined;
+  }
+
   public toString(): string {
     const prefix = this.prefixMessages.join(': ');
 
@@ -164,8 +183,10 @@ export class FailurePolicyReason {
  *     - May abort the execution
  *     - May specify a timeout or failover reattempt
  *     - May request a recache
+ *     - May queue the execution until other executions finish
  * 3. A bind is executed if it is not cached yet
  * 4. The usecase is performed
+ *     - `startExecution` and `finishExecution` are called around each request
  * 5. If failed - `afterFailue` is called
  *     - May abort the execution
  *     - May retry, failover, etc. jumping back to 2.
@@ -181,6 +202,22 @@ export abstract class FailurePolicy {
    */
   public abstract beforeExecution(info: ExecutionInfo): ExecutionResolution;
 
+  /**
+   * Checks whether an execution could continue right away, without queueing it.
+   *
+   * Used by the router to probe providers before switching to them.
+   */
+  public canExecute(info: ExecutionInfo): boolean {
+    return this.beforeExecution(info).kind === 'continue';
+  }
+
+  /**
+   * Returns whether the failure is worth repeating, with this provider or by failing over to another one.
+   */
+  public isRetryable(_info: ExecutionFailure): boolean {
+    return true;
+  }
+
   /**
    * Notifies this policy about a failed exeuction of a usecase.
    *
@@ -195,6 +232,18 @@ export abstract class FailurePolicy {
    */
   public abstract afterSuccess(info: ExecutionSuccess): SuccessResolution;
 
+  /**
+   * Notifies this policy that an execution allowed by `beforeExecution` has started.
+   *
+   * The policy may use this to track executions in flight.
+   */
+  public startExecution(_info: ExecutionInfo): void {}
+
+  /**
+   * Notifies this policy that an execution started with `startExecution` has finished, successfully or not.
+   */
+  public finishExecution(_info: ExecutionInfo): void {}
+
   /**
    * Resets this policy as if it was just created.
    */
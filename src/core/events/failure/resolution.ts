@@ -41,6 +41,18 @@ export type BackoffResolution = {
   backoff: number;
 };
 
+/**
+ * Wait in a queue before executing.
+ *
+ * This may be returned from:
+ * * `beforeExecution`: When too many executions are in flight
+ */
+export type QueueResolution = {
+  kind: 'queue';
+  /** Resolves with the resolution to follow once the execution leaves the queue */
+  resolution: Promise<ExecutionResolution>;
+};
+
 /**
  * Recache before executing.
  *
@@ -82,6 +94,7 @@ export type ContinueResolution = {
 
 export type ExecutionResolution =
   | (RequestConfiguration & (ContinueResolution | BackoffResolution))
+  | QueueResolution
   | AbortResolution
   | RecacheResolution
   | SwitchProviderResolution;
@@ -0,0 +1,121 @@
+import type { ICrypto } from '../../../interfaces';
+import { LatencyRouting, RoundRobinRouting, WeightedRouting } from './routing';
+
+describe('provider routing', () => {
+  describe('RoundRobinRouting', () => {
+    it('starts each order with the next provider', () => {
+      const routing = new RoundRobinRouting(['a', 'b', 'c']);
+
+      expect(routing.order()).toEqual(['a', 'b', 'c']);
+      expect(routing.order()).toEqual(['b', 'c', 'a']);
+      expect(routing.order()).toEqual(['c', 'a', 'b']);
+      expect(routing.order()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('returns empty order without providers', () => {
+      expect(new RoundRobinRouting([]).order()).toEqual([]);
+    });
+  });
+
+  describe('WeightedRouting', () => {
+    const mockRandomInt = (...values: number[]) =>
+      jest.fn((_max: number) => values.shift() ?? 0);
+    const mockCrypto = (randomInt: ICrypto['randomInt']): ICrypto => ({
+      hashString: jest.fn(),
+      hmac: jest.fn(),
+      randomInt,
+    });
+
+    it('picks providers in proportion to their weights', () => {
+      const randomInt = mockRandomInt(0, 0, 2, 0, 3, 0);
+      const routing = new WeightedRouting(
+        ['a', 'b'],
+        { a: 3, b: 1 },
+        mockCrypto(randomInt)
+      );
+
+      expect(routing.order()).toEqual(['a', 'b']);
+      expect(routing.order()).toEqual(['a', 'b']);
+      expect(routing.order()).toEqual(['b', 'a']);
+      expect(randomInt).toHaveBeenNthCalledWith(1, 4);
+      expect(randomInt).toHaveBeenNthCalledWith(2, 1);
+    });
+
+    it('uses default weight for providers without a weight', () => {
+      const randomInt = mockRandomInt(1, 0);
+      const routing = new WeightedRouting(
+        ['a', 'b'],
+        {},
+        mockCrypto(randomInt)
+      );
+
+      expect(routing.order()).toEqual(['b', 'a']);
+      expect(randomInt).toHaveBeenNthCalledWith(1, 2);
+    });
+
+    it('puts providers with zero weight last', () => {
+      const routing = new WeightedRouting(
+        ['a', 'b', 'c'],
+        { a: 0 },
+        mockCrypto(mockRandomInt(0, 0))
+      );
+
+      expect(routing.order()).toEqual(['b', 'c', 'a']);
+    });
+  });
+
+  describe('LatencyRouting', () => {
+    it('tries unused providers first', () => {
+      const routing = new LatencyRouting(['a', 'b', 'c']);
+      routing.recordSuccess('a', 100);
+
+      expect(routing.order()).toEqual(['b', 'c', 'a']);
+    });
+
+    it('prefers providers with lower latency', () => {
+      const routing = new LatencyRouting(['a', 'b']);
+      routing.recordSuccess('a', 300);
+      routing.recordSuccess('b', 100);
+
+      expect(routing.order()).toEqual(['b', 'a']);
+    });
+
+    it('averages latency over recent performs', () => {
+      const routing = new LatencyRouting(['a', 'b'], 0.5);
+      routing.recordSuccess('a', 100);
+      routing.recordSuccess('b', 200);
+      routing.recordSuccess('a', 400);
+
+      // a: 250, b: 200
+      expect(routing.order()).toEqual(['b', 'a']);
+    });
+
+    it('penalizes providers with failures', () => {
+      const routing = new LatencyRouting(['a', 'b'], 0.5);
+      routing.recordSuccess('a', 100);
+      routing.recordSuccess('b', 150);
+      routing.recordFailure('a');
+
+      // a: 100 / 0.5, b: 150 / 1
+      expect(routing.order()).toEqual(['b', 'a']);
+    });
+
+    it('puts providers which never succeeded last', () => {
+      const routing = new LatencyRouting(['a', 'b']);
+      routing.recordFailure('a');
+      routing.recordSuccess('b', 10_000);
+
+      expect(routing.order()).toEqual(['b', 'a']);
+    });
+
+    it('expects providers whose first perform failed to have average latency', () => {
+      const routing = new LatencyRouting(['a', 'b', 'c']);
+      routing.recordFailure('a');
+      routing.recordSuccess('b', 100);
+      routing.recordSuccess('c', 1000);
+
+      // a: 550 / 0.7, b: 100 / 1, c: 1000 / 1
+      expect(routing.order()).toEqual(['b', 'a', 'c']);
+    });
+  });
+});
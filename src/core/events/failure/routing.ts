@@ -0,0 +1,174 @@
+import type { ICrypto } from '../../../interfaces';
+
+/**
+ * Provider routing decides which provider serves the next perform of a usecase.
+ *
+ * Routing spreads performs across equivalent providers, failover then continues in the order chosen for the perform.
+ */
+export abstract class ProviderRouting {
+  constructor(public readonly providers: string[]) {}
+
+  /** Returns providers in the order in which they should be tried by the next perform */
+  public abstract order(): string[];
+
+  /**
+   * Notifies the routing about a successful perform.
+   *
+   * `duration` is the time in milliseconds the perform took, if known.
+   */
+  public recordSuccess(_provider: string, _duration?: number): void {}
+
+  /** Notifies the routing about a failed execution */
+  public recordFailure(_provider: string): void {}
+}
+
+/** Routing which cycles through providers, each perform starts with the next provider */
+export class RoundRobinRouting extends ProviderRouting {
+  private next = 0;
+
+  public order(): string[] {
+    if (this.providers.length === 0) {
+      return [];
+    }
+
+    const start = this.next % this.providers.length;
+    this.next = start + 1;
+
+    return [...this.providers.slice(start), ...this.providers.slice(0, start)];
+  }
+}
+
+/**
+ * Routing which picks providers randomly in proportion to their weights.
+ *
+ * Providers without a weight have weight 1, providers with weight 0 are only used for failover.
+ */
+export class WeightedRouting extends ProviderRouting {
+  public static DEFAULT_WEIGHT = 1;
+
+  constructor(
+    providers: string[],
+    public readonly weights: Record<string, number>,
+    private readonly crypto: ICrypto
+  ) {
+    super(providers);
+  }
+
+  public order(): string[] {
+    const remaining = this.providers.filter(
+      provider => this.weightOf(provider) > 0
+    );
+    const order: string[] = [];
+
+    while (remaining.length > 0) {
+      const total = remaining.reduce(
+        (sum, provider) => sum + this.weightOf(provider),
+        0
+      );
+
+      let pick = this.crypto.randomInt(total);
+      const index = remaining.findIndex(provider => {
+        pick -= this.weightOf(provider);
+
+        return pick < 0;
+      });
+
+      order.push(...remaining.splice(index, 1));
+    }
+
+    return [
+      ...order,
+      ...this.providers.filter(provider => this.weightOf(provider) <= 0),
+    ];
+  }
+
+  private weightOf(provider: string): number {
+    return this.weights[provider] ?? WeightedRouting.DEFAULT_WEIGHT;
+  }
+}
+
+/**
+ * Routing which prefers providers with the lowest expected time to a successful perform.
+ *
+ * Latency of successful performs and success rate of executions are tracked as exponentially weighted moving averages,
+ * providers are ordered by latency divided by success rate. Providers without any performs are tried first,
+ * providers without a successful perform are expected to have the average latency of the other providers.
+ */
+export class LatencyRouting extends ProviderRouting {
+  public static DEFAULT_SMOOTHING = 0.3;
+
+  private readonly stats: Record<
+    string,
+    { latency?: number; successRate: number }
+  > = {};
+
+  constructor(
+    providers: string[],
+    /** Weight of the newest observation in the moving averages, from (0, 1] */
+    public readonly smoothing: number = LatencyRouting.DEFAULT_SMOOTHING
+  ) {
+    super(providers);
+  }
+
+  public order(): string[] {
+    // sort is stable, so providers with the same score keep their priority order
+    return [...this.providers].sort((a, b) => this.score(a) - this.score(b));
+  }
+
+  public override recordSuccess(provider: string, duration?: number): void {
+    const stats = this.statsOf(provider);
+    stats.successRate = this.average(stats.successRate, 1);
+
+    if (duration !== undefined) {
+      stats.latency =
+        stats.latency === undefined
+          ? duration
+          : this.average(stats.latency, duration);
+    }
+  }
+
+  public override recordFailure(provider: string): void {
+    const stats = this.statsOf(provider);
+    stats.successRate = this.average(stats.successRate, 0);
+  }
+
+  private score(provider: string): number {
+    const stats = this.stats[provider];
+    if (stats === undefined) {
+      return 0;
+    }
+
+    if (stats.successRate === 0) {
+      return Number.POSITIVE_INFINITY;
+    }
+
+    return (stats.latency ?? this.averageLatency()) / stats.successRate;
+  }
+
+  private averageLatency(): number {
+    const latencies = Object.values(this.stats)
+      .map(stats => stats.latency)
+      .filter((latency): latency is number => latency !== undefined);
+    if (latencies.length === 0) {
+      return 0;
+    }
+
+    return (
+      latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length
+    );
+  }
+
+  private statsOf(provider: string): { latency?: number; successRate: number } {
+    let stats = this.stats[provider];
+    if (stats === undefined) {
+      stats = { successRate: 1 };
+      this.stats[provider] = stats;
+    }
+
+    return stats;
+  }
+
+  private average(current: number, value: number): number {
+    return this.smoothing * value + (1 - this.smoothing) * current;
+  }
+}
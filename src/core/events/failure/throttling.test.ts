@@ -0,0 +1,91 @@
+import type { HttpResponse } from '../../interpreter';
+import type { ExecutionFailure } from './policy';
+import { throttlingDelay } from './throttling';
+
+describe('throttlingDelay', () => {
+  const time = Date.parse('2022-01-01T00:00:00Z');
+
+  function httpFailure(
+    statusCode: number,
+    headers: HttpResponse['headers']
+  ): ExecutionFailure {
+    return {
+      kind: 'http',
+      time,
+      registryCacheAge: 0,
+      response: {
+        statusCode,
+        headers,
+        body: undefined,
+        debug: { request: { headers: {}, url: '', body: undefined } },
+      },
+    };
+  }
+
+  it('reads Retry-After in seconds', () => {
+    expect(throttlingDelay(httpFailure(429, { 'Retry-After': '120' }))).toBe(
+      120_000
+    );
+  });
+
+  it('reads Retry-After as HTTP-date', () => {
+    expect(
+      throttlingDelay(
+        httpFailure(503, { 'retry-after': 'Sat, 01 Jan 2022 00:00:30 GMT' })
+      )
+    ).toBe(30_000);
+  });
+
+  it('reads RateLimit-Reset in seconds', () => {
+    expect(throttlingDelay(httpFailure(429, { 'RateLimit-Reset': '5' }))).toBe(
+      5000
+    );
+  });
+
+  it('reads X-RateLimit-Reset as unix timestamp', () => {
+    expect(
+      throttlingDelay(
+        httpFailure(429, { 'X-RateLimit-Reset': `${time / 1000 + 10}` })
+      )
+    ).toBe(10_000);
+  });
+
+  it('prefers Retry-After over rate limit headers', () => {
+    expect(
+      throttlingDelay(
+        httpFailure(429, { 'Retry-After': '1', 'X-RateLimit-Reset': '10' })
+      )
+    ).toBe(1000);
+  });
+
+  it('does not return negative delay', () => {
+    expect(
+      throttlingDelay(
+        httpFailure(429, { 'Retry-After': 'Fri, 31 Dec 2021 23:59:00 GMT' })
+      )
+    ).toBe(0);
+  });
+
+  it('ignores invalid header values', () => {
+    expect(
+      throttlingDelay(httpFailure(429, { 'Retry-After': 'later' }))
+    ).toBeUndefined();
+  });
+
+  it('ignores other status codes', () => {
+    expect(
+      throttlingDelay(httpFailure(500, { 'Retry-After': '120' }))
+    ).toBeUndefined();
+  });
+
+  it('ignores other failures', () => {
+    expect(
+      throttlingDelay({
+        kind: 'network',
+        issue: 'timeout',
+        time,
+        registryCacheAge: 0,
+      })
+    ).toBeUndefined();
+  });
+});
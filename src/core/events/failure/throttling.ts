@@ -0,0 +1,85 @@
+import type { HttpMultiMap } from '../../interpreter';
+import type { ExecutionFailure } from './policy';
+
+/** Status codes with which providers tell us to slow down */
+const THROTTLING_STATUS_CODES = [429, 503];
+
+/** Values greater than this in reset headers are unix timestamps instead of delays */
+const UNIX_TIMESTAMP_THRESHOLD = 1_000_000_000;
+
+function findHeader(headers: HttpMultiMap, name: string): string | undefined {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === name.toLowerCase()) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+
+  return undefined;
+}
+
+/** Parses `Retry-After` header value, which is either a number of seconds or an HTTP-date */
+function parseRetryAfter(value: string, now: number): number | undefined {
+  if (/^\s*\d+\s*$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+
+  return date - now;
+}
+
+/** Parses `RateLimit-Reset` and `X-RateLimit-Reset` header values, which are either a number of seconds or a unix timestamp in seconds */
+function parseRateLimitReset(value: string, now: number): number | undefined {
+  const seconds = Number(value.trim());
+  if (value.trim() === '' || !Number.isFinite(seconds)) {
+    return undefined;
+  }
+
+  if (seconds > UNIX_TIMESTAMP_THRESHOLD) {
+    return seconds * 1000 - now;
+  }
+
+  return seconds * 1000;
+}
+
+/**
+ * Returns how long in milliseconds the provider asked us to wait before the next request.
+ *
+ * Only HTTP failures with status 429 or 503 are considered. The delay is read from `Retry-After`, `RateLimit-Reset`
+ * or `X-RateLimit-Reset` headers, in this order. Returns `undefined` when the provider didn't ask to wait.
+ */
+export function throttlingDelay(failure: ExecutionFailure): number | undefined {
+  if (
+    failure.kind !== 'http' ||
+    !THROTTLING_STATUS_CODES.includes(failure.response.statusCode)
+  ) {
+    return undefined;
+  }
+
+  const headers = failure.response.headers;
+  const parsers: [
+    string,
+    (value: string, now: number) => number | undefined
+  ][] = [
+    ['retry-after', parseRetryAfter],
+    ['ratelimit-reset', parseRateLimitReset],
+    ['x-ratelimit-reset', parseRateLimitReset],
+  ];
+
+  for (const [header, parse] of parsers) {
+    const value = findHeader(headers, header);
+    if (value === undefined) {
+      continue;
+    }
+
+    const delay = parse(value, failure.time);
+    if (delay !== undefined) {
+      return Math.max(0, delay);
+    }
+  }
+
+  return undefined;
+}
@@ -1,3 +1,4 @@
 export * from './events';
 export * from './failure';
+export * from './rate-limit';
 export * from './reporter';
@@ -0,0 +1,293 @@
+import { MockTimers } from '../../../mock';
+import type { NormalizedSuperJsonDocument } from '../../../schema-tools/superjson/superjson';
+import { RateLimitExceededError } from '../../errors';
+import { Events } from '../events';
+import { AbortPolicy, FailurePolicyRouter, registerHooks } from '../failure';
+import { hookRateLimiter, RateLimiter, TokenBucket } from './rate-limiter';
+
+function superJsonWithProvider(
+  settings: Partial<NormalizedSuperJsonDocument['providers'][string]>
+): NormalizedSuperJsonDocument {
+  return {
+    profiles: {},
+    providers: {
+      acme: { security: [], parameters: {}, ...settings },
+    },
+  };
+}
+
+describe('TokenBucket', () => {
+  let timers: MockTimers;
+
+  beforeEach(() => {
+    timers = new MockTimers();
+  });
+
+  it('allows a burst of requests up to its capacity', () => {
+    const bucket = new TokenBucket({ requests: 2, burst: 3 }, timers);
+
+    for (let i = 0; i < 3; i++) {
+      expect(bucket.waitTime()).toBe(0);
+      bucket.take();
+    }
+    expect(bucket.waitTime()).toBe(500);
+  });
+
+  it('refills tokens over time', () => {
+    const bucket = new TokenBucket({ requests: 1, interval: 100 }, timers);
+
+    bucket.take();
+    expect(bucket.waitTime()).toBe(100);
+
+    timers.tick(60);
+    expect(bucket.waitTime()).toBe(40);
+
+    timers.tick(40);
+    expect(bucket.waitTime()).toBe(0);
+  });
+
+  it('does not refill over its capacity', () => {
+    const bucket = new TokenBucket({ requests: 1, interval: 100 }, timers);
+
+    timers.tick(1000);
+    bucket.take();
+    expect(bucket.waitTime()).toBe(100);
+  });
+
+  it('makes requests taken in advance wait in line', () => {
+    const bucket = new TokenBucket({ requests: 1, interval: 100 }, timers);
+
+    bucket.take();
+    bucket.take();
+    expect(bucket.waitTime()).toBe(200);
+  });
+});
+
+describe('RateLimiter', () => {
+  let timers: MockTimers;
+
+  beforeEach(() => {
+    timers = new MockTimers();
+  });
+
+  it('continues when no rate limit is configured', () => {
+    const rateLimiter = new RateLimiter(timers, superJsonWithProvider({}));
+
+    expect(rateLimiter.acquire('acme')).toEqual({ kind: 'continue' });
+    expect(rateLimiter.acquire('other', 'default')).toEqual({
+      kind: 'continue',
+    });
+  });
+
+  it('delays requests over the provider budget', () => {
+    const rateLimiter = new RateLimiter(
+      timers,
+      superJsonWithProvider({ rateLimit: { requests: 2, interval: 1000 } })
+    );
+
+    expect(rateLimiter.acquire('acme')).toEqual({ kind: 'continue' });
+    expect(rateLimiter.acquire('acme', 'default')).toEqual({
+      kind: 'continue',
+    });
+    expect(rateLimiter.acquire('acme')).toEqual({ kind: 'wait', wait: 500 });
+    expect(rateLimiter.acquire('acme')).toEqual({ kind: 'wait', wait: 1000 });
+  });
+
+  it('limits services separately', () => {
+    const rateLimiter = new RateLimiter(
+      timers,
+      superJsonWithProvider({
+        services: {
+          one: { rateLimit: { requests: 1 } },
+          two: { rateLimit: { requests: 1 } },
+        },
+      })
+    );
+
+    expect(rateLimiter.acquire('acme', 'one')).toEqual({ kind: 'continue' });
+    expect(rateLimiter.acquire('acme', 'two')).toEqual({ kind: 'continue' });
+    expect(rateLimiter.acquire('acme', 'one')).toEqual({
+      kind: 'wait',
+      wait: 1000,
+    });
+    expect(rateLimiter.acquire('acme', 'three')).toEqual({ kind: 'continue' });
+  });
+
+  it('applies both provider and service budgets', () => {
+    const rateLimiter = new RateLimiter(
+      timers,
+      superJsonWithProvider({
+        rateLimit: { requests: 2 },
+        services: { one: { rateLimit: { requests: 1, interval: 2000 } } },
+      })
+    );
+
+    expect(rateLimiter.acquire('acme', 'one')).toEqual({ kind: 'continue' });
+    expect(rateLimiter.acquire('acme', 'one')).toEqual({
+      kind: 'wait',
+      wait: 2000,
+    });
+    expect(rateLimiter.acquire('acme', 'two')).toEqual({
+      kind: 'wait',
+      wait: 500,
+    });
+  });
+
+  it('rejects requests which would wait longer than allowed', () => {
+    const rateLimiter = new RateLimiter(
+      timers,
+      superJsonWithProvider({
+        rateLimit: { requests: 1, maxWait: 0 },
+        services: { one: { rateLimit: { requests: 10 } } },
+      })
+    );
+
+    expect(rateLimiter.acquire('acme', 'one')).toEqual({ kind: 'continue' });
+
+    const resolution = rateLimiter.acquire('acme', 'one');
+    expect(resolution.kind).toBe('reject');
+    expect(resolution.kind === 'reject' && resolution.error).toBeInstanceOf(
+      RateLimitExceededError
+    );
+    expect(resolution.kind === 'reject' && resolution.error.retryAfter).toBe(
+      1000
+    );
+
+    // rejected request didn't take budget of the service
+    for (let i = 0; i < 8; i++) {
+      timers.tick(1000);
+      expect(rateLimiter.acquire('acme', 'one')).toEqual({ kind: 'continue' });
+    }
+  });
+
+  it('shares budget between use cases through hooks', async () => {
+    const events = new Events(timers);
+    hookRateLimiter(
+      events,
+      new RateLimiter(
+        timers,
+        superJsonWithProvider({ rateLimit: { requests: 1 } })
+      ),
+      timers
+    );
+    const sleep = jest.spyOn(timers, 'sleep');
+    const preFetch = (usecase: string, serviceId?: string) =>
+      events.emit('pre-fetch', [
+        {
+          time: new Date(timers.now()),
+          profile: 'profile',
+          usecase,
+          provider: 'acme',
+        },
+        ['http://example.com', { method: 'GET', serviceId }],
+      ]);
+
+    await expect(preFetch('First', 'default')).resolves.toEqual({
+      kind: 'continue',
+    });
+    expect(sleep).not.toHaveBeenCalled();
+
+    await expect(preFetch('Second')).resolves.toEqual({ kind: 'continue' });
+    expect(sleep).toHaveBeenCalledWith(1000);
+  });
+
+  it('stops waiting when request is cancelled', async () => {
+    const events = new Events(timers);
+    hookRateLimiter(
+      events,
+      new RateLimiter(
+        timers,
+        superJsonWithProvider({ rateLimit: { requests: 1 } })
+      ),
+      timers
+    );
+    const controller = new AbortController();
+    const preFetch = () =>
+      events.emit('pre-fetch', [
+        { time: new Date(timers.now()), provider: 'acme' },
+        ['http://example.com', { method: 'GET', signal: controller.signal }],
+      ]);
+
+    await preFetch();
+    const result = preFetch();
+    controller.abort();
+
+    await expect(result).resolves.toEqual({ kind: 'continue' });
+    expect(timers.timers).toEqual([
+      expect.objectContaining({ timeout: 1000, enabled: false }),
+    ]);
+  });
+
+  it('rejects requests before failure policies start their execution', async () => {
+    const events = new Events(timers);
+    registerHooks(events, timers);
+    hookRateLimiter(
+      events,
+      new RateLimiter(
+        timers,
+        superJsonWithProvider({ rateLimit: { requests: 1, maxWait: 100 } })
+      ),
+      timers
+    );
+    const router = new FailurePolicyRouter(
+      () =>
+        new AbortPolicy({
+          profileId: 'profile',
+          usecaseName: 'usecase',
+          usecaseSafety: 'safe',
+        }),
+      ['acme']
+    );
+    router.setCurrentProvider('acme');
+    events.hookContext['profile/usecase'] = {
+      router,
+      queuedAction: undefined,
+    };
+    const startExecution = jest.spyOn(router, 'startExecution');
+    const preFetch = () =>
+      events.emit('pre-fetch', [
+        {
+          time: new Date(timers.now()),
+          invocation: {},
+          profile: 'profile',
+          usecase: 'usecase',
+          provider: 'acme',
+        },
+        ['http://example.com', { method: 'GET' }],
+      ]);
+
+    await preFetch();
+    const result = await preFetch();
+
+    expect(result).toMatchObject({ kind: 'abort' });
+    await expect(
+      (result as { newResult: Promise<unknown> }).newResult
+    ).rejects.toBeInstanceOf(RateLimitExceededError);
+    expect(startExecution).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects requests through hooks', async () => {
+    const events = new Events(timers);
+    hookRateLimiter(
+      events,
+      new RateLimiter(
+        timers,
+        superJsonWithProvider({ rateLimit: { requests: 1, maxWait: 100 } })
+      ),
+      timers
+    );
+    const preFetch = () =>
+      events.emit('pre-fetch', [
+        { time: new Date(timers.now()), provider: 'acme' },
+        ['http://example.com', { method: 'GET' }],
+      ]);
+
+    await preFetch();
+    const result = await preFetch();
+
+    expect(result).toMatchObject({ kind: 'abort' });
+    await expect(
+      (result as { newResult: Promise<unknown> }).newResult
+    ).rejects.toBeInstanceOf(RateLimitExceededError);
+  });
+});
@@ -0,0 +1,200 @@
+import type { ILogger, ITimers } from '../../../interfaces';
+import { cancellableSleep } from '../../../lib';
+import type {
+  NormalizedSuperJsonDocument,
+  RateLimitPolicy,
+} from '../../../schema-tools/superjson/superjson';
+import { RateLimitExceededError } from '../../errors';
+import type { Events } from '../events';
+
+const DEBUG_NAMESPACE = 'rate-limit';
+
+export const DEFAULT_RATE_LIMIT_INTERVAL = 1000;
+
+/**
+ * Token bucket continuously refilled up to its capacity at the rate of `requests` tokens per `interval`.
+ *
+ * Tokens can be taken in advance, in which case the bucket goes into debt and later requests have to wait longer.
+ */
+export class TokenBucket {
+  public readonly capacity: number;
+  /** Number of tokens refilled per millisecond */
+  private readonly refillRate: number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    public readonly policy: RateLimitPolicy,
+    private readonly timers: ITimers
+  ) {
+    this.capacity = policy.burst ?? policy.requests;
+    this.refillRate =
+      policy.requests / (policy.interval ?? DEFAULT_RATE_LIMIT_INTERVAL);
+    this.tokens = this.capacity;
+    this.updatedAt = timers.now();
+  }
+
+  /** Returns time in milliseconds after which a token will be available */
+  public waitTime(): number {
+    this.refill();
+
+    if (this.tokens >= 1) {
+      return 0;
+    }
+
+    return Math.ceil((1 - this.tokens) / this.refillRate);
+  }
+
+  /** Takes one token, even if it is not available yet */
+  public take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = this.timers.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.updatedAt) * this.refillRate
+    );
+    this.updatedAt = now;
+  }
+}
+
+export type RateLimitResolution =
+  | { kind: 'continue' }
+  | { kind: 'wait'; wait: number }
+  | { kind: 'reject'; error: RateLimitExceededError };
+
+/**
+ * Limits the rate of requests sent to providers and their services, as configured in super.json.
+ *
+ * One instance holds the budgets of all providers, so it should be shared by all use cases of a client.
+ */
+export class RateLimiter {
+  private readonly buckets: Record<string, TokenBucket> = {};
+
+  constructor(
+    private readonly timers: ITimers,
+    private readonly superJson?: NormalizedSuperJsonDocument
+  ) {}
+
+  /**
+   * Takes budget for one request to `provider` and its service `serviceId`.
+   *
+   * Returns how long the request has to wait for the budget, or an error when it would have to wait longer than allowed.
+   * A rejected request doesn't take any budget.
+   */
+  public acquire(provider: string, serviceId?: string): RateLimitResolution {
+    const limits = this.resolveBuckets(provider, serviceId);
+
+    let wait = 0;
+    for (const limit of limits) {
+      const bucketWait = limit.bucket.waitTime();
+      const maxWait = limit.bucket.policy.maxWait;
+      if (maxWait !== undefined && bucketWait > maxWait) {
+        return {
+          kind: 'reject',
+          error: new RateLimitExceededError(
+            provider,
+            limit.serviceId,
+            bucketWait
+          ),
+        };
+      }
+
+      wait = Math.max(wait, bucketWait);
+    }
+
+    for (const limit of limits) {
+      limit.bucket.take();
+    }
+
+    if (wait > 0) {
+      return { kind: 'wait', wait };
+    }
+
+    return { kind: 'continue' };
+  }
+
+  private resolveBuckets(
+    provider: string,
+    serviceId?: string
+  ): { bucket: TokenBucket; serviceId?: string }[] {
+    const settings = this.superJson?.providers[provider];
+    const limits: { bucket: TokenBucket; serviceId?: string }[] = [];
+
+    if (settings?.rateLimit !== undefined) {
+      limits.push({
+        bucket: this.getBucket(provider, settings.rateLimit),
+      });
+    }
+
+    if (serviceId === undefined) {
+      return limits;
+    }
+
+    const serviceRateLimit = settings?.services?.[serviceId]?.rateLimit;
+    if (serviceRateLimit !== undefined) {
+      limits.push({
+        bucket: this.getBucket(`${provider}/${serviceId}`, serviceRateLimit),
+        serviceId,
+      });
+    }
+
+    return limits;
+  }
+
+  private getBucket(key: string, policy: RateLimitPolicy): TokenBucket {
+    let bucket = this.buckets[key];
+    if (bucket === undefined) {
+      bucket = new TokenBucket(policy, this.timers);
+      this.buckets[key] = bucket;
+    }
+
+    return bucket;
+  }
+}
+
+/**
+ * Delays outgoing requests until the rate limiter allows them, or rejects them with `RateLimitExceededError`.
+ */
+export function hookRateLimiter(
+  events: Events,
+  rateLimiter: RateLimiter,
+  timers: ITimers,
+  logger?: ILogger
+): void {
+  const log = logger?.log(DEBUG_NAMESPACE);
+
+  // runs before failover hooks, so that rejected requests never start an execution tracked by failure policies
+  events.on('pre-fetch', { priority: 0 }, async (context, args) => {
+    if (context.provider === undefined) {
+      return { kind: 'continue' };
+    }
+
+    const resolution = rateLimiter.acquire(context.provider, args[1].serviceId);
+
+    switch (resolution.kind) {
+      case 'wait':
+        log?.(
+          'Delaying request to provider %s by %d ms',
+          context.provider,
+          resolution.wait
+        );
+        // the request is cancelled right away when the perform is cancelled while waiting
+        await cancellableSleep(timers, resolution.wait, args[1].signal);
+        break;
+
+      case 'reject':
+        log?.('Rejecting request to provider %s', context.provider);
+
+        return {
+          kind: 'abort',
+          newResult: Promise.reject(resolution.error),
+        };
+    }
+
+    return { kind: 'continue' };
+  });
+}
@@ -1,7 +1,4 @@
-import type {
-  AnonymizedSuperJsonDocument,
-  NormalizedSuperJsonDocument,
-} from '@superfaceai/ast';
+import type { AnonymizedSuperJsonDocument } from '@superfaceai/ast';
 
 import type {
   IConfig,
@@ -12,6 +9,7 @@ import type {
   LogFunction,
 } from '../../../interfaces';
 import { UnexpectedError } from '../../../lib';
+import type { NormalizedSuperJsonDocument } from '../../../schema-tools/superjson/superjson';
 import type { IFetch } from '../../interpreter';
 import { JSON_CONTENT, stringBody } from '../../interpreter';
 import type { Events, FailureContext, SuccessContext } from '../events';
@@ -56,6 +54,7 @@ export const enum FailoverReason {
   REQUEST_ERROR_TIMEOUT = 'REQUEST_ERROR_TIMEOUT',
   REQUEST_ERROR_ABORT = 'REQUEST_ERROR_ABORT',
   HTTP_ERROR_500 = 'HTTP_ERROR_500',
+  HTTP_ERROR = 'HTTP_ERROR',
   UNEXPECTED_ERROR = 'UNEXPECTED_ERROR',
 }
 
@@ -82,12 +81,12 @@ function failurePolicyReasonToFailoverReason(
         case 'abort':
           return FailoverReason.REQUEST_ERROR_ABORT;
       }
-    } else {
-      if (reason.data.failure.kind === 'http') {
-        if (reason.data.failure.response.statusCode === 500) {
-          return FailoverReason.HTTP_ERROR_500;
-        }
+    } else if (reason.data.failure.kind === 'http') {
+      if (reason.data.failure.response.statusCode === 500) {
+        return FailoverReason.HTTP_ERROR_500;
       }
+
+      return FailoverReason.HTTP_ERROR;
     }
   }
 
@@ -102,6 +101,8 @@ type ProviderChangeEvent = EventBase & {
     to_provider?: string;
     failover_reasons?: {
       reason: FailoverReason;
+      /** Status code of the response for HTTP failures */
+      status_code?: number;
       occurred_at: string;
     }[];
   };
@@ -304,6 +305,7 @@ export class MetricReporter {
         to_provider: input.to,
         failover_reasons: input.reasons?.map(reason => ({
           reason: failurePolicyReasonToFailoverReason(reason.reason),
+          status_code: reason.reason.statusCode,
           occurred_at: reason.occurredAt.toISOString(),
         })),
       },
@@ -1,10 +1,8 @@
-import type {
-  AnonymizedSuperJsonDocument,
-  NormalizedSuperJsonDocument,
-} from '@superfaceai/ast';
+import type { AnonymizedSuperJsonDocument } from '@superfaceai/ast';
 
 import type { ICrypto } from '../../../interfaces';
 import { configHash } from '../../../lib';
+import type { NormalizedSuperJsonDocument } from '../../../schema-tools/superjson/superjson';
 
 export function anonymizeSuperJson(
   document: NormalizedSuperJsonDocument
@@ -20,11 +20,14 @@ import {
   JSON_CONTENT,
   URLENCODED_CONTENT,
 } from './interfaces';
+import type { OAuth2TokenResponse } from './security';
 
 describe('HTTP Filters', () => {
   const fetchInstance = {
     fetch: jest.fn().mockResolvedValue({ status: 200, body: '' }),
     digest: new SuperCache<string>(),
+    oauth2: new SuperCache<OAuth2TokenResponse>(),
+    oauth2RefreshTokens: new SuperCache<string>(),
   };
   const defaultResponse = {
     statusCode: 200,
@@ -1,5 +1,5 @@
 import type { IBinaryData, ILogger } from '../../../interfaces';
-import { isBinaryData } from '../../../interfaces';
+import { isBinaryData, isDestructible } from '../../../interfaces';
 import type { MaybePromise } from '../../../lib';
 import {
   castToNonPrimitive,
@@ -131,6 +131,22 @@ export const authenticateFilter: (handler?: ISecurityHandler) => Filter =
     };
   };
 
+export const signRequestFilter: (
+  handler?: ISecurityHandler
+) => FilterWithRequest =
+  handler =>
+  async ({ parameters, request, response }: FilterInputWithRequest) => {
+    if (handler?.signRequest !== undefined) {
+      return {
+        parameters,
+        request: await handler.signRequest(request),
+        response,
+      };
+    }
+
+    return { parameters, request, response };
+  };
+
 // This is handling the cases when we are authenticated but eg. digest credentials expired or OAuth access token is no longer valid
 export const handleResponseFilter: (
   fetchInstance: IFetch & AuthCache,
@@ -141,9 +157,16 @@ export const handleResponseFilter: (
   async ({ parameters, request, response }: FilterInputWithResponse) => {
     if (handler?.handleResponse !== undefined) {
       // We get new parameters (with updated auth, also updated cache)
-      const authRequest = await handler.handleResponse(response, parameters);
+      let authRequest = await handler.handleResponse(response, parameters);
       // We retry the request
       if (authRequest !== undefined) {
+        // the response is replaced, so its unread body would hold the connection
+        if (isDestructible(response.body)) {
+          await response.body.destroy();
+        }
+        if (handler.signRequest !== undefined) {
+          authRequest = await handler.signRequest(authRequest);
+        }
         response = await fetchRequest(fetchInstance, authRequest, logger);
       }
     }
@@ -167,6 +190,10 @@ export const urlFilter: Filter = ({
     request: {
       ...(request ?? {}),
       url,
+      ...(parameters.serviceId !== undefined
+        ? { serviceId: parameters.serviceId }
+        : {}),
+      ...(parameters.signal !== undefined ? { signal: parameters.signal } : {}),
     },
     response,
   };
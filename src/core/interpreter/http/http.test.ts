@@ -1,3 +1,4 @@
+import { HttpScheme, SecurityType } from '@superfaceai/ast';
 import { getLocal } from 'mockttp';
 
 import type { Primitive } from '../../../lib';
@@ -5,6 +6,7 @@ import { SuperCache } from '../../../lib';
 import { MockTimers } from '../../../mock';
 import { NodeCrypto, NodeFetch } from '../../../node';
 import { HttpClient } from './http';
+import type { OAuth2TokenResponse } from './security';
 import { createUrl, getHeader } from './utils';
 
 const mockServer = getLocal();
@@ -132,6 +134,8 @@ describe('HttpClient', () => {
             {
               fetch: fetchMock,
               digest: new SuperCache<string>(),
+              oauth2: new SuperCache<OAuth2TokenResponse>(),
+              oauth2RefreshTokens: new SuperCache<string>(),
             },
             crypto
           );
@@ -161,6 +165,75 @@ describe('HttpClient', () => {
     }
   });
 
+  it('authenticates with OAuth 2.0 client credentials', async () => {
+    await mockServer.forPost('/oauth/token').thenJson(200, {
+      access_token: 'access-token',
+      token_type: 'Bearer',
+      expires_in: 3600,
+    });
+    await mockServer
+      .forGet('/protected')
+      .withHeaders({ authorization: 'Bearer access-token' })
+      .thenJson(200, { response: 'valid' });
+
+    const response = await http.request('/protected', {
+      method: 'get',
+      accept: 'application/json',
+      baseUrl,
+      securityRequirements: [{ id: 'oauth' }],
+      securityConfiguration: [
+        {
+          id: 'oauth',
+          type: SecurityType.HTTP,
+          scheme: HttpScheme.BEARER,
+          clientId: 'client',
+          clientSecret: 'secret',
+          tokenUrl: `${baseUrl}/oauth/token`,
+        },
+      ],
+    });
+
+    expect(response.statusCode).toEqual(200);
+    expect(response.body).toEqual({ response: 'valid' });
+  });
+
+  it('signs request with AWS Signature Version 4', async () => {
+    await mockServer.forGet('/signed').thenCallback(req => ({
+      status: 200,
+      json: {
+        authorization: req.headers['authorization'],
+        host: req.headers['host'],
+      },
+    }));
+
+    const response = await http.request('/signed', {
+      method: 'get',
+      accept: 'application/json',
+      baseUrl,
+      queryParameters: { page: '1' },
+      securityRequirements: [{ id: 'aws' }],
+      securityConfiguration: [
+        {
+          id: 'aws',
+          type: SecurityType.HTTP,
+          scheme: HttpScheme.BEARER,
+          accessKeyId: 'AKIDEXAMPLE',
+          secretAccessKey: 'secret',
+          region: 'us-east-1',
+          service: 'execute-api',
+        },
+      ],
+    });
+
+    expect(response.statusCode).toEqual(200);
+    expect(response.body).toEqual({
+      authorization: expect.stringMatching(
+        /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/us-east-1\/execute-api\/aws4_request, SignedHeaders=accept;host;x-amz-date, Signature=[0-9a-f]{64}$/
+      ),
+      host: new URL(baseUrl).host,
+    });
+  });
+
   describe('multipart/form-data', () => {
     it('encodes multipart boundary correctly', async () => {
       await mockServer.forPost('/data').thenCallback(async req => {
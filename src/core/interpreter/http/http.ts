@@ -5,6 +5,12 @@ import type { ICrypto, ILogger } from '../../../interfaces';
 import type { NonPrimitive, Variables } from '../../../lib';
 import { UnexpectedError } from '../../../lib';
 import { pipe } from '../../../lib/pipe/pipe';
+import {
+  isAwsSignatureV4SecurityValues,
+  isHmacSecurityValues,
+  isOAuth2ClientCredentialsSecurityValues,
+  isOAuth2RefreshTokenSecurityValues,
+} from '../../../schema-tools/superjson/superjson';
 import {
   invalidHTTPMapValueType,
   missingSecurityValuesError,
@@ -14,6 +20,7 @@ import {
   fetchFilter,
   handleResponseFilter,
   prepareRequestFilter,
+  signRequestFilter,
   withRequest,
   withResponse,
 } from './filters';
@@ -24,7 +31,15 @@ import type {
   RequestParameters,
   SecurityConfiguration,
 } from './security';
-import { ApiKeyHandler, DigestHandler, HttpHandler } from './security';
+import {
+  ApiKeyHandler,
+  AwsSignatureV4Handler,
+  DigestHandler,
+  HmacHandler,
+  HttpHandler,
+  OAuth2ClientCredentialsHandler,
+  OAuth2RefreshTokenHandler,
+} from './security';
 import type { HttpResponse } from './types';
 import { variablesToHttpMap } from './utils';
 
@@ -51,8 +66,10 @@ export class HttpClient {
       securityRequirements?: HttpSecurityRequirement[];
       securityConfiguration?: SecurityConfiguration[];
       baseUrl: string;
+      serviceId?: string;
       pathParameters?: NonPrimitive;
       integrationParameters?: Record<string, string>;
+      signal?: AbortSignal;
     }
   ): Promise<HttpResponse> {
     const requestParameters: RequestParameters = {
@@ -88,6 +105,7 @@ export class HttpClient {
       },
       authenticateFilter(handler),
       prepareRequestFilter,
+      withRequest(signRequestFilter(handler)),
       withRequest(fetchFilter(this.fetchInstance, this.logger)),
       withResponse(
         handleResponseFilter(this.fetchInstance, this.logger, handler)
@@ -117,10 +135,28 @@ function createSecurityHandler(
     if (configuration === undefined) {
       throw missingSecurityValuesError(requirement.id);
     }
-    if (configuration.type === SecurityType.APIKEY) {
+    if (isAwsSignatureV4SecurityValues(configuration)) {
+      handler = new AwsSignatureV4Handler(configuration, crypto, logger);
+    } else if (isHmacSecurityValues(configuration)) {
+      handler = new HmacHandler(configuration, crypto, logger);
+    } else if (configuration.type === SecurityType.APIKEY) {
       handler = new ApiKeyHandler(configuration, logger);
     } else if (configuration.scheme === HttpScheme.DIGEST) {
       handler = new DigestHandler(configuration, fetchInstance, crypto, logger);
+    } else if (isOAuth2RefreshTokenSecurityValues(configuration)) {
+      handler = new OAuth2RefreshTokenHandler(
+        configuration,
+        fetchInstance,
+        crypto,
+        logger
+      );
+    } else if (isOAuth2ClientCredentialsSecurityValues(configuration)) {
+      handler = new OAuth2ClientCredentialsHandler(
+        configuration,
+        fetchInstance,
+        crypto,
+        logger
+      );
     } else {
       handler = new HttpHandler(configuration, logger);
     }
@@ -50,6 +50,10 @@ export type FetchParameters = {
   body?: FetchBody;
   queryParameters?: HttpMultiMap;
   timeout?: number;
+  /** Id of the provider service the request is sent to */
+  serviceId?: string;
+  /** Cancels the request */
+  signal?: AbortSignal;
 };
 
 export type FetchResponse = {
@@ -67,6 +71,8 @@ export const JSON_CONTENT = 'application/json';
 export const JSON_PROBLEM_CONTENT = 'application/problem+json';
 export const URLENCODED_CONTENT = 'application/x-www-form-urlencoded';
 export const FORMDATA_CONTENT = 'multipart/form-data';
+export const EVENT_STREAM_CONTENT = 'text/event-stream';
+export const NDJSON_CONTENT = 'application/x-ndjson';
 export const BINARY_CONTENT_TYPES = [
   'application/octet-stream',
   'video/*',
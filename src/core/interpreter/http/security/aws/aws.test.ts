@@ -0,0 +1,122 @@
+import { HttpScheme, SecurityType } from '@superfaceai/ast';
+
+import { MockTimers } from '../../../../../mock';
+import { NodeCrypto } from '../../../../../node';
+import { binaryBody, stringBody } from '../../interfaces';
+import type {
+  AwsSignatureV4SecurityConfiguration,
+  HttpRequest,
+} from '../interfaces';
+import { DEFAULT_AUTHORIZATION_HEADER_NAME } from '../interfaces';
+import { AwsSignatureV4Handler } from './aws';
+
+const crypto = new NodeCrypto();
+
+// Examples from AWS Signature Version 4 test suite
+describe('AwsSignatureV4Handler', () => {
+  let timers: MockTimers;
+  let configuration: AwsSignatureV4SecurityConfiguration;
+
+  beforeEach(() => {
+    timers = new MockTimers();
+    timers.current = Date.UTC(2015, 7, 30, 12, 36, 0);
+    configuration = {
+      id: 'aws',
+      type: SecurityType.HTTP,
+      scheme: HttpScheme.BEARER,
+      accessKeyId: 'AKIDEXAMPLE',
+      secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+      region: 'us-east-1',
+      service: 'service',
+    };
+  });
+
+  const sign = (request: HttpRequest) =>
+    new AwsSignatureV4Handler(
+      configuration,
+      crypto,
+      undefined,
+      timers
+    ).signRequest(request);
+
+  it('signs request without query and body', async () => {
+    const signed = await sign({
+      url: 'https://example.amazonaws.com/',
+      method: 'GET',
+      headers: { 'user-agent': 'test' },
+    });
+
+    expect(signed.headers).toEqual({
+      'user-agent': 'test',
+      host: 'example.amazonaws.com',
+      'x-amz-date': '20150830T123600Z',
+      [DEFAULT_AUTHORIZATION_HEADER_NAME]:
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31',
+    });
+  });
+
+  it('signs query parameters in canonical order', async () => {
+    const signed = await sign({
+      url: 'https://example.amazonaws.com/',
+      method: 'GET',
+      queryParameters: { Param2: 'value2', Param1: 'value1' },
+    });
+
+    expect(signed.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toContain(
+      'Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500'
+    );
+    expect(signed.queryParameters).toEqual({
+      Param2: 'value2',
+      Param1: 'value1',
+    });
+  });
+
+  it('replaces existing authorization and adds session token', async () => {
+    configuration.sessionToken = 'session';
+
+    const signed = await sign({
+      url: 'https://example.amazonaws.com/',
+      method: 'GET',
+      headers: { authorization: 'Bearer token' },
+    });
+
+    expect(signed.headers?.authorization).toBeUndefined();
+    expect(signed.headers?.['x-amz-security-token']).toBe('session');
+    expect(signed.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toContain(
+      'SignedHeaders=host;x-amz-date;x-amz-security-token,'
+    );
+  });
+
+  it('adds payload hash for S3', async () => {
+    configuration.service = 's3';
+
+    const signed = await sign({
+      url: 'https://bucket.s3.amazonaws.com/key',
+      method: 'PUT',
+      body: binaryBody(Buffer.from('data')),
+    });
+
+    expect(signed.headers?.['x-amz-content-sha256']).toBe(
+      crypto.hashString('data', 'sha256')
+    );
+  });
+
+  it('signs request body', async () => {
+    const request: HttpRequest = {
+      url: 'https://example.amazonaws.com/items',
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: stringBody('{"a":1}'),
+    };
+
+    const first = await sign(request);
+    const second = await sign({ ...request, body: stringBody('{"a":2}') });
+
+    expect(first.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).not.toBe(
+      second.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]
+    );
+    expect(first.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toBe(
+      (await sign(request)).headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]
+    );
+  });
+});
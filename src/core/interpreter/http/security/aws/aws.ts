@@ -0,0 +1,213 @@
+import type {
+  ICrypto,
+  ILogger,
+  ITimers,
+  LogFunction,
+} from '../../../../../interfaces';
+import type { FetchBody, HttpMultiMap } from '../../interfaces';
+import {
+  isBinaryBody,
+  isStringBody,
+  isUrlSearchParamsBody,
+} from '../../interfaces';
+import { deleteHeader } from '../../utils';
+import type {
+  AuthenticateRequestAsync,
+  AwsSignatureV4SecurityConfiguration,
+  HttpRequest,
+  ISecurityHandler,
+  RequestParameters,
+  SignRequestAsync,
+} from '../interfaces';
+import { DEFAULT_AUTHORIZATION_HEADER_NAME } from '../interfaces';
+
+const DEBUG_NAMESPACE = 'http:security:aws-signature-v4-handler';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+/** Headers which may be changed by proxies on the way to AWS, these are not signed */
+const UNSIGNABLE_HEADERS = [
+  'authorization',
+  'cache-control',
+  'connection',
+  'expect',
+  'from',
+  'keep-alive',
+  'max-forwards',
+  'pragma',
+  'referer',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'user-agent',
+  'x-amzn-trace-id',
+];
+
+/**
+ * Helper for AWS Signature Version 4
+ * https://docs.aws.amazon.com/IAM/latest/UserGuide/create-signed-request.html
+ *
+ * Signs the final request, so it must run after the request was prepared from request parameters.
+ */
+export class AwsSignatureV4Handler implements ISecurityHandler {
+  private readonly log?: LogFunction;
+
+  constructor(
+    public readonly configuration: AwsSignatureV4SecurityConfiguration,
+    private readonly crypto: ICrypto,
+    logger?: ILogger,
+    private readonly timers: Pick<ITimers, 'now'> = { now: () => Date.now() }
+  ) {
+    this.log = logger?.log(DEBUG_NAMESPACE);
+    this.log?.('Initialized AwsSignatureV4Handler');
+  }
+
+  public authenticate: AuthenticateRequestAsync = async (
+    parameters: RequestParameters
+  ) => parameters;
+
+  public signRequest: SignRequestAsync = async (request: HttpRequest) => {
+    const url = new URL(request.url);
+    // e.g. 20150830T123600Z
+    const amzDate = new Date(this.timers.now())
+      .toISOString()
+      .replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = this.hashPayload(request.body);
+
+    const headers: HttpMultiMap = { ...request.headers };
+    for (const name of [
+      'host',
+      'x-amz-date',
+      'x-amz-security-token',
+      'x-amz-content-sha256',
+      DEFAULT_AUTHORIZATION_HEADER_NAME,
+    ]) {
+      deleteHeader(headers, name);
+    }
+    headers['host'] = url.host;
+    headers['x-amz-date'] = amzDate;
+    if (this.configuration.sessionToken !== undefined) {
+      headers['x-amz-security-token'] = this.configuration.sessionToken;
+    }
+    // S3 requires the payload hash header, other services compute it themselves
+    if (this.configuration.service === 's3') {
+      headers['x-amz-content-sha256'] = payloadHash;
+    }
+
+    const canonicalHeaders = Object.entries(headers)
+      .map(([name, value]): [string, string] => [
+        name.toLowerCase(),
+        (Array.isArray(value) ? value : [value])
+          .map(v => v.trim().replace(/\s+/g, ' '))
+          .join(','),
+      ])
+      .filter(([name]) => !UNSIGNABLE_HEADERS.includes(name))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const signedHeaders = canonicalHeaders.map(([name]) => name).join(';');
+
+    const canonicalRequest = [
+      request.method.toUpperCase(),
+      this.canonicalPath(url.pathname),
+      canonicalQuery(url, request.queryParameters),
+      ...canonicalHeaders.map(([name, value]) => `${name}:${value}`),
+      '',
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+
+    const scope = [
+      dateStamp,
+      this.configuration.region,
+      this.configuration.service,
+      'aws4_request',
+    ].join('/');
+    const stringToSign = [
+      ALGORITHM,
+      amzDate,
+      scope,
+      this.crypto.hashString(canonicalRequest, 'sha256'),
+    ].join('\n');
+
+    const signingKey = [
+      dateStamp,
+      this.configuration.region,
+      this.configuration.service,
+      'aws4_request',
+    ].reduce<string | Buffer>(
+      (key, part) => this.crypto.hmac(key, part, 'sha256'),
+      `AWS4${this.configuration.secretAccessKey}`
+    );
+    const signature = this.crypto
+      .hmac(signingKey, stringToSign, 'sha256')
+      .toString('hex');
+
+    this.log?.('Signed request with scope %s', scope);
+
+    return {
+      ...request,
+      headers: {
+        ...headers,
+        [DEFAULT_AUTHORIZATION_HEADER_NAME]: `${ALGORITHM} Credential=${this.configuration.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+    };
+  };
+
+  /** Streamed and multipart bodies are not available before sending, so their hash cannot be computed */
+  private hashPayload(body?: FetchBody): string {
+    if (body === undefined) {
+      return this.crypto.hashString('', 'sha256');
+    }
+
+    if (isStringBody(body)) {
+      return this.crypto.hashString(body.data, 'sha256');
+    }
+
+    if (isUrlSearchParamsBody(body)) {
+      return this.crypto.hashString(
+        new URLSearchParams(body.data).toString(),
+        'sha256'
+      );
+    }
+
+    if (isBinaryBody(body) && Buffer.isBuffer(body.data)) {
+      return this.crypto.hashString(body.data, 'sha256');
+    }
+
+    return UNSIGNED_PAYLOAD;
+  }
+
+  /** Path is already encoded once in the URL, all services except S3 expect segments encoded twice */
+  private canonicalPath(pathname: string): string {
+    if (this.configuration.service === 's3') {
+      return pathname;
+    }
+
+    return pathname.split('/').map(encodeRfc3986).join('/');
+  }
+}
+
+function canonicalQuery(url: URL, queryParameters?: HttpMultiMap): string {
+  const entries: [string, string][] = [...url.searchParams.entries()];
+  for (const [key, value] of Object.entries(queryParameters ?? {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      entries.push([key, item]);
+    }
+  }
+
+  return entries
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([keyA, valueA], [keyB, valueB]) =>
+      keyA === keyB ? (valueA < valueB ? -1 : 1) : keyA < keyB ? -1 : 1
+    )
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
@@ -0,0 +1 @@
+export { AwsSignatureV4Handler } from './aws';
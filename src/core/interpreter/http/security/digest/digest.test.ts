@@ -16,7 +16,11 @@ import type { IFetch } from '../../interfaces';
 import { URLENCODED_CONTENT } from '../../interfaces';
 import type { HttpResponse } from '../../types';
 import type { HttpRequest } from '..';
-import type { AuthCache, RequestParameters } from '../interfaces';
+import type {
+  AuthCache,
+  OAuth2TokenResponse,
+  RequestParameters,
+} from '../interfaces';
 import { DEFAULT_AUTHORIZATION_HEADER_NAME } from '../interfaces';
 import { DigestHandler, hashDigestConfiguration } from './digest';
 
@@ -45,6 +49,8 @@ describe('DigestHandler', () => {
 
   const fetchInstance: IFetch & AuthCache = {
     digest: new SuperCache<string>(),
+    oauth2: new SuperCache<OAuth2TokenResponse>(),
+    oauth2RefreshTokens: new SuperCache<string>(),
     fetch: mockFetch,
   };
 
@@ -0,0 +1,117 @@
+import { HttpScheme, SecurityType } from '@superfaceai/ast';
+import { createHmac } from 'crypto';
+
+import type { ICrypto } from '../../../../../interfaces';
+import { MockCrypto, MockTimers } from '../../../../../mock';
+import { NodeCrypto } from '../../../../../node';
+import {
+  binaryBody,
+  formDataBody,
+  stringBody,
+  urlSearchParamsBody,
+} from '../../interfaces';
+import type { HmacSecurityConfiguration, HttpRequest } from '../interfaces';
+import { HmacHandler } from './hmac';
+
+describe('HmacHandler', () => {
+  let timers: MockTimers;
+  let configuration: HmacSecurityConfiguration;
+  let request: HttpRequest;
+
+  beforeEach(() => {
+    timers = new MockTimers();
+    timers.current = 1_700_000_000_500;
+    configuration = {
+      id: 'hmac',
+      type: SecurityType.HTTP,
+      scheme: HttpScheme.BEARER,
+      secret: 'secret',
+    };
+    request = {
+      url: 'https://api.example.com/v1/payments',
+      method: 'post',
+      headers: { 'content-type': 'application/json' },
+      queryParameters: { page: '2' },
+      body: stringBody('{"amount":10}'),
+    };
+  });
+
+  const sign = (request: HttpRequest, crypto: ICrypto = new MockCrypto()) =>
+    new HmacHandler(configuration, crypto, undefined, timers).signRequest(
+      request
+    );
+
+  it('signs method, path, timestamp and body by default', async () => {
+    const signed = await sign(request);
+
+    expect(signed.headers).toEqual({
+      'content-type': 'application/json',
+      'X-Timestamp': '1700000000',
+      'X-Signature': Buffer.from(
+        'hmac-sha256(secret, POST\n/v1/payments?page=2\n1700000000\n{"amount":10})'
+      ).toString('hex'),
+    });
+  });
+
+  it('signs configured components with configured algorithm and encoding', async () => {
+    configuration = {
+      ...configuration,
+      algorithm: 'sha512',
+      header: 'X-Hub-Signature',
+      prefix: 'sha512=',
+      components: ['body'],
+      encoding: 'base64',
+    };
+
+    const signed = await sign(request);
+
+    expect(signed.headers).toEqual({
+      'content-type': 'application/json',
+      'X-Hub-Signature':
+        'sha512=' +
+        Buffer.from('hmac-sha512(secret, {"amount":10})').toString('base64'),
+    });
+  });
+
+  it('computes signature with node crypto', async () => {
+    configuration.components = ['method', 'body'];
+
+    const signed = await sign(
+      { ...request, body: urlSearchParamsBody({ a: '1', b: 'x y' }) },
+      new NodeCrypto()
+    );
+
+    expect(signed.headers?.['X-Signature']).toBe(
+      createHmac('sha256', 'secret').update('POST\na=1&b=x+y').digest('hex')
+    );
+  });
+
+  it('signs binary body', async () => {
+    configuration.components = ['body'];
+
+    const signed = await sign({
+      ...request,
+      body: binaryBody(Buffer.from('data')),
+    });
+
+    expect(signed.headers?.['X-Signature']).toBe(
+      Buffer.from('hmac-sha256(secret, data)').toString('hex')
+    );
+  });
+
+  it('replaces existing signature header', async () => {
+    const signed = await sign({
+      ...request,
+      headers: { 'x-signature': 'stale' },
+    });
+
+    expect(signed.headers?.['x-signature']).toBeUndefined();
+    expect(signed.headers?.['X-Signature']).toBeDefined();
+  });
+
+  it('throws when body cannot be signed', async () => {
+    await expect(
+      sign({ ...request, body: formDataBody({ file: 'data' }) })
+    ).rejects.toThrow('HMAC signing failed, request body cannot be signed');
+  });
+});
@@ -0,0 +1,144 @@
+import type {
+  ICrypto,
+  ILogger,
+  ITimers,
+  LogFunction,
+} from '../../../../../interfaces';
+import type { HmacSignedComponent } from '../../../../../schema-tools/superjson/superjson';
+import { unsignableRequestBodyError } from '../../../../errors';
+import type { FetchBody, HttpMultiMap } from '../../interfaces';
+import {
+  isBinaryBody,
+  isStringBody,
+  isUrlSearchParamsBody,
+} from '../../interfaces';
+import { deleteHeader } from '../../utils';
+import type {
+  AuthenticateRequestAsync,
+  HmacSecurityConfiguration,
+  HttpRequest,
+  ISecurityHandler,
+  RequestParameters,
+  SignRequestAsync,
+} from '../interfaces';
+
+const DEBUG_NAMESPACE = 'http:security:hmac-handler';
+
+/**
+ * Helper for HMAC request signing
+ *
+ * Signed components of the final request are joined by newlines, so it must run after the request was prepared from request parameters.
+ */
+export class HmacHandler implements ISecurityHandler {
+  public static DEFAULT_HEADER = 'X-Signature';
+  public static DEFAULT_TIMESTAMP_HEADER = 'X-Timestamp';
+  public static DEFAULT_COMPONENTS: HmacSignedComponent[] = [
+    'method',
+    'path',
+    'timestamp',
+    'body',
+  ];
+
+  private readonly log?: LogFunction;
+
+  constructor(
+    public readonly configuration: HmacSecurityConfiguration,
+    private readonly crypto: ICrypto,
+    logger?: ILogger,
+    private readonly timers: Pick<ITimers, 'now'> = { now: () => Date.now() }
+  ) {
+    this.log = logger?.log(DEBUG_NAMESPACE);
+    this.log?.('Initialized HmacHandler');
+  }
+
+  public authenticate: AuthenticateRequestAsync = async (
+    parameters: RequestParameters
+  ) => parameters;
+
+  public signRequest: SignRequestAsync = async (request: HttpRequest) => {
+    const header = this.configuration.header ?? HmacHandler.DEFAULT_HEADER;
+    const components =
+      this.configuration.components ?? HmacHandler.DEFAULT_COMPONENTS;
+    const headers: HttpMultiMap = { ...request.headers };
+    deleteHeader(headers, header);
+
+    const timestamp = Math.floor(this.timers.now() / 1000).toString();
+    if (components.includes('timestamp')) {
+      const timestampHeader =
+        this.configuration.timestampHeader ??
+        HmacHandler.DEFAULT_TIMESTAMP_HEADER;
+      deleteHeader(headers, timestampHeader);
+      headers[timestampHeader] = timestamp;
+    }
+
+    const message = Buffer.concat(
+      components
+        .map(component => {
+          switch (component) {
+            case 'method':
+              return request.method.toUpperCase();
+            case 'path':
+              return pathWithQuery(request);
+            case 'timestamp':
+              return timestamp;
+            case 'body':
+              return bodyToSign(request.body);
+          }
+        })
+        .flatMap((part, index) => [
+          ...(index > 0 ? [Buffer.from('\n')] : []),
+          Buffer.from(part),
+        ])
+    );
+
+    const signature = this.crypto
+      .hmac(
+        this.configuration.secret,
+        message,
+        this.configuration.algorithm ?? 'sha256'
+      )
+      .toString(this.configuration.encoding ?? 'hex');
+
+    this.log?.('Signed request components: %s', components.join(', '));
+
+    return {
+      ...request,
+      headers: {
+        ...headers,
+        [header]: (this.configuration.prefix ?? '') + signature,
+      },
+    };
+  };
+}
+
+/** Returns path of the request with query string as it is sent */
+function pathWithQuery(request: HttpRequest): string {
+  const url = new URL(request.url);
+  for (const [key, value] of Object.entries(request.queryParameters ?? {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      url.searchParams.append(key, item);
+    }
+  }
+
+  return url.pathname + url.search;
+}
+
+function bodyToSign(body?: FetchBody): string | Buffer {
+  if (body === undefined) {
+    return '';
+  }
+
+  if (isStringBody(body)) {
+    return body.data;
+  }
+
+  if (isUrlSearchParamsBody(body)) {
+    return new URLSearchParams(body.data).toString();
+  }
+
+  if (isBinaryBody(body) && Buffer.isBuffer(body.data)) {
+    return body.data;
+  }
+
+  throw unsignableRequestBodyError(body._type);
+}
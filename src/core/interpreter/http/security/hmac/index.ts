@@ -0,0 +1 @@
+export { HmacHandler } from './hmac';
@@ -5,7 +5,11 @@ import type { ILogger, LogFunction } from '../../../../../interfaces';
 import type { HttpMultiMap } from '../../interfaces';
 import type {
   AuthenticateRequestAsync,
+  AwsSignatureV4SecurityConfiguration,
+  HmacSecurityConfiguration,
   ISecurityHandler,
+  OAuth2ClientCredentialsSecurityConfiguration,
+  OAuth2RefreshTokenSecurityConfiguration,
   RequestParameters,
   SecurityConfiguration,
 } from '../interfaces';
@@ -16,7 +20,13 @@ const DEBUG_NAMESPACE = 'http:security:http-handler';
 export class HttpHandler implements ISecurityHandler {
   private log?: LogFunction | undefined;
   constructor(
-    public readonly configuration: SecurityConfiguration & {
+    public readonly configuration: Exclude<
+      SecurityConfiguration,
+      | OAuth2ClientCredentialsSecurityConfiguration
+      | OAuth2RefreshTokenSecurityConfiguration
+      | AwsSignatureV4SecurityConfiguration
+      | HmacSecurityConfiguration
+    > & {
       type: SecurityType.HTTP;
     },
     logger?: ILogger
@@ -55,7 +65,10 @@ export class HttpHandler implements ISecurityHandler {
 }
 
 function applyBasicAuth(
-  configuration: SecurityConfiguration & {
+  configuration: Exclude<
+    SecurityConfiguration,
+    AwsSignatureV4SecurityConfiguration | HmacSecurityConfiguration
+  > & {
     type: SecurityType.HTTP;
     scheme: HttpScheme.BASIC;
   }
@@ -69,7 +82,13 @@ function applyBasicAuth(
 }
 
 function applyBearerToken(
-  configuration: SecurityConfiguration & {
+  configuration: Exclude<
+    SecurityConfiguration,
+    | OAuth2ClientCredentialsSecurityConfiguration
+    | OAuth2RefreshTokenSecurityConfiguration
+    | AwsSignatureV4SecurityConfiguration
+    | HmacSecurityConfiguration
+  > & {
     type: SecurityType.HTTP;
     scheme: HttpScheme.BEARER;
   }
@@ -1,4 +1,7 @@
 export * from './api-key';
+export * from './aws';
 export * from './digest';
+export * from './hmac';
 export * from './http';
 export * from './interfaces';
+export * from './oauth2';
@@ -8,16 +8,38 @@ import type {
   DigestSecurityScheme,
   DigestSecurityValues,
   HttpSecurityRequirement,
+  SecurityScheme,
 } from '@superfaceai/ast';
 
 import type { NonPrimitive, SuperCache, Variables } from '../../../../lib';
+import type {
+  AwsSignatureV4SecurityValues,
+  HmacSecurityValues,
+  OAuth2ClientCredentialsSecurityValues,
+  OAuth2RefreshTokenSecurityValues,
+} from '../../../../schema-tools/superjson/superjson';
 import type { FetchParameters, HttpMultiMap } from '../interfaces';
 import type { HttpResponse } from '../types';
 
 export const DEFAULT_AUTHORIZATION_HEADER_NAME = 'Authorization';
 
+/**
+ * Successful response of OAuth 2.0 token endpoint
+ * https://datatracker.ietf.org/doc/html/rfc6749#section-5.1
+ */
+export type OAuth2TokenResponse = {
+  accessToken: string;
+  /** Lifetime of the access token in seconds, if known */
+  expiresIn?: number;
+  refreshToken?: string;
+};
+
 export type AuthCache = {
   digest: SuperCache<string>;
+  /** OAuth 2.0 access tokens, entries expire shortly before the tokens do */
+  oauth2: SuperCache<OAuth2TokenResponse>;
+  /** Latest OAuth 2.0 refresh tokens, refresh tokens rotated by the authorization server replace the configured ones so entries must not be evicted */
+  oauth2RefreshTokens: SuperCache<string>;
 };
 
 /**
@@ -36,6 +58,11 @@ export type HandleResponseAsync = (
   resourceRequestParameters: RequestParameters
 ) => Promise<HttpRequest | undefined> | undefined;
 
+/**
+ * This type defines function used for signing of the final request, after the request was prepared from request parameters.
+ */
+export type SignRequestAsync = (request: HttpRequest) => Promise<HttpRequest>;
+
 /**
  * Represents class that is able to prepare (set headers, path etc.) and handle (challange responses for eg. digest) authentication
  */
@@ -48,13 +75,37 @@ export interface ISecurityHandler {
   authenticate: AuthenticateRequestAsync;
 
   handleResponse?: HandleResponseAsync;
+
+  signRequest?: SignRequestAsync;
 }
 
 export type SecurityConfiguration =
   | (ApiKeySecurityScheme & ApiKeySecurityValues)
   | (BasicAuthSecurityScheme & BasicAuthSecurityValues)
   | (BearerTokenSecurityScheme & BearerTokenSecurityValues)
-  | (DigestSecurityScheme & DigestSecurityValues);
+  | (DigestSecurityScheme & DigestSecurityValues)
+  | OAuth2ClientCredentialsSecurityConfiguration
+  | OAuth2RefreshTokenSecurityConfiguration
+  | AwsSignatureV4SecurityConfiguration
+  | HmacSecurityConfiguration;
+
+export type OAuth2ClientCredentialsSecurityConfiguration =
+  BearerTokenSecurityScheme & OAuth2ClientCredentialsSecurityValues;
+
+export type OAuth2RefreshTokenSecurityConfiguration =
+  BearerTokenSecurityScheme & OAuth2RefreshTokenSecurityValues;
+
+export type AwsSignatureV4SecurityConfiguration = Exclude<
+  SecurityScheme,
+  ApiKeySecurityScheme
+> &
+  AwsSignatureV4SecurityValues;
+
+export type HmacSecurityConfiguration = Exclude<
+  SecurityScheme,
+  ApiKeySecurityScheme
+> &
+  HmacSecurityValues;
 
 export type RequestParameters = {
   url: string;
@@ -67,8 +118,12 @@ export type RequestParameters = {
   securityRequirements?: HttpSecurityRequirement[];
   securityConfiguration?: SecurityConfiguration[];
   baseUrl: string;
+  /** Id of the provider service the request is sent to */
+  serviceId?: string;
   pathParameters?: NonPrimitive;
   integrationParameters?: Record<string, string>;
+  /** Cancels the request */
+  signal?: AbortSignal;
 };
 
 export type HttpRequest = FetchParameters & { url: string };
@@ -0,0 +1,4 @@
+export {
+  OAuth2ClientCredentialsHandler,
+  OAuth2RefreshTokenHandler,
+} from './oauth2';
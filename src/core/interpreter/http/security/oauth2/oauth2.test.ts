@@ -0,0 +1,460 @@
+import { HttpScheme, SecurityType } from '@superfaceai/ast';
+
+import { SuperCache } from '../../../../../lib';
+import { MockTimers } from '../../../../../mock';
+import { NodeCrypto } from '../../../../../node';
+import type { Interceptable } from '../../../../events';
+import { Events } from '../../../../events';
+import type { IFetch } from '../../interfaces';
+import { URLENCODED_CONTENT, urlSearchParamsBody } from '../../interfaces';
+import type { HttpResponse } from '../../types';
+import type {
+  AuthCache,
+  OAuth2ClientCredentialsSecurityConfiguration,
+  OAuth2RefreshTokenSecurityConfiguration,
+  OAuth2TokenResponse,
+  RequestParameters,
+} from '../interfaces';
+import { DEFAULT_AUTHORIZATION_HEADER_NAME } from '../interfaces';
+import {
+  OAuth2ClientCredentialsHandler,
+  OAuth2RefreshTokenHandler,
+} from './oauth2';
+
+const mockFetch = jest.fn();
+const crypto = new NodeCrypto();
+
+describe('OAuth2ClientCredentialsHandler', () => {
+  const tokenUrl = 'https://auth.example.com/oauth/token';
+
+  let timers: MockTimers;
+  let fetchInstance: IFetch & AuthCache;
+  let configuration: OAuth2ClientCredentialsSecurityConfiguration;
+  let parameters: RequestParameters;
+
+  const tokenResponse = (accessToken: string, expiresIn?: number) => ({
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'application/json' },
+    body: {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      ...(expiresIn !== undefined ? { expires_in: expiresIn } : {}),
+    },
+  });
+
+  const unauthorized: HttpResponse = {
+    statusCode: 401,
+    body: undefined,
+    headers: {},
+    debug: {
+      request: { url: 'https://api.example.com/items', headers: {}, body: {} },
+    },
+  };
+
+  beforeEach(() => {
+    timers = new MockTimers();
+    fetchInstance = {
+      digest: new SuperCache<string>(),
+      oauth2: new SuperCache<OAuth2TokenResponse>({ timers }),
+      oauth2RefreshTokens: new SuperCache<string>(),
+      fetch: mockFetch,
+    };
+    configuration = {
+      id: 'oauth',
+      type: SecurityType.HTTP,
+      scheme: HttpScheme.BEARER,
+      clientId: 'client',
+      clientSecret: 'secret',
+      tokenUrl,
+      scope: 'read write',
+    };
+    parameters = {
+      url: '/items',
+      baseUrl: 'https://api.example.com',
+      method: 'GET',
+      headers: {},
+    };
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('authenticate', () => {
+    it('requests access token with client credentials', async () => {
+      mockFetch.mockResolvedValue(tokenResponse('access-token', 3600));
+
+      const authenticated = await new OAuth2ClientCredentialsHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      ).authenticate(parameters);
+
+      expect(authenticated.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toBe(
+        'Bearer access-token'
+      );
+      expect(mockFetch).toHaveBeenCalledWith(tokenUrl, {
+        url: tokenUrl,
+        method: 'POST',
+        headers: {
+          [DEFAULT_AUTHORIZATION_HEADER_NAME]: `Basic ${Buffer.from(
+            'client:secret'
+          ).toString('base64')}`,
+          'content-type': URLENCODED_CONTENT,
+          accept: 'application/json',
+        },
+        body: urlSearchParamsBody({
+          grant_type: 'client_credentials',
+          scope: 'read write',
+        }),
+      });
+    });
+
+    it('reuses cached access token', async () => {
+      mockFetch.mockResolvedValue(tokenResponse('access-token', 3600));
+      const handler = new OAuth2ClientCredentialsHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      );
+
+      await handler.authenticate(parameters);
+      await handler.authenticate(parameters);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('refreshes access token before it expires', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('first', 120))
+        .mockResolvedValueOnce(tokenResponse('second', 120));
+      const handler = new OAuth2ClientCredentialsHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      );
+
+      await handler.authenticate(parameters);
+      timers.tick(120_000 - OAuth2ClientCredentialsHandler.EXPIRY_MARGIN);
+      const authenticated = await handler.authenticate(parameters);
+
+      expect(authenticated.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toBe(
+        'Bearer second'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws when token endpoint responds with error', async () => {
+      mockFetch.mockResolvedValue({
+        status: 400,
+        statusText: 'Bad Request',
+        headers: {},
+        body: { error: 'invalid_client' },
+      });
+
+      await expect(
+        new OAuth2ClientCredentialsHandler(
+          configuration,
+          fetchInstance,
+          crypto
+        ).authenticate(parameters)
+      ).rejects.toThrow(
+        `OAuth 2.0 auth failed, unable to obtain access token from "${tokenUrl}"`
+      );
+    });
+  });
+
+  describe('handleResponse', () => {
+    it('returns undefined when the response is not unauthorized', async () => {
+      const handler = new OAuth2ClientCredentialsHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      );
+
+      await expect(
+        handler.handleResponse({ ...unauthorized, statusCode: 200 }, parameters)
+      ).resolves.toBeUndefined();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('requests new access token when the token was rejected', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('first'))
+        .mockResolvedValueOnce(tokenResponse('second'));
+      const handler = new OAuth2ClientCredentialsHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      );
+
+      const authenticated = await handler.authenticate(parameters);
+      const retryRequest = await handler.handleResponse(
+        unauthorized,
+        authenticated
+      );
+
+      expect(retryRequest).toMatchObject({
+        url: 'https://api.example.com/items',
+        method: 'GET',
+        headers: {
+          [DEFAULT_AUTHORIZATION_HEADER_NAME]: 'Bearer second',
+        },
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
+
+describe('OAuth2RefreshTokenHandler', () => {
+  const tokenUrl = 'https://auth.example.com/oauth/token';
+
+  let timers: MockTimers;
+  let events: Events;
+  let fetchInstance: IFetch & AuthCache & Interceptable;
+  let configuration: OAuth2RefreshTokenSecurityConfiguration;
+  let parameters: RequestParameters;
+
+  const tokenResponse = (
+    accessToken: string,
+    refreshToken?: string,
+    expiresIn?: number
+  ) => ({
+    status: 200,
+    statusText: 'OK',
+    headers: { 'content-type': 'application/json' },
+    body: {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      ...(refreshToken !== undefined ? { refresh_token: refreshToken } : {}),
+      ...(expiresIn !== undefined ? { expires_in: expiresIn } : {}),
+    },
+  });
+
+  const unauthorized: HttpResponse = {
+    statusCode: 401,
+    body: undefined,
+    headers: {},
+    debug: {
+      request: { url: 'https://api.example.com/items', headers: {}, body: {} },
+    },
+  };
+
+  beforeEach(() => {
+    timers = new MockTimers();
+    events = new Events(timers);
+    fetchInstance = {
+      digest: new SuperCache<string>(),
+      oauth2: new SuperCache<OAuth2TokenResponse>({ timers }),
+      oauth2RefreshTokens: new SuperCache<string>(),
+      fetch: mockFetch,
+      events,
+      metadata: { profile: 'test-profile', usecase: 'Test', provider: 'test' },
+    };
+    configuration = {
+      id: 'oauth',
+      type: SecurityType.HTTP,
+      scheme: HttpScheme.BEARER,
+      clientId: 'client',
+      clientSecret: 'secret',
+      tokenUrl,
+      refreshToken: 'refresh-1',
+      accessToken: 'access-1',
+    };
+    parameters = {
+      url: '/items',
+      baseUrl: 'https://api.example.com',
+      method: 'GET',
+      headers: {},
+    };
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('authenticate', () => {
+    it('uses configured access token', async () => {
+      const authenticated = await new OAuth2RefreshTokenHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      ).authenticate(parameters);
+
+      expect(authenticated.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toBe(
+        'Bearer access-1'
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('refreshes configured access token before it expires', async () => {
+      mockFetch.mockResolvedValue(tokenResponse('access-2'));
+      configuration.expiresAt = new Date(timers.now() + 120_000).toISOString();
+      const handler = new OAuth2RefreshTokenHandler(
+        configuration,
+        fetchInstance,
+        crypto,
+        undefined,
+        timers
+      );
+
+      await handler.authenticate(parameters);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      timers.tick(120_000 - OAuth2ClientCredentialsHandler.EXPIRY_MARGIN);
+      const authenticated = await handler.authenticate(parameters);
+
+      expect(authenticated.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toBe(
+        'Bearer access-2'
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not use configured access token which has expired', async () => {
+      mockFetch.mockResolvedValue(tokenResponse('access-2'));
+      configuration.expiresAt = new Date(timers.now() - 1000).toISOString();
+
+      const authenticated = await new OAuth2RefreshTokenHandler(
+        configuration,
+        fetchInstance,
+        crypto,
+        undefined,
+        timers
+      ).authenticate(parameters);
+
+      expect(authenticated.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toBe(
+        'Bearer access-2'
+      );
+    });
+
+    it('refreshes access token when none is configured', async () => {
+      mockFetch.mockResolvedValue(tokenResponse('access-2'));
+      delete configuration.accessToken;
+
+      const authenticated = await new OAuth2RefreshTokenHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      ).authenticate(parameters);
+
+      expect(authenticated.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toBe(
+        'Bearer access-2'
+      );
+      expect(mockFetch).toHaveBeenCalledWith(
+        tokenUrl,
+        expect.objectContaining({
+          body: urlSearchParamsBody({
+            grant_type: 'refresh_token',
+            refresh_token: 'refresh-1',
+          }),
+        })
+      );
+    });
+
+    it('refreshes access token before it expires with rotated refresh token', async () => {
+      mockFetch
+        .mockResolvedValueOnce(tokenResponse('access-2', 'refresh-2', 120))
+        .mockResolvedValueOnce(tokenResponse('access-3', 'refresh-3', 120));
+      delete configuration.accessToken;
+      const handler = new OAuth2RefreshTokenHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      );
+
+      await handler.authenticate(parameters);
+      timers.tick(120_000 - OAuth2ClientCredentialsHandler.EXPIRY_MARGIN);
+      const authenticated = await handler.authenticate(parameters);
+
+      expect(authenticated.headers?.[DEFAULT_AUTHORIZATION_HEADER_NAME]).toBe(
+        'Bearer access-3'
+      );
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        tokenUrl,
+        expect.objectContaining({
+          body: urlSearchParamsBody({
+            grant_type: 'refresh_token',
+            refresh_token: 'refresh-2',
+          }),
+        })
+      );
+    });
+  });
+
+  describe('handleResponse', () => {
+    it('refreshes access token when the token was rejected', async () => {
+      mockFetch.mockResolvedValue(tokenResponse('access-2', 'refresh-2'));
+      const handler = new OAuth2RefreshTokenHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      );
+
+      const authenticated = await handler.authenticate(parameters);
+      const retryRequest = await handler.handleResponse(
+        unauthorized,
+        authenticated
+      );
+
+      expect(retryRequest).toMatchObject({
+        url: 'https://api.example.com/items',
+        headers: {
+          [DEFAULT_AUTHORIZATION_HEADER_NAME]: 'Bearer access-2',
+        },
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('emits token-refreshed event with rotated tokens', async () => {
+      mockFetch.mockResolvedValue(tokenResponse('access-2', 'refresh-2', 3600));
+      const listener = jest.fn();
+      events.on('token-refreshed', { priority: 0 }, listener);
+      const handler = new OAuth2RefreshTokenHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      );
+
+      await handler.handleResponse(
+        unauthorized,
+        await handler.authenticate(parameters)
+      );
+
+      expect(listener).toHaveBeenCalledWith({
+        time: expect.any(Date),
+        profile: 'test-profile',
+        usecase: 'Test',
+        provider: 'test',
+        securityId: 'oauth',
+        accessToken: 'access-2',
+        expiresIn: 3600,
+        refreshToken: 'refresh-2',
+        previousRefreshToken: 'refresh-1',
+      });
+    });
+
+    it('keeps refresh token when the server does not rotate it', async () => {
+      mockFetch.mockResolvedValue(tokenResponse('access-2'));
+      const listener = jest.fn();
+      events.on('token-refreshed', { priority: 0 }, listener);
+      const handler = new OAuth2RefreshTokenHandler(
+        configuration,
+        fetchInstance,
+        crypto
+      );
+
+      await handler.handleResponse(
+        unauthorized,
+        await handler.authenticate(parameters)
+      );
+
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          refreshToken: 'refresh-1',
+          previousRefreshToken: 'refresh-1',
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,359 @@
+import type {
+  ICrypto,
+  ILogger,
+  ITimers,
+  LogFunction,
+} from '../../../../../interfaces';
+import { oauth2TokenRequestError } from '../../../../errors';
+import type { Interceptable } from '../../../../events';
+import { isCompleteHttpRequest, prepareRequestFilter } from '../../filters';
+import type { IFetch } from '../../interfaces';
+import {
+  JSON_CONTENT,
+  URLENCODED_CONTENT,
+  urlSearchParamsBody,
+} from '../../interfaces';
+import type { HttpResponse } from '../../types';
+import { fetchRequest } from '../../utils';
+import type {
+  AuthCache,
+  AuthenticateRequestAsync,
+  HandleResponseAsync,
+  ISecurityHandler,
+  OAuth2ClientCredentialsSecurityConfiguration,
+  OAuth2RefreshTokenSecurityConfiguration,
+  OAuth2TokenResponse,
+  RequestParameters,
+} from '../interfaces';
+import { DEFAULT_AUTHORIZATION_HEADER_NAME } from '../interfaces';
+
+const DEBUG_NAMESPACE = 'http:security:oauth2-handler';
+
+export function hashOAuth2Configuration(
+  configuration: OAuth2ClientCredentialsSecurityConfiguration,
+  crypto: ICrypto
+): string {
+  return crypto.hashString(
+    configuration.id +
+      configuration.tokenUrl +
+      configuration.clientId +
+      configuration.clientSecret +
+      (configuration.scope ?? ''),
+    'MD5'
+  );
+}
+
+export function hashOAuth2RefreshTokenConfiguration(
+  configuration: OAuth2RefreshTokenSecurityConfiguration,
+  crypto: ICrypto
+): string {
+  return crypto.hashString(
+    configuration.id +
+      configuration.tokenUrl +
+      configuration.clientId +
+      configuration.clientSecret +
+      configuration.refreshToken,
+    'MD5'
+  );
+}
+
+/**
+ * Requests an access token from the token endpoint, authenticating the client with HTTP basic authentication.
+ */
+export async function requestAccessToken(
+  fetchInstance: IFetch,
+  client: { tokenUrl: string; clientId: string; clientSecret: string },
+  parameters: Record<string, string>,
+  logger?: ILogger
+): Promise<OAuth2TokenResponse> {
+  const response = await fetchRequest(
+    fetchInstance,
+    {
+      url: client.tokenUrl,
+      method: 'POST',
+      headers: {
+        [DEFAULT_AUTHORIZATION_HEADER_NAME]:
+          'Basic ' +
+          Buffer.from(`${client.clientId}:${client.clientSecret}`).toString(
+            'base64'
+          ),
+        'content-type': URLENCODED_CONTENT,
+        accept: JSON_CONTENT,
+      },
+      body: urlSearchParamsBody(parameters),
+    },
+    logger
+  );
+
+  const body = response.body as Record<string, unknown> | undefined;
+  if (response.statusCode !== 200 || typeof body?.access_token !== 'string') {
+    throw oauth2TokenRequestError(
+      client.tokenUrl,
+      response.statusCode,
+      response.body
+    );
+  }
+
+  return {
+    accessToken: body.access_token,
+    expiresIn:
+      typeof body.expires_in === 'number' ? body.expires_in : undefined,
+    refreshToken:
+      typeof body.refresh_token === 'string' ? body.refresh_token : undefined,
+  };
+}
+
+/**
+ * Helper for OAuth 2.0 client credentials grant
+ *
+ * Access tokens are cached until shortly before they expire. When the provider rejects a token, a new one is requested and the request is retried.
+ */
+export class OAuth2ClientCredentialsHandler implements ISecurityHandler {
+  /** Time in milliseconds before expiry when the access token is refreshed */
+  public static EXPIRY_MARGIN = 60_000;
+
+  private readonly log?: LogFunction;
+
+  constructor(
+    public readonly configuration: OAuth2ClientCredentialsSecurityConfiguration,
+    private readonly fetchInstance: IFetch & AuthCache,
+    private readonly crypto: ICrypto,
+    private readonly logger?: ILogger
+  ) {
+    this.log = logger?.log(DEBUG_NAMESPACE);
+    this.log?.('Initialized OAuth2ClientCredentialsHandler');
+  }
+
+  public authenticate: AuthenticateRequestAsync = async (
+    parameters: RequestParameters
+  ) => {
+    const accessToken = await this.getAccessToken();
+
+    return {
+      ...parameters,
+      headers: {
+        ...parameters.headers,
+        [DEFAULT_AUTHORIZATION_HEADER_NAME]: `Bearer ${accessToken}`,
+      },
+    };
+  };
+
+  public handleResponse: HandleResponseAsync = async (
+    response: HttpResponse,
+    resourceRequestParameters: RequestParameters
+  ) => {
+    if (response.statusCode !== 401) {
+      return undefined;
+    }
+
+    this.log?.('Access token was rejected');
+    this.fetchInstance.oauth2.invalidate(
+      hashOAuth2Configuration(this.configuration, this.crypto)
+    );
+
+    const prepared = await prepareRequestFilter({
+      parameters: await this.authenticate(resourceRequestParameters),
+    });
+
+    if (
+      prepared.request === undefined ||
+      !isCompleteHttpRequest(prepared.request)
+    ) {
+      throw new Error('Request is undefined');
+    }
+
+    return prepared.request;
+  };
+
+  private async getAccessToken(): Promise<string> {
+    const token = await this.fetchInstance.oauth2.getCached(
+      hashOAuth2Configuration(this.configuration, this.crypto),
+      async () => {
+        this.log?.('Requesting new access token');
+
+        return requestAccessToken(
+          this.fetchInstance,
+          this.configuration,
+          {
+            grant_type: 'client_credentials',
+            ...(this.configuration.scope !== undefined
+              ? { scope: this.configuration.scope }
+              : {}),
+          },
+          this.logger
+        );
+      },
+      { ttl: accessTokenTtl }
+    );
+
+    return token.accessToken;
+  }
+}
+
+/**
+ * Helper for OAuth 2.0 refresh token grant
+ *
+ * The configured access token is used until it expires or the provider rejects it, refreshed access tokens are cached until shortly before they expire.
+ * Each refresh emits a `token-refreshed` event so the application can persist the tokens, as the authorization server may rotate the refresh token.
+ */
+export class OAuth2RefreshTokenHandler implements ISecurityHandler {
+  private readonly log?: LogFunction;
+
+  constructor(
+    public readonly configuration: OAuth2RefreshTokenSecurityConfiguration,
+    private readonly fetchInstance: IFetch & AuthCache & Interceptable,
+    private readonly crypto: ICrypto,
+    private readonly logger?: ILogger,
+    private readonly timers: Pick<ITimers, 'now'> = { now: () => Date.now() }
+  ) {
+    this.log = logger?.log(DEBUG_NAMESPACE);
+    this.log?.('Initialized OAuth2RefreshTokenHandler');
+  }
+
+  public authenticate: AuthenticateRequestAsync = async (
+    parameters: RequestParameters
+  ) => {
+    const accessToken = await this.getAccessToken();
+
+    return {
+      ...parameters,
+      headers: {
+        ...parameters.headers,
+        [DEFAULT_AUTHORIZATION_HEADER_NAME]: `Bearer ${accessToken}`,
+      },
+    };
+  };
+
+  public handleResponse: HandleResponseAsync = async (
+    response: HttpResponse,
+    resourceRequestParameters: RequestParameters
+  ) => {
+    if (response.statusCode !== 401) {
+      return undefined;
+    }
+
+    this.log?.('Access token was rejected');
+    this.fetchInstance.oauth2.invalidate(
+      hashOAuth2RefreshTokenConfiguration(this.configuration, this.crypto)
+    );
+
+    const prepared = await prepareRequestFilter({
+      parameters: await this.authenticate(resourceRequestParameters),
+    });
+
+    if (
+      prepared.request === undefined ||
+      !isCompleteHttpRequest(prepared.request)
+    ) {
+      throw new Error('Request is undefined');
+    }
+
+    return prepared.request;
+  };
+
+  private async getAccessToken(): Promise<string> {
+    const cacheKey = hashOAuth2RefreshTokenConfiguration(
+      this.configuration,
+      this.crypto
+    );
+
+    const token = await this.fetchInstance.oauth2.getCached(
+      cacheKey,
+      async () => {
+        // the configured tokens are only used until the first refresh
+        let firstUse = false;
+        const refreshToken = this.fetchInstance.oauth2RefreshTokens.getCached(
+          cacheKey,
+          () => {
+            firstUse = true;
+
+            return this.configuration.refreshToken;
+          }
+        );
+
+        if (firstUse && this.configuration.accessToken !== undefined) {
+          const expiresIn = this.configuredAccessTokenExpiresIn();
+          if (expiresIn === undefined || expiresIn > 0) {
+            return { accessToken: this.configuration.accessToken, expiresIn };
+          }
+
+          this.log?.('Configured access token has expired');
+        }
+
+        return this.refresh(cacheKey, refreshToken);
+      },
+      { ttl: accessTokenTtl }
+    );
+
+    return token.accessToken;
+  }
+
+  /** Returns remaining lifetime of the configured access token in seconds, undefined if its expiration is not known */
+  private configuredAccessTokenExpiresIn(): number | undefined {
+    if (this.configuration.expiresAt === undefined) {
+      return undefined;
+    }
+
+    const expiresAt = Date.parse(this.configuration.expiresAt);
+    if (Number.isNaN(expiresAt)) {
+      this.log?.(
+        'Ignoring invalid expiration of access token: %s',
+        this.configuration.expiresAt
+      );
+
+      return undefined;
+    }
+
+    return (expiresAt - this.timers.now()) / 1000;
+  }
+
+  private async refresh(
+    cacheKey: string,
+    refreshToken: string
+  ): Promise<OAuth2TokenResponse> {
+    this.log?.('Refreshing access token');
+
+    const token = await requestAccessToken(
+      this.fetchInstance,
+      this.configuration,
+      { grant_type: 'refresh_token', refresh_token: refreshToken },
+      this.logger
+    );
+
+    const nextRefreshToken = token.refreshToken ?? refreshToken;
+    this.fetchInstance.oauth2RefreshTokens.invalidate(cacheKey);
+    this.fetchInstance.oauth2RefreshTokens.getCached(
+      cacheKey,
+      () => nextRefreshToken
+    );
+
+    const events = this.fetchInstance.events;
+    if (events !== undefined) {
+      void events.emit('token-refreshed', [
+        {
+          time: new Date(events.timers.now()),
+          ...this.fetchInstance.metadata,
+          securityId: this.configuration.id,
+          accessToken: token.accessToken,
+          expiresIn: token.expiresIn,
+          refreshToken: nextRefreshToken,
+          previousRefreshToken: refreshToken,
+        },
+      ]);
+    }
+
+    return { ...token, refreshToken: nextRefreshToken };
+  }
+}
+
+/** Returns how long the access token can be cached, tokens without known lifetime are used until the provider rejects them */
+function accessTokenTtl(token: OAuth2TokenResponse): number | undefined {
+  if (token.expiresIn === undefined) {
+    return undefined;
+  }
+
+  return Math.max(
+    0,
+    token.expiresIn * 1000 - OAuth2ClientCredentialsHandler.EXPIRY_MARGIN
+  );
+}
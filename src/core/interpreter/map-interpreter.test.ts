@@ -4,7 +4,7 @@ import { readFile } from 'fs/promises';
 import { getLocal } from 'mockttp';
 import * as path from 'path';
 
-import { err, ok, SDKExecutionError, UnexpectedError } from '../../lib';
+import { err, ok, SDKExecutionError } from '../../lib';
 import { MockTimers } from '../../mock';
 import {
   BinaryData,
@@ -17,7 +17,7 @@ import { Config } from '../config';
 import { PureJSSandbox } from '../sandbox';
 import { ServiceSelector } from '../services';
 import { MapInterpreter } from './map-interpreter';
-import { JessieError } from './map-interpreter.errors';
+import { JessieError, MappedHTTPError } from './map-interpreter.errors';
 
 const mockServer = getLocal();
 const timers = new MockTimers();
@@ -926,7 +926,7 @@ describe('MapInterpreter', () => {
     expect(items).toStrictEqual(expected);
   });
 
-  it('should return UnexpectedError if BinaryData as result', async () => {
+  it('should pass BinaryData through to result', async () => {
     const ast = parseMapFromSource(`
     map Test {
       map result {
@@ -948,8 +948,12 @@ describe('MapInterpreter', () => {
     );
 
     const result = await interpreter.perform(ast);
-    expect(result.isErr()).toBe(true);
-    expect(result.isErr() && result.error).toBeInstanceOf(UnexpectedError);
+    const items = (result.unwrap() as { items: BinaryData }).items;
+    const expected = await readFile(filePath);
+
+    expect(items).toBeInstanceOf(BinaryData);
+    expect(await items.getAllData()).toStrictEqual(expected);
+    await items.destroy();
   });
 
   it('should return the file in its entirety as base64', async () => {
@@ -2037,7 +2041,7 @@ describe('MapInterpreter', () => {
       expect(response).toStrictEqual({ ok: true });
     });
 
-    it('should return ArrayBuffer for binary response', async () => {
+    it('should return BinaryData for binary response', async () => {
       const url = '/twelve';
       const filePath = path.resolve(process.cwd(), 'fixtures', 'binary.txt');
       await mockServer.forGet(url).thenFromFile(200, filePath, {
@@ -2060,12 +2064,208 @@ describe('MapInterpreter', () => {
           }
         }
       }`);
+      const destroy = jest.spyOn(BinaryData.prototype, 'destroy');
       const result = await interpreter.perform(ast);
       const expected = (await readFile(filePath)).toString('utf8');
 
-      expect(result.unwrap() instanceof ArrayBuffer).toBe(true);
-      expect(Buffer.from(result.unwrap() as ArrayBuffer).toString('utf8')).toBe(
-        expected
+      expect(result.unwrap()).toBeInstanceOf(BinaryData);
+      expect(destroy).not.toHaveBeenCalled();
+      expect(
+        (await (result.unwrap() as BinaryData).getAllData()).toString('utf8')
+      ).toBe(expected);
+      destroy.mockRestore();
+    });
+
+    it('should destroy binary response body not used in result', async () => {
+      const url = '/thirteen';
+      const filePath = path.resolve(process.cwd(), 'fixtures', 'binary.txt');
+      await mockServer.forGet(url).thenFromFile(200, filePath, {
+        'content-type': 'application/octet-stream',
+      });
+
+      const interpreter = new MapInterpreter(
+        {
+          usecase: 'Test',
+          security: [],
+          services: mockServicesSelector,
+        },
+        interpreterDependencies
+      );
+      const ast = parseMapFromSource(`
+      map Test {
+        http GET "${url}" {
+          response 200 "application/octet-stream" {
+            map result statusCode
+          }
+        }
+      }`);
+      const destroy = jest.spyOn(BinaryData.prototype, 'destroy');
+      const result = await interpreter.perform(ast);
+
+      expect(result.unwrap()).toBe(200);
+      expect(destroy).toHaveBeenCalledTimes(1);
+      destroy.mockRestore();
+    });
+  });
+
+  describe('streamed response', () => {
+    const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+      const items = [];
+      for await (const item of iterable) {
+        items.push(item);
+      }
+
+      return items;
+    };
+
+    it('should yield result for each server-sent event', async () => {
+      await mockServer
+        .forGet('/events')
+        .thenReply(
+          200,
+          'data: {"text":"Hello"}\n\nevent: ping\n\ndata: {"text":"World"}\n\n',
+          { 'content-type': 'text/event-stream' }
+        );
+      const interpreter = new MapInterpreter(
+        {
+          usecase: 'Test',
+          security: [],
+          services: mockServicesSelector,
+        },
+        interpreterDependencies
+      );
+      const ast = parseMapFromSource(`
+      map Test {
+        http GET "/events" {
+          response 200 "text/event-stream" {
+            map result { text: JSON.parse(body.data).text }
+          }
+        }
+      }`);
+
+      await expect(collect(interpreter.performStream(ast))).resolves.toEqual([
+        ok({ text: 'Hello' }),
+        ok({ text: 'World' }),
+      ]);
+    });
+
+    it('should yield final result after partial results', async () => {
+      await mockServer
+        .forGet('/lines')
+        .thenReply(200, '{"line":1}\n{"line":2}\n', {
+          'content-type': 'application/x-ndjson',
+        });
+      const interpreter = new MapInterpreter(
+        {
+          usecase: 'Test',
+          security: [],
+          services: mockServicesSelector,
+        },
+        interpreterDependencies
+      );
+      const ast = parseMapFromSource(`
+      map Test {
+        http GET "/lines" {
+          response 200 "application/x-ndjson" {
+            map result body.line
+          }
+        }
+
+        map result "done"
+      }`);
+
+      await expect(collect(interpreter.performStream(ast))).resolves.toEqual([
+        ok(1),
+        ok(2),
+        ok('done'),
+      ]);
+    });
+
+    it('should end iteration with mapped error', async () => {
+      await mockServer
+        .forGet('/lines')
+        .thenReply(200, '{"ok":true}\n{"ok":false}\n{"ok":true}\n', {
+          'content-type': 'application/x-ndjson',
+        });
+      const interpreter = new MapInterpreter(
+        {
+          usecase: 'Test',
+          security: [],
+          services: mockServicesSelector,
+        },
+        interpreterDependencies
+      );
+      const ast = parseMapFromSource(`
+      map Test {
+        http GET "/lines" {
+          response 200 "application/x-ndjson" {
+            map error if (!body.ok) "Stream failed"
+            map result if (body.ok) body
+          }
+        }
+      }`);
+
+      await expect(collect(interpreter.performStream(ast))).resolves.toEqual([
+        ok({ ok: true }),
+        err(expect.any(MappedHTTPError)),
+      ]);
+    });
+
+    it('should end iteration with returned result', async () => {
+      await mockServer
+        .forGet('/lines')
+        .thenReply(200, '{"line":1}\n{"line":2}\n{"line":3}\n', {
+          'content-type': 'application/x-ndjson',
+        });
+      const interpreter = new MapInterpreter(
+        {
+          usecase: 'Test',
+          security: [],
+          services: mockServicesSelector,
+        },
+        interpreterDependencies
+      );
+      const ast = parseMapFromSource(`
+      map Test {
+        http GET "/lines" {
+          response 200 "application/x-ndjson" {
+            return map result if (body.line === 2) "last"
+            map result body.line
+          }
+        }
+      }`);
+
+      await expect(collect(interpreter.performStream(ast))).resolves.toEqual([
+        ok(1),
+        ok('last'),
+      ]);
+    });
+
+    it('should fail non-streaming perform of map yielding results', async () => {
+      await mockServer.forGet('/lines').thenReply(200, '{"line":1}\n', {
+        'content-type': 'application/x-ndjson',
+      });
+      const interpreter = new MapInterpreter(
+        {
+          usecase: 'Test',
+          security: [],
+          services: mockServicesSelector,
+        },
+        interpreterDependencies
+      );
+      const ast = parseMapFromSource(`
+      map Test {
+        http GET "/lines" {
+          response 200 {
+            map result body.line
+          }
+        }
+      }`);
+
+      const result = await interpreter.perform(ast);
+
+      expect(result.isErr() && result.error.message).toMatch(
+        'non-streaming perform'
       );
     });
   });
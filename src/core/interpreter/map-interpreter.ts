@@ -27,6 +27,8 @@ import {
 import type {
   IConfig,
   ICrypto,
+  IDestructible,
+  IEventStream,
   ILogger,
   LogFunction,
   MapInterpreterError,
@@ -34,6 +36,7 @@ import type {
 import {
   isBinaryData,
   isDestructible,
+  isEventStream,
   isInitializable,
 } from '../../interfaces';
 import type { ISandbox } from '../../interfaces/sandbox';
@@ -51,6 +54,7 @@ import {
   SDKExecutionError,
   UnexpectedError,
 } from '../../lib';
+import { RequestFetchError } from '../errors';
 import type { IServiceSelector } from '../services';
 import type { MapInterpreterExternalHandler } from './external-handler';
 import type { AuthCache, SecurityConfiguration } from './http';
@@ -63,6 +67,7 @@ import {
   MappedError,
   MappedHTTPError,
 } from './map-interpreter.errors';
+import type { Stdlib } from './stdlib';
 import { getStdlib } from './stdlib';
 
 function assertUnreachable(_: never): never {
@@ -79,6 +84,8 @@ export interface MapParameters<
   parameters?: Record<string, string>;
   services: IServiceSelector;
   security: SecurityConfiguration[];
+  /** Cancels the perform, the perform then rejects with `RequestFetchError` */
+  signal?: AbortSignal;
 }
 
 type PerformResult = Result<
@@ -133,7 +140,7 @@ type VisitorResultError = {
 /** Yield result of this visitor - the current map/operation should yield a value but this visitor is not done. */
 type VisitorResultYield = {
   kind: 'yield';
-  /** The value to yield up to the nearest Map/Operation. */
+  /** The value to yield from the perform as a partial outcome. */
   value: { kind: 'outcome' } & VisitorOutcomeValue;
 };
 
@@ -506,6 +513,7 @@ class JessieExpressionVisitor extends NodeVisitor<
     childIdentifier: string,
     log: LogFunction | undefined,
     private readonly sandbox: ISandbox,
+    private readonly stdlib: Stdlib,
     private readonly config: IConfig,
     private readonly logger: ILogger | undefined,
     private readonly inputParameters: NonPrimitive | undefined,
@@ -521,7 +529,7 @@ class JessieExpressionVisitor extends NodeVisitor<
       const result = await this.sandbox.evalScript(
         this.config,
         this.node.expression,
-        getStdlib(this.logger),
+        this.stdlib,
         this.logger,
         {
           ...this.stack,
@@ -725,7 +733,9 @@ class HttpCallStatementVisitor extends NodeVisitor<HttpCallStatementNode> {
     private readonly services: IServiceSelector,
     private readonly inputParameters: NonPrimitive | undefined,
     private readonly integrationParameters: Record<string, string> | undefined,
-    private readonly securityConfiguration: SecurityConfiguration[]
+    private readonly securityConfiguration: SecurityConfiguration[],
+    private readonly responseBodies: IDestructible[],
+    private readonly signal: AbortSignal | undefined
   ) {
     super(node, stack, childIdentifier, log);
   }
@@ -775,6 +785,7 @@ class HttpCallStatementVisitor extends NodeVisitor<HttpCallStatementNode> {
           contentType: request?.contentType ?? 'application/json',
           accept,
           baseUrl: serviceUrl,
+          serviceId: this.services.getId(this.node.serviceId),
           queryParameters: request?.queryParameters,
           pathParameters: {
             ...this.stack,
@@ -787,6 +798,7 @@ class HttpCallStatementVisitor extends NodeVisitor<HttpCallStatementNode> {
           securityRequirements: request?.security,
           securityConfiguration: this.securityConfiguration,
           integrationParameters: this.integrationParameters,
+          signal: this.signal,
         });
       } catch (e) {
         if (e instanceof UnexpectedError || e instanceof SDKExecutionError) {
@@ -796,6 +808,9 @@ class HttpCallStatementVisitor extends NodeVisitor<HttpCallStatementNode> {
           throw e;
         }
       }
+      if (isDestructible(response.body)) {
+        this.responseBodies.push(response.body);
+      }
 
       for (let i = 0; i < this.node.responseHandlers.length; i += 1) {
         this.stack = mergeVariables(this.stack, {
@@ -996,6 +1011,11 @@ class HttpResponseHandlerVisitor extends NodeVisitor<
       this.log(debugString);
     }
 
+    const body = this.stack.body;
+    if (isEventStream(body)) {
+      return yield* this.visitEvents(body);
+    }
+
     for (let i = 0; i < this.node.statements.length; i += 1) {
       const result = yield {
         kind: 'explore',
@@ -1012,6 +1032,66 @@ class HttpResponseHandlerVisitor extends NodeVisitor<
     return this.prepareResultDone(true);
   }
 
+  /**
+   * Runs the statements once for each event of a streamed body, with `body` set to the event.
+   *
+   * Result mapped from an event is yielded as a partial outcome. Mapping an error or returning ends the iteration.
+   */
+  private async *visitEvents(events: IEventStream): VisitorGenerator<boolean> {
+    const iterator = events[Symbol.asyncIterator]();
+
+    try {
+      for (let index = 0; ; index += 1) {
+        let event: IteratorResult<unknown>;
+        try {
+          event = await iterator.next();
+        } catch (error: unknown) {
+          return {
+            kind: 'error',
+            error: new UnexpectedError('Failed to read streamed response', {
+              error,
+              node: this.node,
+            }),
+          };
+        }
+        if (event.done === true) {
+          break;
+        }
+
+        // body is replaced, merging would mix fields of consecutive events
+        this.stack = { ...this.stack, body: castToVariables(event.value) };
+        for (let i = 0; i < this.node.statements.length; i += 1) {
+          const result = yield {
+            kind: 'explore',
+            what: { node: this.node.statements[i] },
+            stack: this.stack,
+            childIdentifier: `${this.childIdentifier}.*${index}.statements[${i}]`,
+          };
+
+          if (this.processChildResult(result).terminate) {
+            return this.prepareResultDone(undefined, true);
+          }
+        }
+
+        if (this.outcome !== undefined) {
+          if ('error' in this.outcome) {
+            break;
+          }
+
+          yield {
+            kind: 'yield',
+            value: { kind: 'outcome', data: this.outcome.data },
+          };
+          this.outcome = undefined;
+        }
+      }
+    } finally {
+      await iterator.return?.();
+    }
+
+    return this.prepareResultDone(true);
+  }
+
   public override [Symbol.toStringTag](): string {
     return 'HttpResponseHandlerVisitor';
   }
@@ -1183,6 +1263,18 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
     return ok(entry);
   }
 
+  private static gatherBinaryData(value: unknown, found: Set<unknown>): void {
+    if (isBinaryData(value)) {
+      found.add(value);
+    } else if (Array.isArray(value)) {
+      value.forEach(item => MapInterpreter.gatherBinaryData(item, found));
+    } else if (isNonPrimitive(value)) {
+      Object.values(value).forEach(item =>
+        MapInterpreter.gatherBinaryData(item, found)
+      );
+    }
+  }
+
   private static async initializeInput(input: NonPrimitive): Promise<void> {
     for (const value of Object.values(input)) {
       if (isInitializable(value)) {
@@ -1193,12 +1285,17 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
     }
   }
 
-  private static async destroyInput(input: NonPrimitive): Promise<void> {
+  private static async destroyInput(
+    input: NonPrimitive,
+    passedThrough: Set<unknown>
+  ): Promise<void> {
     for (const value of Object.values(input)) {
       if (isDestructible(value)) {
-        await value.destroy();
+        if (!passedThrough.has(value)) {
+          await value.destroy();
+        }
       } else if (isNonPrimitive(value)) {
-        await MapInterpreter.destroyInput(value);
+        await MapInterpreter.destroyInput(value, passedThrough);
       }
     }
   }
@@ -1215,10 +1312,6 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
   private static async resolveOutcomeVariables(
     input: Variables | undefined
   ): Promise<Variables | undefined> {
-    if (isBinaryData(input)) {
-      throw new UnexpectedError('BinaryData cannot be used as outcome');
-    }
-
     if (isPrimitive(input)) {
       // beware: implicit promise flattening happens here
       return input;
@@ -1232,9 +1325,12 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
     return result;
   }
 
+  /** Bodies of responses received during the perform, destroyed once the perform finishes unless they are part of the result */
+  private readonly responseBodies: IDestructible[] = [];
   private readonly http: HttpClient;
   private readonly externalHandler: MapInterpreterExternalHandler;
   private readonly sandbox: ISandbox;
+  private readonly stdlib: Stdlib;
   private readonly config: IConfig;
   private readonly logger?: ILogger;
   private readonly log: LogFunction | undefined;
@@ -1260,30 +1356,83 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
     this.http = new HttpClient(fetchInstance, crypto, logger);
     this.externalHandler = externalHandler ?? {};
     this.sandbox = sandbox;
+    this.stdlib = getStdlib(crypto, logger);
     this.config = config;
     this.logger = logger;
     this.log = logger?.log(DEBUG_NAMESPACE);
   }
 
   public async perform(ast: MapDocumentNode): Promise<PerformResult> {
-    const iter = this.performStream(ast);
+    const iter = this.interpret(ast);
 
-    const result = await iter.next();
-    if (result.done !== true || result.value === undefined) {
-      return err(
-        new UnexpectedError(
-          'Map attempted to yield values but non-streaming perform was invoked'
-        )
-      );
+    const passedThrough = new Set<unknown>();
+    try {
+      const step = await iter.next();
+      if (step.done !== true || step.value === undefined) {
+        return err(
+          new UnexpectedError(
+            'Map attempted to yield values but non-streaming perform was invoked'
+          )
+        );
+      }
+
+      if (step.value.isOk()) {
+        MapInterpreter.gatherBinaryData(step.value.value, passedThrough);
+      }
+
+      return step.value;
+    } finally {
+      await this.destroyResponseBodies(passedThrough);
+    }
+  }
+
+  /**
+   * Performs the map, yielding partial outcomes as the map produces them followed by the final outcome.
+   *
+   * The final outcome is left out when the map yielded partial outcomes and finished without mapping a result.
+   */
+  public async *performStream(
+    ast: MapDocumentNode
+  ): AsyncGenerator<PerformResult, void, undefined> {
+    const iter = this.interpret(ast);
+
+    const passedThrough = new Set<unknown>();
+    try {
+      let yielded = false;
+      let step = await iter.next();
+      while (step.done !== true) {
+        MapInterpreter.gatherBinaryData(step.value, passedThrough);
+        yielded = true;
+        yield ok(step.value);
+
+        step = await iter.next();
+      }
+
+      const result = step.value;
+      if (result.isOk()) {
+        MapInterpreter.gatherBinaryData(result.value, passedThrough);
+      }
+      if (result.isErr() || result.value !== undefined || !yielded) {
+        yield result;
+      }
+    } finally {
+      await this.destroyResponseBodies(passedThrough);
     }
+  }
 
-    return result.value;
+  private async destroyResponseBodies(
+    passedThrough: Set<unknown>
+  ): Promise<void> {
+    for (const body of this.responseBodies.splice(0)) {
+      if (!passedThrough.has(body)) {
+        await body.destroy();
+      }
+    }
   }
 
-  // eslint-disable-next-line require-yield
-  private async *performStream(
+  private async *interpret(
     ast: MapDocumentNode
-  ): AsyncGenerator<unknown, PerformResult, undefined> {
+  ): AsyncGenerator<Variables | undefined, PerformResult, undefined> {
     if (!isMapDocumentNode(ast)) {
       return err(new UnexpectedError('Invalid AST'));
     }
@@ -1309,6 +1458,7 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
     ];
 
     // drive nodes from the stack until empty
+    const passedThrough = new Set<unknown>();
     let lastResult: VisitorResultDone | undefined = undefined;
     while (nodeStack.length > 0) {
       const current = nodeStack[nodeStack.length - 1];
@@ -1327,6 +1477,11 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
         step.value
       );
 
+      // checked after the step, so that failures caused by the cancellation are not reported instead
+      if (this.parameters.signal?.aborted === true) {
+        throw new RequestFetchError('cancel');
+      }
+
       lastResult = undefined;
       switch (step.value.kind) {
         case 'explore':
@@ -1364,8 +1519,19 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
         case 'error':
           return err(MapInterpreter.enrichError(step.value.error, ast));
 
-        case 'yield':
-          throw new Error('TODO: not implemented yet');
+        case 'yield': {
+          const partial = await MapInterpreter.handleFinalOutcome(
+            step.value.value,
+            ast
+          );
+          if (partial.isErr()) {
+            return partial;
+          }
+
+          MapInterpreter.gatherBinaryData(partial.value, passedThrough);
+          yield partial.value;
+          break;
+        }
 
         default:
           assertUnreachable(step.value);
@@ -1377,7 +1543,8 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
       ast
     );
     if (result.isOk() && !isNone(this.parameters.input)) {
-      await MapInterpreter.destroyInput(this.parameters.input);
+      MapInterpreter.gatherBinaryData(result.value, passedThrough);
+      await MapInterpreter.destroyInput(this.parameters.input, passedThrough);
     }
 
     return result;
@@ -1441,6 +1608,7 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
           childIdentifier,
           this.log,
           this.sandbox,
+          this.stdlib,
           this.config,
           this.logger,
           this.parameters.input,
@@ -1464,7 +1632,9 @@ export class MapInterpreter<TInput extends NonPrimitive | undefined> {
           this.parameters.services,
           this.parameters.input,
           this.parameters.parameters,
-          this.parameters.security
+          this.parameters.security,
+          this.responseBodies,
+          this.parameters.signal
         );
 
       case 'HttpRequest':
@@ -0,0 +1,59 @@
+export const STDLIB_ARRAY = {
+  /** Splits the array into arrays of at most `size` items */
+  chunk<T>(items: T[], size: number): T[][] {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new Error(`Invalid chunk size: ${size}`);
+    }
+
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+      chunks.push(items.slice(i, i + size));
+    }
+
+    return chunks;
+  },
+  /** Returns items without duplicates, keeping the first occurrence, optionally compared by the property `key` */
+  unique<T>(items: T[], key?: string): T[] {
+    const seen = new Set<unknown>();
+
+    return items.filter(item => {
+      const value =
+        key !== undefined ? (item as Record<string, unknown>)[key] : item;
+      if (seen.has(value)) {
+        return false;
+      }
+      seen.add(value);
+
+      return true;
+    });
+  },
+  /** Groups items by the value of the property `key` */
+  groupBy<T>(items: T[], key: string): Record<string, T[]> {
+    const groups: Record<string, T[]> = {};
+    for (const item of items) {
+      const group = String((item as Record<string, unknown>)[key]);
+      (groups[group] ??= []).push(item);
+    }
+
+    return groups;
+  },
+  /** Returns numbers from `start` up to but not including `end` */
+  range(start: number, end: number, step = 1): number[] {
+    if (step === 0) {
+      throw new Error('Range step must not be zero');
+    }
+
+    const numbers: number[] = [];
+    for (let i = start; step > 0 ? i < end : i > end; i += step) {
+      numbers.push(i);
+    }
+
+    return numbers;
+  },
+  /** Pairs items of the arrays by their index, up to the length of the shorter array */
+  zip<T, U>(first: T[], second: U[]): [T, U][] {
+    return first
+      .slice(0, Math.min(first.length, second.length))
+      .map((item, index) => [item, second[index]]);
+  },
+};
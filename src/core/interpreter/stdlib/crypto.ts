@@ -0,0 +1,44 @@
+import type { ICrypto } from '../../../interfaces';
+
+export const STDLIB_CRYPTO = (crypto: ICrypto) => ({
+  /** Returns MD5 hash of the string in hex */
+  md5(input: string): string {
+    return crypto.hashString(input, 'MD5');
+  },
+  /** Returns SHA-256 hash of the string in hex */
+  sha256(input: string): string {
+    return crypto.hashString(input, 'sha256');
+  },
+  /** Returns HMAC-SHA256 of the string in hex or base64 */
+  hmacSha256(
+    key: string,
+    input: string,
+    encoding: 'hex' | 'base64' = 'hex'
+  ): string {
+    return crypto.hmac(key, input, 'sha256').toString(encoding);
+  },
+  /** Returns HMAC-SHA512 of the string in hex or base64 */
+  hmacSha512(
+    key: string,
+    input: string,
+    encoding: 'hex' | 'base64' = 'hex'
+  ): string {
+    return crypto.hmac(key, input, 'sha512').toString(encoding);
+  },
+  /** Returns random version 4 UUID */
+  uuid(): string {
+    const bytes = Array.from({ length: 16 }, () => crypto.randomInt(256));
+    // version 4 and RFC 4122 variant
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+    const hex = Buffer.from(bytes).toString('hex');
+
+    return [
+      hex.slice(0, 8),
+      hex.slice(8, 12),
+      hex.slice(12, 16),
+      hex.slice(16, 20),
+      hex.slice(20),
+    ].join('-');
+  },
+});
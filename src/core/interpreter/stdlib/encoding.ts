@@ -0,0 +1,95 @@
+type QueryValue = string | number | boolean | undefined;
+
+function fromBase64Url(input: string): string {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+
+  return base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+}
+
+export const STDLIB_ENCODING = {
+  base64: {
+    /** Encodes UTF-8 bytes of the string in base64 */
+    encode(input: string): string {
+      return Buffer.from(input, 'utf8').toString('base64');
+    },
+    /** Decodes base64 into a UTF-8 string */
+    decode(input: string): string {
+      return Buffer.from(input, 'base64').toString('utf8');
+    },
+  },
+  base64url: {
+    /** Encodes UTF-8 bytes of the string in url-safe base64 without padding */
+    encode(input: string): string {
+      return Buffer.from(input, 'utf8')
+        .toString('base64')
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+    },
+    /** Decodes url-safe base64, with or without padding, into a UTF-8 string */
+    decode(input: string): string {
+      return Buffer.from(fromBase64Url(input), 'base64').toString('utf8');
+    },
+  },
+  hex: {
+    /** Encodes UTF-8 bytes of the string in lowercase hex */
+    encode(input: string): string {
+      return Buffer.from(input, 'utf8').toString('hex');
+    },
+    /** Decodes hex into a UTF-8 string */
+    decode(input: string): string {
+      if (!/^([0-9a-fA-F]{2})*$/.test(input)) {
+        throw new Error(`Invalid hex string: ${input}`);
+      }
+
+      return Buffer.from(input, 'hex').toString('utf8');
+    },
+  },
+  url: {
+    /** Encodes a component of url, such as a path segment or a query value */
+    encode(input: string): string {
+      return encodeURIComponent(input);
+    },
+    /** Decodes a component of url */
+    decode(input: string): string {
+      return decodeURIComponent(input);
+    },
+    /**
+     * Encodes parameters into a query string without the leading `?`
+     *
+     * Array values are repeated for each item, `undefined` values are skipped.
+     */
+    encodeQuery(parameters: Record<string, QueryValue | QueryValue[]>): string {
+      const query = new URLSearchParams();
+      for (const [key, value] of Object.entries(parameters)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (item !== undefined) {
+            query.append(key, String(item));
+          }
+        }
+      }
+
+      return query.toString();
+    },
+    /**
+     * Decodes a query string, with or without the leading `?`
+     *
+     * Repeated parameters are decoded into an array.
+     */
+    decodeQuery(query: string): Record<string, string | string[]> {
+      const result: Record<string, string | string[]> = {};
+      for (const [key, value] of new URLSearchParams(query)) {
+        const previous = result[key];
+        if (previous === undefined) {
+          result[key] = value;
+        } else if (Array.isArray(previous)) {
+          previous.push(value);
+        } else {
+          result[key] = [previous, value];
+        }
+      }
+
+      return result;
+    },
+  },
+};
@@ -1,5 +1,11 @@
-import type { ILogger, LogFunction } from '../../../interfaces';
+import type { ICrypto, ILogger, LogFunction } from '../../../interfaces';
 import { deepFreeze } from '../../../lib';
+import { STDLIB_ARRAY } from './array';
+import { STDLIB_CRYPTO } from './crypto';
+import { STDLIB_ENCODING } from './encoding';
+import { STDLIB_PAGINATION } from './pagination';
+import { STDLIB_STRING } from './string';
+import { STDLIB_TIME } from './time';
 
 const DEBUG_NAMESPACE = 'debug-log';
 
@@ -19,16 +25,22 @@ const STDLIB_UNSTABLE = (debugLog?: LogFunction) => ({
   },
 });
 
-const STDLIB = (debugLog?: LogFunction) =>
+const STDLIB = (crypto: ICrypto, debugLog?: LogFunction) =>
   deepFreeze({
+    encoding: STDLIB_ENCODING,
+    crypto: STDLIB_CRYPTO(crypto),
+    time: STDLIB_TIME,
+    string: STDLIB_STRING,
+    array: STDLIB_ARRAY,
+    pagination: STDLIB_PAGINATION,
     unstable: STDLIB_UNSTABLE(debugLog),
   });
 
 export type Stdlib = ReturnType<typeof STDLIB>;
 
-export function getStdlib(logger?: ILogger): Stdlib {
+export function getStdlib(crypto: ICrypto, logger?: ILogger): Stdlib {
   const debugLog = logger?.log(DEBUG_NAMESPACE);
 
   // TODO: This should later decide whether to return debug functions or just their stubs
-  return STDLIB(debugLog);
+  return STDLIB(crypto, debugLog);
 }
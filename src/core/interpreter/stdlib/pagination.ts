@@ -0,0 +1,94 @@
+import { STDLIB_ENCODING } from './encoding';
+
+/** Target of a link from `Link` header with its parameters, such as `rel` or `title` */
+export type LinkTarget = {
+  url: string;
+  rel: string;
+  [parameter: string]: string;
+};
+
+const LINK_VALUE =
+  /<([^>]*)>((?:\s*;\s*[^;,=\s]+(?:\s*=\s*(?:"(?:[^"\\]|\\.)*"|[^;,]*))?)*)/g;
+const LINK_PARAMETER =
+  /;\s*([^;,=\s]+)(?:\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;,]*)))?/g;
+
+function queryOf(url: string): string {
+  const withoutFragment = url.split('#')[0];
+  const start = withoutFragment.indexOf('?');
+
+  return start === -1 ? '' : withoutFragment.slice(start + 1);
+}
+
+/**
+ * Parses RFC 8288 `Link` header into targets by their relation
+ *
+ * Relative urls are resolved against `baseUrl` when it is given. Values of repeated headers are parsed as one header.
+ * A target with multiple relations, such as `rel="next last"`, is returned under each of them.
+ */
+function parseLinkHeader(
+  header: string | string[] | undefined,
+  baseUrl?: string
+): Record<string, LinkTarget> {
+  const links: Record<string, LinkTarget> = {};
+  if (header === undefined) {
+    return links;
+  }
+
+  const value = Array.isArray(header) ? header.join(', ') : header;
+  for (const [, url, parametersString] of value.matchAll(LINK_VALUE)) {
+    const parameters: Record<string, string> = {};
+    for (const [, name, quoted, token] of parametersString.matchAll(
+      LINK_PARAMETER
+    )) {
+      const key = name.toLowerCase();
+      // only the first occurrence of a parameter is used
+      if (!(key in parameters)) {
+        parameters[key] =
+          quoted !== undefined
+            ? quoted.replace(/\\(.)/g, '$1')
+            : (token ?? '').trim();
+      }
+    }
+
+    const resolved =
+      baseUrl !== undefined ? new URL(url, baseUrl).toString() : url;
+    for (const rel of (parameters.rel ?? '').toLowerCase().split(/\s+/)) {
+      if (rel !== '' && links[rel] === undefined) {
+        links[rel] = { ...parameters, url: resolved, rel };
+      }
+    }
+  }
+
+  return links;
+}
+
+export const STDLIB_PAGINATION = {
+  parseLinkHeader,
+  /** Returns url of the `next` relation of `Link` header, if there is any */
+  nextUrl(
+    header: string | string[] | undefined,
+    baseUrl?: string
+  ): string | undefined {
+    return parseLinkHeader(header, baseUrl).next?.url;
+  },
+  /** Returns query parameters of an absolute or relative url, repeated parameters are returned as an array */
+  queryParameters(url: string): Record<string, string | string[]> {
+    return STDLIB_ENCODING.url.decodeQuery(queryOf(url));
+  },
+  /** Returns the first value of the query parameter of an absolute or relative url */
+  queryParameter(url: string, name: string): string | undefined {
+    return new URLSearchParams(queryOf(url)).get(name) ?? undefined;
+  },
+  /** Encodes a JSON value into an opaque url-safe cursor token */
+  encodeCursor(value: unknown): string {
+    return STDLIB_ENCODING.base64url.encode(JSON.stringify(value));
+  },
+  /** Decodes a cursor token created by `encodeCursor` */
+  decodeCursor(cursor: string): unknown {
+    try {
+      return JSON.parse(STDLIB_ENCODING.base64url.decode(cursor)) as unknown;
+    } catch {
+      throw new Error(`Invalid cursor: ${cursor}`);
+    }
+  },
+};
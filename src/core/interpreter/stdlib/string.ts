@@ -0,0 +1,48 @@
+/** Splits the string into lowercase words on case changes, whitespace, dashes and underscores */
+function words(input: string): string[] {
+  return input
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(word => word !== '')
+    .map(word => word.toLowerCase());
+}
+
+function capitalize(input: string): string {
+  return input.charAt(0).toUpperCase() + input.slice(1);
+}
+
+export const STDLIB_STRING = {
+  /** Uppercases the first character of the string */
+  capitalize,
+  /** Converts the string to `camelCase` */
+  camelCase(input: string): string {
+    return words(input)
+      .map((word, index) => (index === 0 ? word : capitalize(word)))
+      .join('');
+  },
+  /** Converts the string to `PascalCase` */
+  pascalCase(input: string): string {
+    return words(input).map(capitalize).join('');
+  },
+  /** Converts the string to `snake_case` */
+  snakeCase(input: string): string {
+    return words(input).join('_');
+  },
+  /** Converts the string to `kebab-case` */
+  kebabCase(input: string): string {
+    return words(input).join('-');
+  },
+  /** Shortens the string to at most `length` characters, ending it with `ending` when shortened */
+  truncate(input: string, length: number, ending = '...'): string {
+    if (input.length <= length) {
+      return input;
+    }
+
+    return input.slice(0, Math.max(0, length - ending.length)) + ending;
+  },
+  /** Returns whether the string is empty or contains only whitespace */
+  isBlank(input: string | undefined | null): boolean {
+    return input === undefined || input === null || input.trim() === '';
+  },
+};
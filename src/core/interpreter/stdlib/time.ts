@@ -0,0 +1,184 @@
+export type Duration = {
+  years?: number;
+  months?: number;
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  milliseconds?: number;
+};
+
+type DateParts = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+};
+
+const LOCAL_DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?)?$/;
+
+const FORMAT_TOKENS = /\[([^\]]*)]|YYYY|SSS|MM|DD|HH|mm|ss|Z/g;
+
+function pad(value: number, length = 2): string {
+  return value.toString().padStart(length, '0');
+}
+
+/** Returns calendar date and time of the timestamp in the time zone */
+function dateParts(timestamp: number, timeZone: string): DateParts {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(timestamp))) {
+    parts[type] = parseInt(value, 10);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: ((timestamp % 1000) + 1000) % 1000,
+  };
+}
+
+/** Returns offset of the time zone from UTC at the timestamp in minutes */
+function offsetOf(timestamp: number, timeZone: string): number {
+  const parts = dateParts(timestamp, timeZone);
+  const local = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    parts.millisecond
+  );
+
+  return Math.round((local - timestamp) / 60_000);
+}
+
+function formatOffset(offset: number): string {
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(offset);
+
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+}
+
+function format(timestamp: number, pattern: string, timeZone: string): string {
+  const parts = dateParts(timestamp, timeZone);
+
+  return pattern.replace(FORMAT_TOKENS, (token, literal?: string) => {
+    if (literal !== undefined) {
+      return literal;
+    }
+
+    switch (token) {
+      case 'YYYY':
+        return pad(parts.year, 4);
+      case 'MM':
+        return pad(parts.month);
+      case 'DD':
+        return pad(parts.day);
+      case 'HH':
+        return pad(parts.hour);
+      case 'mm':
+        return pad(parts.minute);
+      case 'ss':
+        return pad(parts.second);
+      case 'SSS':
+        return pad(parts.millisecond, 3);
+      default:
+        return formatOffset(offsetOf(timestamp, timeZone));
+    }
+  });
+}
+
+export const STDLIB_TIME = {
+  /**
+   * Parses a date into a unix timestamp in milliseconds
+   *
+   * ISO 8601 dates and date-times without offset, such as `2022-01-01 10:00`, are in `timeZone`, UTC by default.
+   * Other dates are parsed as by `Date.parse`.
+   */
+  parse(input: string, timeZone = 'UTC'): number {
+    if (LOCAL_DATE_TIME.test(input)) {
+      const [date, time] = input.split(/[T ]/);
+      const local = Date.parse(`${date}T${time ?? '00:00'}Z`);
+      // offset at the local time read as UTC may differ from the offset at the resulting time around DST changes
+      const guess = local - offsetOf(local, timeZone) * 60_000;
+
+      return local - offsetOf(guess, timeZone) * 60_000;
+    }
+
+    const timestamp = Date.parse(input);
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid date: ${input}`);
+    }
+
+    return timestamp;
+  },
+  /**
+   * Formats a unix timestamp in milliseconds in `timeZone`, UTC by default
+   *
+   * Supported tokens are `YYYY`, `MM`, `DD`, `HH`, `mm`, `ss`, `SSS` and `Z` for offset such as `+01:00`.
+   * Text in square brackets is not replaced.
+   */
+  format(timestamp: number, pattern: string, timeZone = 'UTC'): string {
+    return format(timestamp, pattern, timeZone);
+  },
+  /** Formats a unix timestamp in milliseconds as ISO 8601 date-time with offset of `timeZone`, UTC by default */
+  toIsoString(timestamp: number, timeZone = 'UTC'): string {
+    const offset = offsetOf(timestamp, timeZone);
+
+    return (
+      format(timestamp, 'YYYY-MM-DD[T]HH:mm:ss.SSS', timeZone) +
+      (offset === 0 ? 'Z' : formatOffset(offset))
+    );
+  },
+  /** Returns offset of `timeZone` from UTC at the unix timestamp in minutes */
+  offset(timestamp: number, timeZone: string): number {
+    return offsetOf(timestamp, timeZone);
+  },
+  /**
+   * Adds the duration to a unix timestamp in milliseconds
+   *
+   * Years and months are added to the UTC calendar date, clamping the day to the end of the month.
+   */
+  add(timestamp: number, duration: Duration): number {
+    const date = new Date(timestamp);
+    const months = (duration.years ?? 0) * 12 + (duration.months ?? 0);
+    if (months !== 0) {
+      const day = date.getUTCDate();
+      date.setUTCDate(1);
+      date.setUTCMonth(date.getUTCMonth() + months);
+      const lastDay = new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      date.setUTCDate(Math.min(day, lastDay));
+    }
+
+    return (
+      date.getTime() +
+      (duration.weeks ?? 0) * 604_800_000 +
+      (duration.days ?? 0) * 86_400_000 +
+      (duration.hours ?? 0) * 3_600_000 +
+      (duration.minutes ?? 0) * 60_000 +
+      (duration.seconds ?? 0) * 1000 +
+      (duration.milliseconds ?? 0)
+    );
+  },
+};
@@ -117,6 +117,26 @@ describe('BoundProfileProvider', () => {
     jest.clearAllMocks();
   });
 
+  it('does not label shared fetch instance with its provider', () => {
+    const fetchInstance = new NodeFetch(timers);
+    new BoundProfileProvider(
+      mockProfileDocument,
+      mockMapDocument,
+      mockProviderJson,
+      mockConfig,
+      sandbox,
+      {
+        services: ServiceSelector.withDefaultUrl('test/url'),
+        security: [],
+      },
+      crypto,
+      fetchInstance
+    );
+
+    // fetches outside of performs, such as registry ones, must not use TLS options of the provider
+    expect(fetchInstance.metadata).toBeUndefined();
+  });
+
   describe('when performing', () => {
     it('returns correct object', async () => {
       const validateSpy = jest
@@ -349,4 +369,97 @@ describe('BoundProfileProvider', () => {
       expect(performSpy).toHaveBeenCalledWith(mockMapDocument);
     });
   });
+
+  describe('when performing stream', () => {
+    const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+      const items = [];
+      for await (const item of iterable) {
+        items.push(item);
+      }
+
+      return items;
+    };
+
+    const createBoundProfileProvider = () =>
+      new BoundProfileProvider(
+        mockProfileDocument,
+        mockMapDocument,
+        mockProviderJson,
+        mockConfig,
+        sandbox,
+        {
+          services: ServiceSelector.withDefaultUrl('test/url'),
+          security: [],
+        },
+        crypto,
+        new NodeFetch(timers)
+      );
+
+    it('yields validated partial results', async () => {
+      const validateSpy = jest
+        .spyOn(ProfileParameterValidator.prototype, 'validate')
+        .mockReturnValue(ok(undefined));
+      const performStreamSpy = jest
+        .spyOn(MapInterpreter.prototype, 'performStream')
+        .mockImplementation(async function* () {
+          yield ok('first');
+          yield ok('second');
+        });
+
+      await expect(
+        collect(
+          createBoundProfileProvider().performStream<undefined, string>(
+            'test-usecase'
+          )
+        )
+      ).resolves.toEqual([ok('first'), ok('second')]);
+
+      expect(validateSpy).toHaveBeenCalledTimes(3);
+      expect(validateSpy).toHaveBeenNthCalledWith(
+        3,
+        'second',
+        'result',
+        'test-usecase'
+      );
+      expect(performStreamSpy).toHaveBeenCalledWith(mockMapDocument);
+    });
+
+    it('ends with result validation error', async () => {
+      jest
+        .spyOn(ProfileParameterValidator.prototype, 'validate')
+        .mockReturnValueOnce(ok(undefined))
+        .mockReturnValueOnce(ok(undefined))
+        .mockReturnValueOnce(err(new ResultValidationError()));
+      jest
+        .spyOn(MapInterpreter.prototype, 'performStream')
+        .mockImplementation(async function* () {
+          yield ok('first');
+          yield ok('invalid');
+          yield ok('third');
+        });
+
+      await expect(
+        collect(
+          createBoundProfileProvider().performStream<undefined, string>(
+            'test-usecase'
+          )
+        )
+      ).resolves.toEqual([ok('first'), err(new ResultValidationError())]);
+    });
+
+    it('yields input validation error', async () => {
+      jest
+        .spyOn(ProfileParameterValidator.prototype, 'validate')
+        .mockReturnValue(err(new InputValidationError()));
+      const performStreamSpy = jest.spyOn(
+        MapInterpreter.prototype,
+        'performStream'
+      );
+
+      await expect(
+        collect(createBoundProfileProvider().performStream('test-usecase'))
+      ).resolves.toEqual([err(new InputValidationError())]);
+      expect(performStreamSpy).not.toHaveBeenCalled();
+    });
+  });
 });
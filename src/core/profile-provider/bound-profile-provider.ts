@@ -1,9 +1,7 @@
 import type {
   MapDocumentNode,
-  NormalizedProfileProviderSettings,
   ProfileDocumentNode,
   ProviderJson,
-  SecurityValues,
 } from '@superfaceai/ast';
 
 import type {
@@ -29,8 +27,12 @@ import {
   ok,
   profileAstId,
 } from '../../lib';
+import type {
+  NormalizedProfileProviderSettings,
+  SecurityValues,
+} from '../../schema-tools/superjson/superjson';
 import type { Events, Interceptable } from '../events';
-import { MapInterpreterEventAdapter } from '../events';
+import { MapInterpreterEventAdapter, withMetadata } from '../events';
 import type { AuthCache, IFetch, SecurityConfiguration } from '../interpreter';
 import { MapInterpreter, ProfileParameterValidator } from '../interpreter';
 import type { IServiceSelector } from '../services';
@@ -48,7 +50,8 @@ export interface IBoundProfileProvider {
     usecase: string,
     input?: TInput,
     parameters?: Record<string, string>,
-    securityValues?: SecurityValues[]
+    securityValues?: SecurityValues[],
+    signal?: AbortSignal
   ): Promise<
     Result<
       TResult,
@@ -58,6 +61,25 @@ export interface IBoundProfileProvider {
       | SDKExecutionError
     >
   >;
+  performStream<
+    TInput extends NonPrimitive | undefined = undefined,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    TResult = any
+  >(
+    usecase: string,
+    input?: TInput,
+    parameters?: Record<string, string>,
+    securityValues?: SecurityValues[],
+    signal?: AbortSignal
+  ): AsyncIterable<
+    Result<
+      TResult,
+      | ProfileParameterError
+      | MapInterpreterError
+      | UnexpectedError
+      | SDKExecutionError
+    >
+  >;
 }
 
 export class BoundProfileProvider implements IBoundProfileProvider {
@@ -86,10 +108,7 @@ export class BoundProfileProvider implements IBoundProfileProvider {
       this.logger
     );
 
-    this.fetchInstance.metadata = {
-      profile: profileAstId(profileAst),
-      provider: provider.name,
-    };
+    // fetches of performs are labeled through their own view of the fetch instance, which is shared with registry fetches
     this.fetchInstance.events = events;
     this.logSensitive = logger?.log(DEBUG_NAMESPACE_SENSITIVE);
   }
@@ -108,7 +127,8 @@ export class BoundProfileProvider implements IBoundProfileProvider {
     usecase: string,
     input?: TInput,
     parameters?: Record<string, string>,
-    securityValues?: SecurityValues[]
+    securityValues?: SecurityValues[],
+    signal?: AbortSignal
   ): Promise<
     Result<
       TResult,
@@ -118,11 +138,92 @@ export class BoundProfileProvider implements IBoundProfileProvider {
       | SDKExecutionError
     >
   > {
-    this.fetchInstance.metadata = {
+    const interpreter = this.prepareInterpreter<TInput>(
+      usecase,
+      input,
+      parameters,
+      securityValues,
+      signal
+    );
+    if (interpreter.isErr()) {
+      return err(interpreter.error);
+    }
+
+    const result = await interpreter.value.perform(this.mapAst);
+    if (result.isErr()) {
+      return err(result.error);
+    }
+
+    return this.validateResult<TResult>(result.value, usecase);
+  }
+
+  /**
+   * Performs the usecase like `perform`, yielding each partial outcome of the map followed by the final outcome.
+   *
+   * Partial outcomes are validated against the result of the profile definition as well. The iteration ends with the first error.
+   */
+  public async *performStream<
+    TInput extends NonPrimitive | undefined = undefined,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    TResult = any
+  >(
+    usecase: string,
+    input?: TInput,
+    parameters?: Record<string, string>,
+    securityValues?: SecurityValues[],
+    signal?: AbortSignal
+  ): AsyncGenerator<
+    Result<
+      TResult,
+      | ProfileParameterError
+      | MapInterpreterError
+      | UnexpectedError
+      | SDKExecutionError
+    >,
+    void,
+    undefined
+  > {
+    const interpreter = this.prepareInterpreter<TInput>(
+      usecase,
+      input,
+      parameters,
+      securityValues,
+      signal
+    );
+    if (interpreter.isErr()) {
+      yield err(interpreter.error);
+
+      return;
+    }
+
+    for await (const result of interpreter.value.performStream(this.mapAst)) {
+      if (result.isErr()) {
+        yield err(result.error);
+
+        return;
+      }
+
+      const validated = this.validateResult<TResult>(result.value, usecase);
+      yield validated;
+      if (validated.isErr()) {
+        return;
+      }
+    }
+  }
+
+  /** Validates the input and creates interpreter of the map */
+  private prepareInterpreter<TInput extends NonPrimitive | undefined>(
+    usecase: string,
+    input?: TInput,
+    parameters?: Record<string, string>,
+    securityValues?: SecurityValues[],
+    signal?: AbortSignal
+  ): Result<MapInterpreter<TInput>, ProfileParameterError | UnexpectedError> {
+    const fetchInstance = withMetadata(this.fetchInstance, {
       profile: profileAstId(this.profileAst),
       usecase,
       provider: this.provider.name,
-    };
+    });
     // compose and validate the input
     const composedInput = this.composeInput(usecase, input);
 
@@ -144,39 +245,40 @@ export class BoundProfileProvider implements IBoundProfileProvider {
         )
       : this.configuration.security;
 
-    // create and perform interpreter instance
-    const interpreter = new MapInterpreter<TInput>(
-      {
-        input: composedInput,
-        usecase,
-        services: this.configuration.services,
-        security,
-        parameters: resolveIntegrationParameters(
-          this.provider,
-          this.mergeParameters(parameters, this.configuration.parameters)
-        ),
-      },
-      {
-        config: this.config,
-        fetchInstance: this.fetchInstance,
-        externalHandler: new MapInterpreterEventAdapter(
-          this.fetchInstance.metadata,
-          this.fetchInstance.events
-        ),
-        logger: this.logger,
-        crypto: this.crypto,
-        sandbox: this.sandbox,
-      }
+    return ok(
+      new MapInterpreter<TInput>(
+        {
+          input: composedInput,
+          usecase,
+          services: this.configuration.services,
+          security,
+          parameters: resolveIntegrationParameters(
+            this.provider,
+            this.mergeParameters(parameters, this.configuration.parameters)
+          ),
+          signal,
+        },
+        {
+          config: this.config,
+          fetchInstance,
+          externalHandler: new MapInterpreterEventAdapter(
+            fetchInstance.metadata,
+            fetchInstance.events
+          ),
+          logger: this.logger,
+          crypto: this.crypto,
+          sandbox: this.sandbox,
+        }
+      )
     );
+  }
 
-    const result = await interpreter.perform(this.mapAst);
-    if (result.isErr()) {
-      return err(result.error);
-    }
-
-    // validate output
+  private validateResult<TResult>(
+    value: unknown,
+    usecase: string
+  ): Result<TResult, ProfileParameterError | UnexpectedError> {
     const resultValidation = this.profileValidator.validate(
-      result.value,
+      value,
       'result',
       usecase
     );
@@ -184,9 +286,9 @@ export class BoundProfileProvider implements IBoundProfileProvider {
     if (resultValidation.isErr()) {
       return err(resultValidation.error);
     }
-    forceCast<TResult>(result.value);
+    forceCast<TResult>(value);
 
-    return ok(result.value);
+    return ok(value);
   }
 
   private composeInput(
@@ -0,0 +1,162 @@
+import type { IConfig, IFileSystem } from '../../interfaces';
+import { err, ok } from '../../lib';
+import {
+  MockFileSystem,
+  mockMapDocumentNode,
+  mockProviderJson,
+} from '../../mock';
+import { NodeCrypto } from '../../node';
+import { Config } from '../config';
+import { NotFoundError } from '../errors';
+import type { BoundProviderStoreEntry } from './bound-provider-store';
+import { FileSystemBoundProviderStore } from './bound-provider-store';
+
+describe('FileSystemBoundProviderStore', () => {
+  const crypto = new NodeCrypto();
+  const cacheKey = '{"profileId":"test-profile","provider":"test"}';
+  const entry: BoundProviderStoreEntry = {
+    mapAst: mockMapDocumentNode({ name: 'test-profile', provider: 'test' }),
+    providerJson: mockProviderJson({ name: 'test' }),
+    expiresAt: 1000,
+  };
+  const entryPath = (config: IConfig) =>
+    `${config.cachePath}/bound-providers/${crypto.hashString(
+      cacheKey,
+      'sha256'
+    )}.json`;
+
+  let fileSystem: IFileSystem;
+  let config: IConfig;
+
+  beforeEach(() => {
+    fileSystem = MockFileSystem();
+    config = new Config(fileSystem);
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('get', () => {
+    it('returns stored entry', async () => {
+      fileSystem.readFile = jest
+        .fn()
+        .mockResolvedValue(ok(JSON.stringify(entry)));
+      const store = new FileSystemBoundProviderStore(
+        config,
+        fileSystem,
+        crypto
+      );
+
+      await expect(store.get(cacheKey)).resolves.toEqual(entry);
+      expect(fileSystem.readFile).toHaveBeenCalledWith(entryPath(config));
+    });
+
+    it('returns undefined when entry does not exist', async () => {
+      fileSystem.readFile = jest
+        .fn()
+        .mockResolvedValue(err(new NotFoundError('File not found')));
+      const store = new FileSystemBoundProviderStore(
+        config,
+        fileSystem,
+        crypto
+      );
+
+      await expect(store.get(cacheKey)).resolves.toBeUndefined();
+    });
+
+    it('returns undefined when entry is not valid JSON', async () => {
+      fileSystem.readFile = jest.fn().mockResolvedValue(ok('{ not json'));
+      const store = new FileSystemBoundProviderStore(
+        config,
+        fileSystem,
+        crypto
+      );
+
+      await expect(store.get(cacheKey)).resolves.toBeUndefined();
+    });
+
+    it('returns undefined when entry is not valid', async () => {
+      fileSystem.readFile = jest
+        .fn()
+        .mockResolvedValue(ok(JSON.stringify({ ...entry, expiresAt: 'now' })));
+      const store = new FileSystemBoundProviderStore(
+        config,
+        fileSystem,
+        crypto
+      );
+
+      await expect(store.get(cacheKey)).resolves.toBeUndefined();
+    });
+
+    it('does not read anything when cache is disabled', async () => {
+      config.cache = false;
+      const store = new FileSystemBoundProviderStore(
+        config,
+        fileSystem,
+        crypto
+      );
+
+      await expect(store.get(cacheKey)).resolves.toBeUndefined();
+      expect(fileSystem.readFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('set', () => {
+    it('writes entry to bound-providers directory', async () => {
+      const store = new FileSystemBoundProviderStore(
+        config,
+        fileSystem,
+        crypto
+      );
+
+      await expect(store.set(cacheKey, entry)).resolves.toBeUndefined();
+      expect(fileSystem.mkdir).toHaveBeenCalledWith(
+        `${config.cachePath}/bound-providers`,
+        { recursive: true }
+      );
+      expect(fileSystem.writeFile).toHaveBeenCalledWith(
+        entryPath(config),
+        JSON.stringify(entry)
+      );
+    });
+
+    it('does not throw when write fails', async () => {
+      fileSystem.writeFile = jest
+        .fn()
+        .mockResolvedValue(err(new NotFoundError('Directory not found')));
+      const store = new FileSystemBoundProviderStore(
+        config,
+        fileSystem,
+        crypto
+      );
+
+      await expect(store.set(cacheKey, entry)).resolves.toBeUndefined();
+    });
+
+    it('does not write anything when cache is disabled', async () => {
+      config.cache = false;
+      const store = new FileSystemBoundProviderStore(
+        config,
+        fileSystem,
+        crypto
+      );
+
+      await store.set(cacheKey, entry);
+      expect(fileSystem.writeFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('invalidate', () => {
+    it('removes stored entry', async () => {
+      const store = new FileSystemBoundProviderStore(
+        config,
+        fileSystem,
+        crypto
+      );
+
+      await store.invalidate(cacheKey);
+      expect(fileSystem.rm).toHaveBeenCalledWith(entryPath(config));
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import type { MapDocumentNode, ProviderJson } from '@superfaceai/ast';
+import { isMapDocumentNode, isProviderJson } from '@superfaceai/ast';
+
+import type {
+  IConfig,
+  ICrypto,
+  IFileSystem,
+  ILogger,
+  LogFunction,
+} from '../../interfaces';
+
+const DEBUG_NAMESPACE = 'bound-provider-store';
+
+/**
+ * Result of a registry bind which is needed to recreate a bound profile provider without calling the registry again.
+ */
+export type BoundProviderStoreEntry = {
+  mapAst: MapDocumentNode;
+  providerJson: ProviderJson;
+  /** Unix timestamp (in seconds) after which the entry should be refreshed */
+  expiresAt: number;
+};
+
+/**
+ * Persistent storage for registry bind results.
+ *
+ * Unlike the in-memory bound profile provider cache, the store survives process restarts so that a bind
+ * does not have to be repeated on every cold start. Expired entries are still returned, it is up to the caller
+ * to decide whether to refresh them.
+ */
+export interface IBoundProviderStore {
+  get(cacheKey: string): Promise<BoundProviderStoreEntry | undefined>;
+  set(cacheKey: string, entry: BoundProviderStoreEntry): Promise<void>;
+  invalidate(cacheKey: string): Promise<void>;
+}
+
+export function isBoundProviderStoreEntry(
+  input: unknown
+): input is BoundProviderStoreEntry {
+  if (typeof input !== 'object' || input === null) {
+    return false;
+  }
+
+  const entry = input as Record<string, unknown>;
+
+  return (
+    typeof entry.expiresAt === 'number' &&
+    isMapDocumentNode(entry.mapAst) &&
+    isProviderJson(entry.providerJson)
+  );
+}
+
+/**
+ * Bound provider store which keeps each entry as a JSON file in `<cachePath>/bound-providers`.
+ *
+ * Does nothing when caching to filesystem is disabled in config.
+ */
+export class FileSystemBoundProviderStore implements IBoundProviderStore {
+  private readonly storePath: string;
+  private readonly log: LogFunction | undefined;
+
+  constructor(
+    private readonly config: IConfig,
+    private readonly fileSystem: IFileSystem,
+    private readonly crypto: ICrypto,
+    logger?: ILogger
+  ) {
+    this.storePath = fileSystem.path.join(config.cachePath, 'bound-providers');
+    this.log = logger?.log(DEBUG_NAMESPACE);
+  }
+
+  public async get(
+    cacheKey: string
+  ): Promise<BoundProviderStoreEntry | undefined> {
+    if (this.config.cache === false) {
+      return undefined;
+    }
+
+    const contents = await this.fileSystem.readFile(this.entryPath(cacheKey));
+    if (contents.isErr()) {
+      this.log?.('Reading of stored bind failed with error %O', contents.error);
+
+      return undefined;
+    }
+
+    let possibleEntry: unknown;
+    try {
+      possibleEntry = JSON.parse(contents.value);
+    } catch (error) {
+      this.log?.('Parsing of stored bind failed with error %O', error);
+
+      return undefined;
+    }
+
+    if (!isBoundProviderStoreEntry(possibleEntry)) {
+      this.log?.('Stored bind is not valid');
+
+      return undefined;
+    }
+
+    return possibleEntry;
+  }
+
+  public async set(
+    cacheKey: string,
+    entry: BoundProviderStoreEntry
+  ): Promise<void> {
+    if (this.config.cache === false) {
+      return;
+    }
+
+    const mkdirResult = await this.fileSystem.mkdir(this.storePath, {
+      recursive: true,
+    });
+    if (mkdirResult.isErr()) {
+      this.log?.(
+        'Failed to create bound provider store directory: %O',
+        mkdirResult.error
+      );
+
+      return;
+    }
+
+    const writeResult = await this.fileSystem.writeFile(
+      this.entryPath(cacheKey),
+      JSON.stringify(entry)
+    );
+    if (writeResult.isErr()) {
+      this.log?.('Failed to store bind: %O', writeResult.error);
+    }
+  }
+
+  public async invalidate(cacheKey: string): Promise<void> {
+    if (this.config.cache === false) {
+      return;
+    }
+
+    await this.fileSystem.rm(this.entryPath(cacheKey));
+  }
+
+  private entryPath(cacheKey: string): string {
+    return this.fileSystem.path.join(
+      this.storePath,
+      `${this.crypto.hashString(cacheKey, 'sha256')}.json`
+    );
+  }
+}
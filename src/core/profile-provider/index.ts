@@ -1,4 +1,5 @@
 export * from './bound-profile-provider';
+export * from './bound-provider-store';
 export * from './profile-provider';
 export * from './security';
 export * from './profile-provider-configuration';
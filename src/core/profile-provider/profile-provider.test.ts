@@ -29,7 +29,11 @@ import { ProviderConfiguration } from '../provider';
 import { fetchBind, fetchProviderInfo } from '../registry';
 import { PureJSSandbox } from '../sandbox';
 import { ServiceSelector } from '../services';
-import { ProfileProvider } from './profile-provider';
+import type {
+  BoundProviderStoreEntry,
+  IBoundProviderStore,
+} from './bound-provider-store';
+import { bindProfileProvider, ProfileProvider } from './profile-provider';
 import { ProfileProviderConfiguration } from './profile-provider-configuration';
 
 jest.mock('../registry/registry');
@@ -1299,4 +1303,131 @@ but http scheme requires: digest`
       });
     });
   });
+
+  describe('bindProfileProvider', () => {
+    const superJson = normalizeSuperJsonDocument(
+      {
+        profiles: {
+          ['test-profile']: {
+            version: '1.0.0',
+            defaults: {},
+            providers: {
+              test: {},
+            },
+          },
+        },
+        providers: {
+          test: {
+            security: [],
+          },
+        },
+      },
+      new MockEnvironment()
+    );
+    const cacheKey = 'test-cache-key';
+
+    let fileSystem: IFileSystem;
+    let storeGet: jest.MockedFunction<IBoundProviderStore['get']>;
+    let storeSet: jest.MockedFunction<IBoundProviderStore['set']>;
+
+    const bind = (
+      refresh?: boolean,
+      profileProviderConfiguration = mockProfileProviderConfiguration
+    ) =>
+      bindProfileProvider(
+        mockProfileDocument,
+        profileProviderConfiguration,
+        mockProviderConfiguration,
+        superJson,
+        mockConfig,
+        sandbox,
+        new Events(timers),
+        timers,
+        fileSystem,
+        crypto,
+        new NodeFetch(timers),
+        undefined,
+        {
+          store: { get: storeGet, set: storeSet, invalidate: jest.fn() },
+          cacheKey,
+          refresh,
+        }
+      );
+
+    beforeEach(() => {
+      fileSystem = MockFileSystem();
+      storeGet = jest.fn().mockResolvedValue(undefined);
+      storeSet = jest.fn().mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      jest.resetAllMocks();
+    });
+
+    it('uses stored bind instead of registry', async () => {
+      storeGet.mockResolvedValue({
+        mapAst: mockMapDocument,
+        providerJson,
+        expiresAt: 42,
+      });
+
+      const result = await bind();
+
+      expect(fetchBind).not.toHaveBeenCalled();
+      expect(storeSet).not.toHaveBeenCalled();
+      expect(result.expiresAt).toBe(42);
+    });
+
+    it('stores registry bind', async () => {
+      jest
+        .mocked(fetchBind)
+        .mockResolvedValue({ provider: providerJson, mapAst: mockMapDocument });
+
+      const result = await bind();
+
+      expect(fetchBind).toHaveBeenCalled();
+      expect(storeSet).toHaveBeenCalledWith(expect.stringContaining(cacheKey), {
+        mapAst: mockMapDocument,
+        providerJson,
+        expiresAt: result.expiresAt,
+      });
+    });
+
+    it('does not use stored bind of different map variant after restart', async () => {
+      const stored = new Map<string, BoundProviderStoreEntry>();
+      storeGet.mockImplementation(async key => stored.get(key));
+      storeSet.mockImplementation(async (key, entry) => {
+        stored.set(key, entry);
+      });
+      jest
+        .mocked(fetchBind)
+        .mockResolvedValue({ provider: providerJson, mapAst: mockMapDocument });
+
+      await bind(false, new ProfileProviderConfiguration(undefined, 'first'));
+      await bind(false, new ProfileProviderConfiguration(undefined, 'first'));
+      expect(fetchBind).toHaveBeenCalledTimes(1);
+
+      await bind(false, new ProfileProviderConfiguration(undefined, 'second'));
+      expect(fetchBind).toHaveBeenCalledTimes(2);
+      expect(fetchBind).toHaveBeenLastCalledWith(
+        expect.objectContaining({ mapVariant: 'second' }),
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        undefined
+      );
+    });
+
+    it('ignores stored bind when refreshing', async () => {
+      jest
+        .mocked(fetchBind)
+        .mockResolvedValue({ provider: providerJson, mapAst: mockMapDocument });
+
+      await bind(true);
+
+      expect(storeGet).not.toHaveBeenCalled();
+      expect(fetchBind).toHaveBeenCalled();
+      expect(storeSet).toHaveBeenCalled();
+    });
+  });
 });
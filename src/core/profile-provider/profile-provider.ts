@@ -1,8 +1,7 @@
 import type {
-  NormalizedSuperJsonDocument,
+  MapDocumentNode,
   ProfileDocumentNode,
   ProviderJson,
-  SecurityValues,
 } from '@superfaceai/ast';
 import { assertProviderJson } from '@superfaceai/ast';
 
@@ -17,6 +16,10 @@ import type {
 import type { ISandbox } from '../../interfaces/sandbox';
 import { profileAstId, UnexpectedError } from '../../lib';
 import { mergeSecurity } from '../../schema-tools';
+import type {
+  NormalizedSuperJsonDocument,
+  SecurityValues,
+} from '../../schema-tools/superjson/superjson';
 import {
   invalidMapASTResponseError,
   localProviderAndRemoteMapError,
@@ -30,6 +33,7 @@ import { fetchBind, fetchProviderInfo } from '../registry';
 import { ServiceSelector } from '../services';
 import type { IBoundProfileProvider } from './bound-profile-provider';
 import { BoundProfileProvider } from './bound-profile-provider';
+import type { IBoundProviderStore } from './bound-provider-store';
 import { resolveIntegrationParameters } from './parameters';
 import type { ProfileProviderConfiguration } from './profile-provider-configuration';
 import { resolveMapAst } from './resolve-map-ast';
@@ -49,7 +53,13 @@ export async function bindProfileProvider(
   fileSystem: IFileSystem,
   crypto: ICrypto,
   fetchInstance: IFetch & Interceptable & AuthCache,
-  logger?: ILogger
+  logger?: ILogger,
+  boundProviderStore?: {
+    store: IBoundProviderStore;
+    cacheKey: string;
+    /** Ignore the stored bind and bind against the registry */
+    refresh?: boolean;
+  }
 ): Promise<{ provider: IBoundProfileProvider; expiresAt: number }> {
   const profileProvider = new ProfileProvider(
     superJson,
@@ -64,20 +74,72 @@ export async function bindProfileProvider(
     fetchInstance,
     logger
   );
-  const boundProfileProvider = await profileProvider.bind();
+
+  const stored =
+    boundProviderStore !== undefined && boundProviderStore.refresh !== true
+      ? await boundProviderStore.store.get(
+          storeKey(boundProviderStore.cacheKey, profile, profileProviderConfig)
+        )
+      : undefined;
+  const boundProfileProvider = await profileProvider.bind({
+    bindResponse:
+      stored !== undefined
+        ? { provider: stored.providerJson, mapAst: stored.mapAst }
+        : undefined,
+  });
+
+  // stored bind was used in place of the registry bind, keep its expiration
+  if (stored !== undefined && profileProvider.bindResponse !== undefined) {
+    return { provider: boundProfileProvider, expiresAt: stored.expiresAt };
+  }
+
   const expiresAt =
     Math.floor(timers.now() / 1000) + config.superfaceCacheTimeout;
 
+  // only registry binds are stored, local maps are resolved on every bind anyway
+  const bindResponse = profileProvider.bindResponse;
+  if (boundProviderStore !== undefined && bindResponse?.mapAst !== undefined) {
+    await boundProviderStore.store.set(
+      storeKey(boundProviderStore.cacheKey, profile, profileProviderConfig),
+      {
+        mapAst: bindResponse.mapAst,
+        providerJson: bindResponse.provider,
+        expiresAt,
+      }
+    );
+  }
+
   return { provider: boundProfileProvider, expiresAt };
 }
 
+// stored binds outlive the process, so their key also covers the profile version and the map variant and revision
+function storeKey(
+  cacheKey: string,
+  profile: ProfileDocumentNode,
+  profileProviderConfig: ProfileProviderConfiguration
+): string {
+  return (
+    cacheKey +
+    JSON.stringify(profile.header.version) +
+    profileProviderConfig.cacheKey
+  );
+}
+
+export type BindResponse = {
+  provider: ProviderJson;
+  mapAst?: MapDocumentNode;
+};
+
 export type BindConfiguration = {
   security?: SecurityValues[];
+  /** Registry bind response obtained earlier, used instead of calling the registry */
+  bindResponse?: BindResponse;
 };
 
 export class ProfileProvider {
   private profileId: string;
   private providerJson?: ProviderJson;
+  private _bindResponse?: BindResponse;
   private readonly providersCachePath: string;
   private readonly log: LogFunction | undefined;
 
@@ -105,6 +167,11 @@ export class ProfileProvider {
     this.log = logger?.log(DEBUG_NAMESPACE);
   }
 
+  /** Registry bind response used by the last `bind`, undefined if the map was resolved locally. */
+  public get bindResponse(): BindResponse | undefined {
+    return this._bindResponse;
+  }
+
   /**
    * Binds the provider.
    *
@@ -157,20 +224,23 @@ export class ProfileProvider {
       if (providerInfo) {
         throw localProviderAndRemoteMapError(providerName, this.profileId);
       }
-      const fetchResponse = await fetchBind(
-        {
-          profileId:
-            profileId +
-            `@${this.profile.header.version.major}.${this.profile.header.version.minor}.${this.profile.header.version.patch}`,
-          provider: providerName,
-          mapVariant: this.profileProviderConfig.variant,
-          mapRevision: this.profileProviderConfig.revision,
-        },
-        this.config,
-        this.crypto,
-        this.fetchInstance,
-        this.logger
-      );
+      const fetchResponse =
+        configuration?.bindResponse ??
+        (await fetchBind(
+          {
+            profileId:
+              profileId +
+              `@${this.profile.header.version.major}.${this.profile.header.version.minor}.${this.profile.header.version.patch}`,
+            provider: providerName,
+            mapVariant: this.profileProviderConfig.variant,
+            mapRevision: this.profileProviderConfig.revision,
+          },
+          this.config,
+          this.crypto,
+          this.fetchInstance,
+          this.logger
+        ));
+      this._bindResponse = fetchResponse;
 
       providerInfo ??= fetchResponse.provider;
       await this.writeProviderCache(providerInfo);
@@ -1,11 +1,9 @@
-import type {
-  MapDocumentNode,
-  NormalizedSuperJsonDocument,
-} from '@superfaceai/ast';
+import type { MapDocumentNode } from '@superfaceai/ast';
 import { assertMapDocumentNode, EXTENSIONS } from '@superfaceai/ast';
 
 import type { IConfig, IFileSystem, ILogger } from '../../interfaces';
 import { isSettingsWithAst, UnexpectedError } from '../../lib';
+import type { NormalizedSuperJsonDocument } from '../../schema-tools/superjson/superjson';
 import {
   profileIdsDoNotMatchError,
   profileNotFoundError,
@@ -1,6 +1,7 @@
-import type { SecurityScheme, SecurityValues } from '@superfaceai/ast';
+import type { SecurityScheme } from '@superfaceai/ast';
 import { ApiKeyPlacement, HttpScheme, SecurityType } from '@superfaceai/ast';
 
+import type { SecurityValues } from '../../schema-tools/superjson/superjson';
 import { invalidSecurityValuesError, securityNotFoundError } from '../errors';
 import { resolveSecurityConfiguration } from './security';
 
@@ -200,4 +201,92 @@ describe('resolveSecurityConfiguration', () => {
       },
     ]);
   });
+
+  it('resolves OAuth 2.0 client credentials for bearer scheme', async () => {
+    const securityValues: SecurityValues[] = [
+      {
+        id: 'bearer',
+        clientId: 'client',
+        clientSecret: 'secret',
+        tokenUrl: 'https://auth.example.com/token',
+      },
+    ];
+
+    expect(
+      resolveSecurityConfiguration(
+        [{ id: 'bearer', type: SecurityType.HTTP, scheme: HttpScheme.BEARER }],
+        securityValues,
+        'test'
+      )
+    ).toEqual([
+      {
+        id: 'bearer',
+        clientId: 'client',
+        clientSecret: 'secret',
+        tokenUrl: 'https://auth.example.com/token',
+        type: SecurityType.HTTP,
+        scheme: HttpScheme.BEARER,
+      },
+    ]);
+  });
+
+  it('resolves OAuth 2.0 refresh token for bearer scheme', async () => {
+    const securityValues: SecurityValues[] = [
+      {
+        id: 'bearer',
+        clientId: 'client',
+        clientSecret: 'secret',
+        tokenUrl: 'https://auth.example.com/token',
+        refreshToken: 'refresh',
+      },
+    ];
+
+    expect(
+      resolveSecurityConfiguration(
+        [{ id: 'bearer', type: SecurityType.HTTP, scheme: HttpScheme.BEARER }],
+        securityValues,
+        'test'
+      )
+    ).toEqual([
+      {
+        id: 'bearer',
+        clientId: 'client',
+        clientSecret: 'secret',
+        tokenUrl: 'https://auth.example.com/token',
+        refreshToken: 'refresh',
+        type: SecurityType.HTTP,
+        scheme: HttpScheme.BEARER,
+      },
+    ]);
+  });
+
+  it('resolves AWS Signature Version 4 credentials for http scheme', async () => {
+    const securityValues: SecurityValues[] = [
+      {
+        id: 'basic',
+        accessKeyId: 'key',
+        secretAccessKey: 'secret',
+        region: 'us-east-1',
+        service: 'execute-api',
+      },
+    ];
+
+    expect(
+      resolveSecurityConfiguration(
+        [{ id: 'basic', type: SecurityType.HTTP, scheme: HttpScheme.BASIC }],
+        securityValues,
+        'test'
+      )
+    ).toEqual([
+      {
+        id: 'basic',
+        accessKeyId: 'key',
+        secretAccessKey: 'secret',
+        region: 'us-east-1',
+        service: 'execute-api',
+        type: SecurityType.HTTP,
+        scheme: HttpScheme.BASIC,
+      },
+    ]);
+  });
 });
@@ -1,4 +1,4 @@
-import type { SecurityScheme, SecurityValues } from '@superfaceai/ast';
+import type { SecurityScheme } from '@superfaceai/ast';
 import {
   HttpScheme,
   isApiKeySecurityValues,
@@ -8,6 +8,13 @@ import {
   SecurityType,
 } from '@superfaceai/ast';
 
+import type { SecurityValues } from '../../schema-tools/superjson/superjson';
+import {
+  isAwsSignatureV4SecurityValues,
+  isHmacSecurityValues,
+  isOAuth2ClientCredentialsSecurityValues,
+  isOAuth2RefreshTokenSecurityValues,
+} from '../../schema-tools/superjson/superjson';
 import { invalidSecurityValuesError, securityNotFoundError } from '../errors';
 import type { SecurityConfiguration } from '../interpreter';
 
@@ -41,7 +48,16 @@ export function resolveSecurityConfiguration(
       );
     };
 
-    if (scheme.type === SecurityType.APIKEY) {
+    if (
+      scheme.type === SecurityType.HTTP &&
+      (isAwsSignatureV4SecurityValues(vals) || isHmacSecurityValues(vals))
+    ) {
+      // requests are signed instead of using the scheme
+      result.push({
+        ...scheme,
+        ...vals,
+      });
+    } else if (scheme.type === SecurityType.APIKEY) {
       if (!isApiKeySecurityValues(vals)) {
         throw invalidSchemeValuesErrorBuilder(scheme, vals, ['apikey']);
       }
@@ -67,6 +83,18 @@ export function resolveSecurityConfiguration(
           break;
 
         case HttpScheme.BEARER:
+          // access token is obtained from the authorization server
+          if (
+            isOAuth2ClientCredentialsSecurityValues(vals) ||
+            isOAuth2RefreshTokenSecurityValues(vals)
+          ) {
+            result.push({
+              ...scheme,
+              ...vals,
+            });
+            break;
+          }
+
           if (!isBearerTokenSecurityValues(vals)) {
             throw invalidSchemeValuesErrorBuilder(scheme, vals, ['token']);
           }
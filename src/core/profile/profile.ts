@@ -1,7 +1,4 @@
-import type {
-  NormalizedSuperJsonDocument,
-  ProfileDocumentNode,
-} from '@superfaceai/ast';
+import type { ProfileDocumentNode } from '@superfaceai/ast';
 import { isUseCaseDefinitionNode } from '@superfaceai/ast';
 
 import type {
@@ -14,10 +11,14 @@ import type {
 } from '../../interfaces';
 import type { ISandbox } from '../../interfaces/sandbox';
 import type { SuperCache } from '../../lib';
+import type { NormalizedSuperJsonDocument } from '../../schema-tools/superjson/superjson';
 import { usecaseNotFoundError } from '../errors';
 import type { Events, Interceptable } from '../events';
 import type { AuthCache, IFetch } from '../interpreter';
-import type { IBoundProfileProvider } from '../profile-provider';
+import type {
+  IBoundProfileProvider,
+  IBoundProviderStore,
+} from '../profile-provider';
 import { UseCase } from '../usecase';
 import type { ProfileConfiguration } from './profile-configuration';
 
@@ -37,7 +38,8 @@ export abstract class ProfileBase {
     }>,
     protected readonly crypto: ICrypto,
     protected readonly fetchInstance: IFetch & Interceptable & AuthCache,
-    protected readonly logger?: ILogger
+    protected readonly logger?: ILogger,
+    protected readonly boundProviderStore?: IBoundProviderStore
   ) {}
 
   public getConfiguredProviders(): string[] {
@@ -68,7 +70,8 @@ export class Profile extends ProfileBase implements IProfile {
       this.crypto,
       this.boundProfileProviderCache,
       this.fetchInstance,
-      this.logger
+      this.logger,
+      this.boundProviderStore
     );
   }
 }
@@ -1,7 +1,4 @@
-import type {
-  NormalizedSuperJsonDocument,
-  ProfileDocumentNode,
-} from '@superfaceai/ast';
+import type { ProfileDocumentNode } from '@superfaceai/ast';
 
 import type {
   IConfig,
@@ -13,10 +10,14 @@ import type {
 import type { ISandbox } from '../../interfaces/sandbox';
 import type { NonPrimitive, SuperCache } from '../../lib';
 import { UnexpectedError } from '../../lib';
+import type { NormalizedSuperJsonDocument } from '../../schema-tools/superjson/superjson';
 import { usecaseNotFoundError } from '../errors';
 import type { Events, Interceptable } from '../events';
 import type { AuthCache, IFetch } from '../interpreter';
-import type { IBoundProfileProvider } from '../profile-provider';
+import type {
+  IBoundProfileProvider,
+  IBoundProviderStore,
+} from '../profile-provider';
 import { TypedUseCase } from '../usecase';
 import { ProfileBase } from './profile';
 import type { ProfileConfiguration } from './profile-configuration';
@@ -60,7 +61,8 @@ export class TypedProfile<
       Interceptable &
       AuthCache,
     usecases: (keyof TUsecaseTypes)[],
-    protected override readonly logger?: ILogger
+    protected override readonly logger?: ILogger,
+    protected override readonly boundProviderStore?: IBoundProviderStore
   ) {
     super(
       configuration,
@@ -74,7 +76,8 @@ export class TypedProfile<
       boundProfileProviderCache,
       crypto,
       fetchInstance,
-      logger
+      logger,
+      boundProviderStore
     );
     this.knownUsecases = usecases.reduce(
       (acc, usecase) => ({
@@ -94,7 +97,8 @@ export class TypedProfile<
           crypto,
           boundProfileProviderCache,
           fetchInstance,
-          logger
+          logger,
+          boundProviderStore
         ),
       }),
       {} as KnownUsecase<TUsecaseTypes>
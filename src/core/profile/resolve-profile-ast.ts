@@ -1,11 +1,9 @@
-import type {
-  NormalizedSuperJsonDocument,
-  ProfileDocumentNode,
-} from '@superfaceai/ast';
+import type { ProfileDocumentNode } from '@superfaceai/ast';
 import { assertProfileDocumentNode, EXTENSIONS } from '@superfaceai/ast';
 
 import type { IConfig, ICrypto, IFileSystem, ILogger } from '../../interfaces';
 import { isSettingsWithAst, UnexpectedError } from '../../lib';
+import type { NormalizedSuperJsonDocument } from '../../schema-tools/superjson/superjson';
 import {
   NotFoundError,
   profileFileNotFoundError,
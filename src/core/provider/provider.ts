@@ -1,7 +1,6 @@
-import type { SecurityValues } from '@superfaceai/ast';
-
 import type { IProvider } from '../../interfaces';
 import { mergeSecurity } from '../../schema-tools';
+import type { SecurityValues } from '../../schema-tools/superjson/superjson';
 
 export class ProviderConfiguration {
   // TODO: where should we store security and parameters when they are passed to getProvider? Maybe Provider instance?
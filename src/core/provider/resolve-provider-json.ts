@@ -1,11 +1,9 @@
-import type {
-  NormalizedSuperJsonDocument,
-  ProviderJson,
-} from '@superfaceai/ast';
+import type { ProviderJson } from '@superfaceai/ast';
 import { assertProviderJson } from '@superfaceai/ast';
 
 import type { IConfig, IFileSystem, ILogger } from '../../interfaces';
 import { isSettingsWithAst, UnexpectedError } from '../../lib';
+import type { NormalizedSuperJsonDocument } from '../../schema-tools/superjson/superjson';
 import {
   providersDoNotMatchError,
   referencedFileNotFoundError,
@@ -1,8 +1,7 @@
 import type {
   NormalizedSuperJsonDocument,
   SecurityValues,
-} from '@superfaceai/ast';
-
+} from '../../schema-tools/superjson/superjson';
 import {
   noConfiguredProviderError,
   profileNotFoundError,
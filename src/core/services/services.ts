@@ -2,6 +2,7 @@ import type { ProviderService } from '@superfaceai/ast';
 
 export interface IServiceSelector {
   getUrl(serviceId?: string): string | undefined;
+  getId(serviceId?: string): string | undefined;
 }
 
 export class ServiceSelector implements IServiceSelector {
@@ -32,4 +33,11 @@ export class ServiceSelector implements IServiceSelector {
 
     return this.serviceUrls[service];
   }
+
+  /**
+   * Gets the id of the service used for `serviceId`. If `serviceId` is undefined returns id of the default service.
+   */
+  public getId(serviceId?: string): string | undefined {
+    return serviceId ?? this.defaultService;
+  }
 }
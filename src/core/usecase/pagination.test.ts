@@ -0,0 +1,118 @@
+import type {
+  FieldDefinitionNode,
+  ProfileDocumentNode,
+} from '@superfaceai/ast';
+
+import { mockProfileDocumentNode } from '../../mock';
+import { resolvePaginationFields } from './pagination';
+
+const field = (
+  fieldName: string,
+  type: FieldDefinitionNode['type'] = {
+    kind: 'PrimitiveTypeName',
+    name: 'string',
+  }
+): FieldDefinitionNode => ({
+  kind: 'FieldDefinition',
+  fieldName,
+  required: false,
+  type,
+});
+
+const list: FieldDefinitionNode['type'] = {
+  kind: 'ListDefinition',
+  elementType: { kind: 'PrimitiveTypeName', name: 'string' },
+};
+
+const profile = (
+  inputFields: FieldDefinitionNode[],
+  resultFields: FieldDefinitionNode[]
+): ProfileDocumentNode =>
+  mockProfileDocumentNode({ usecaseName: 'List', inputFields, resultFields });
+
+describe('resolvePaginationFields', () => {
+  it('resolves cursor fields and items list field', () => {
+    expect(
+      resolvePaginationFields(
+        profile(
+          [field('query'), field('cursor')],
+          [field('items', list), field('nextCursor'), field('total')]
+        ),
+        'List'
+      )
+    ).toEqual({
+      cursorInput: 'cursor',
+      cursorResult: 'nextCursor',
+      items: 'items',
+    });
+  });
+
+  it('resolves page token fields', () => {
+    expect(
+      resolvePaginationFields(
+        profile([field('pageToken')], [field('nextPageToken')]),
+        'List'
+      )
+    ).toEqual({ cursorInput: 'pageToken', cursorResult: 'nextPageToken' });
+  });
+
+  it('omits items when result has more than one list field', () => {
+    expect(
+      resolvePaginationFields(
+        profile(
+          [field('cursor')],
+          [field('items', list), field('tags', list), field('cursor')]
+        ),
+        'List'
+      )
+    ).toEqual({ cursorInput: 'cursor', cursorResult: 'cursor' });
+  });
+
+  it('resolves items through named models and fields', () => {
+    const ast = profile(
+      [field('cursor')],
+      [
+        field('items', {
+          kind: 'NonNullDefinition',
+          type: { kind: 'ModelTypeName', name: 'Items' },
+        }),
+        { kind: 'FieldDefinition', fieldName: 'nextCursor', required: false },
+      ]
+    );
+    ast.definitions.push(
+      { kind: 'NamedModelDefinition', modelName: 'Items', type: list },
+      {
+        kind: 'NamedFieldDefinition',
+        fieldName: 'nextCursor',
+        type: { kind: 'PrimitiveTypeName', name: 'string' },
+      }
+    );
+
+    expect(resolvePaginationFields(ast, 'List')).toEqual({
+      cursorInput: 'cursor',
+      cursorResult: 'nextCursor',
+      items: 'items',
+    });
+  });
+
+  it('returns undefined when usecase is not paginated', () => {
+    expect(
+      resolvePaginationFields(
+        profile([field('query')], [field('nextCursor')]),
+        'List'
+      )
+    ).toBeUndefined();
+    expect(
+      resolvePaginationFields(
+        profile([field('cursor')], [field('items', list)]),
+        'List'
+      )
+    ).toBeUndefined();
+    expect(
+      resolvePaginationFields(
+        profile([field('cursor')], [field('nextCursor')]),
+        'Other'
+      )
+    ).toBeUndefined();
+  });
+});
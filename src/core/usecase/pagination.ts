@@ -0,0 +1,99 @@
+import type {
+  FieldDefinitionNode,
+  ProfileDocumentNode,
+  Type,
+} from '@superfaceai/ast';
+import {
+  isNamedFieldDefinitionNode,
+  isNamedModelDefinitionNode,
+  isUseCaseDefinitionNode,
+} from '@superfaceai/ast';
+
+/** Input fields receiving the cursor of the requested page, in order of preference */
+export const CURSOR_INPUT_FIELDS = ['cursor', 'pageToken', 'nextPageToken'];
+/** Result fields with the cursor of the next page, in order of preference */
+export const CURSOR_RESULT_FIELDS = ['nextCursor', 'nextPageToken', 'cursor'];
+
+/** Fields of a paginated usecase */
+export type PaginationFields = {
+  /** Input field receiving the cursor of the requested page */
+  cursorInput: string;
+  /** Result field with the cursor of the next page */
+  cursorResult: string;
+  /** Result field with items of the page, if the result has exactly one list field */
+  items?: string;
+};
+
+/** Resolves named models and non-null wrappers to the underlying type */
+function resolveType(
+  ast: ProfileDocumentNode,
+  type: Type | undefined
+): Type | undefined {
+  let resolved = type;
+  while (resolved !== undefined) {
+    if (resolved.kind === 'NonNullDefinition') {
+      resolved = resolved.type;
+    } else if (resolved.kind === 'ModelTypeName') {
+      const name = resolved.name;
+      resolved = ast.definitions
+        .filter(isNamedModelDefinitionNode)
+        .find(definition => definition.modelName === name)?.type;
+    } else {
+      return resolved;
+    }
+  }
+
+  return undefined;
+}
+
+function fieldType(
+  ast: ProfileDocumentNode,
+  field: FieldDefinitionNode
+): Type | undefined {
+  // fields without type refer to named fields
+  return resolveType(
+    ast,
+    field.type ??
+      ast.definitions
+        .filter(isNamedFieldDefinitionNode)
+        .find(definition => definition.fieldName === field.fieldName)?.type
+  );
+}
+
+/**
+ * Resolves pagination fields of the usecase by convention, `undefined` when the usecase is not paginated.
+ *
+ * The usecase is paginated when its input has one of `CURSOR_INPUT_FIELDS` and its result one of `CURSOR_RESULT_FIELDS`.
+ */
+export function resolvePaginationFields(
+  ast: ProfileDocumentNode,
+  usecaseName: string
+): PaginationFields | undefined {
+  const usecase = ast.definitions
+    .filter(isUseCaseDefinitionNode)
+    .find(definition => definition.useCaseName === usecaseName);
+  const inputFields =
+    usecase?.input?.value.fields.map(field => field.fieldName) ?? [];
+  const result = resolveType(ast, usecase?.result?.value);
+  const resultFields = result?.kind === 'ObjectDefinition' ? result.fields : [];
+
+  const cursorInput = CURSOR_INPUT_FIELDS.find(name =>
+    inputFields.includes(name)
+  );
+  const cursorResult = CURSOR_RESULT_FIELDS.find(name =>
+    resultFields.some(field => field.fieldName === name)
+  );
+  if (cursorInput === undefined || cursorResult === undefined) {
+    return undefined;
+  }
+
+  const lists = resultFields.filter(
+    field => fieldType(ast, field)?.kind === 'ListDefinition'
+  );
+
+  return {
+    cursorInput,
+    cursorResult,
+    ...(lists.length === 1 ? { items: lists[0].fieldName } : {}),
+  };
+}
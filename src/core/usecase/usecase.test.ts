@@ -1,4 +1,6 @@
-import { SuperCache } from '../../lib';
+import type { ProfileDocumentNode } from '@superfaceai/ast';
+
+import { err, ok, SuperCache } from '../../lib';
 import {
   MockEnvironment,
   MockFileSystem,
@@ -7,7 +9,9 @@ import {
 } from '../../mock';
 import { NodeCrypto, NodeFetch, NodeFileSystem } from '../../node';
 import { normalizeSuperJsonDocument } from '../../schema-tools/superjson/normalize';
+import type { NormalizedSuperJsonDocument } from '../../schema-tools/superjson/superjson';
 import { Config } from '../config';
+import { PerformTimeoutError, RequestFetchError } from '../errors';
 import { Events, registerHooks } from '../events';
 import type { ProfileBase } from '../profile';
 import { Profile, ProfileConfiguration } from '../profile';
@@ -34,13 +38,24 @@ const mockSuperJson = normalizeSuperJsonDocument(
 
 const mockBoundProfileProvider = {
   perform: jest.fn(),
+  performStream: jest.fn(),
 };
 
 jest.mock('../profile-provider/profile-provider', () => ({
   bindProfileProvider: jest.fn(() => mockBoundProfileProvider),
 }));
 
-function createUseCase(cacheExpire?: number, omitSuperJson?: boolean) {
+function createUseCase(
+  cacheExpire?: number,
+  omitSuperJson?: boolean,
+  overrides?: {
+    superJson?: NormalizedSuperJsonDocument;
+    safety?: 'safe' | 'unsafe' | 'idempotent';
+    profileAst?: ProfileDocumentNode;
+  }
+) {
+  const superJson =
+    omitSuperJson === true ? undefined : overrides?.superJson ?? mockSuperJson;
   const crypto = new NodeCrypto();
   const timers = new MockTimers();
   const events = new Events(timers);
@@ -50,6 +65,7 @@ function createUseCase(cacheExpire?: number, omitSuperJson?: boolean) {
 
   const mockBoundProfileProvider2 = {
     perform: jest.fn(),
+    performStream: jest.fn(),
   };
 
   const mockProviderConfiguration = new ProviderConfiguration(
@@ -74,9 +90,13 @@ function createUseCase(cacheExpire?: number, omitSuperJson?: boolean) {
 
   const profile: ProfileBase = new Profile(
     mockProfileConfiguration,
-    mockProfileDocumentNode(),
+    overrides?.profileAst ??
+      mockProfileDocumentNode({
+        usecaseName: 'test-usecase',
+        safety: overrides?.safety,
+      }),
     events,
-    omitSuperJson === true ? undefined : mockSuperJson,
+    superJson,
     config,
     sandbox,
     timers,
@@ -107,7 +127,7 @@ function createUseCase(cacheExpire?: number, omitSuperJson?: boolean) {
     events,
     config,
     sandbox,
-    omitSuperJson === true ? undefined : mockSuperJson,
+    superJson,
     timers,
     filesystem,
     crypto,
@@ -118,15 +138,27 @@ function createUseCase(cacheExpire?: number, omitSuperJson?: boolean) {
   return {
     performSpy: mockBoundProfileProvider.perform,
     performSpy2: mockBoundProfileProvider2.perform,
+    performStreamSpy: mockBoundProfileProvider.performStream,
+    performStreamSpy2: mockBoundProfileProvider2.performStream,
     profileConfiguration: mockProfileConfiguration,
     providerConfiguration: mockProviderConfiguration,
     providerConfiguration2: mockProviderConfiguration2,
     usecase,
     cache,
     timers,
+    events,
   };
 }
 
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+
+  return items;
+};
+
 describe('UseCase', () => {
   afterEach(() => {
     jest.clearAllMocks();
@@ -155,7 +187,8 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
-          [{ id: 'test', apikey: 'key' }]
+          [{ id: 'test', apikey: 'key' }],
+          undefined
         );
       });
 
@@ -179,7 +212,8 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
-          [{ id: 'test', apikey: 'key' }]
+          [{ id: 'test', apikey: 'key' }],
+          undefined
         );
       });
 
@@ -203,7 +237,8 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
-          []
+          [],
+          undefined
         );
       });
 
@@ -243,7 +278,8 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
-          [{ id: 'test', apikey: 'key' }]
+          [{ id: 'test', apikey: 'key' }],
+          undefined
         );
       });
 
@@ -261,10 +297,32 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
+          undefined,
           undefined
         );
       });
 
+      it('passes signal to BoundProfileProvider', async () => {
+        const { usecase, performSpy } = createUseCase(undefined, true);
+        const controller = new AbortController();
+        await expect(
+          usecase.perform(
+            { x: 7 },
+            {
+              provider: 'test-provider',
+              signal: controller.signal,
+            }
+          )
+        ).resolves.toBeUndefined();
+        expect(performSpy).toHaveBeenCalledWith(
+          'test-usecase',
+          { x: 7 },
+          undefined,
+          undefined,
+          controller.signal
+        );
+      });
+
       it('calls perform on overridden BoundProfileProvider', async () => {
         const { usecase, performSpy, performSpy2 } = createUseCase(
           undefined,
@@ -278,12 +336,258 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
+          undefined,
           undefined
         );
       });
     });
   });
 
+  describe('when calling performStream', () => {
+    it('yields results from BoundProfileProvider', async () => {
+      const { usecase, performStreamSpy } = createUseCase();
+      performStreamSpy.mockImplementation(async function* () {
+        yield ok('first');
+        yield ok('second');
+      });
+
+      await expect(
+        collect(
+          usecase.performStream(
+            { x: 7 },
+            { security: [{ id: 'test', apikey: 'key' }] }
+          )
+        )
+      ).resolves.toEqual([ok('first'), ok('second')]);
+      expect(performStreamSpy).toHaveBeenCalledWith(
+        'test-usecase',
+        { x: 7 },
+        undefined,
+        [{ id: 'test', apikey: 'key' }],
+        undefined
+      );
+    });
+
+    it('calls performStream on overridden BoundProfileProvider', async () => {
+      const { usecase, performStreamSpy, performStreamSpy2 } = createUseCase();
+      performStreamSpy2.mockImplementation(async function* () {
+        yield err('failed');
+      });
+
+      await expect(
+        collect(usecase.performStream({ x: 7 }, { provider: 'test-provider2' }))
+      ).resolves.toEqual([err('failed')]);
+      expect(performStreamSpy).not.toHaveBeenCalled();
+    });
+
+    describe('when concurrency limit is reached', () => {
+      const limitedSuperJson = (providerFailover: boolean) =>
+        normalizeSuperJsonDocument(
+          {
+            profiles: {
+              test: {
+                version: '1.0.0',
+                priority: ['test-provider', 'test-provider2'],
+                defaults: {
+                  'test-usecase': { providerFailover },
+                },
+                providers: {
+                  'test-provider': {
+                    defaults: {
+                      'test-usecase': {
+                        concurrencyLimit: { maxConcurrent: 1 },
+                      },
+                    },
+                  },
+                  'test-provider2': {},
+                },
+              },
+            },
+            providers: {
+              'test-provider': {},
+              'test-provider2': {},
+            },
+          },
+          new MockEnvironment()
+        );
+
+      it('does not stream', async () => {
+        const { usecase, performStreamSpy, events } = createUseCase(
+          undefined,
+          undefined,
+          { superJson: limitedSuperJson(false) }
+        );
+        performStreamSpy.mockImplementation(async function* () {
+          yield ok('streamed');
+        });
+        await collect(usecase.performStream());
+        events.hookContext['test/test-usecase'].router.startExecution(
+          'test-provider',
+          { time: 0, registryCacheAge: 0 }
+        );
+
+        await expect(collect(usecase.performStream())).rejects.toThrow(
+          'concurrent executions reached'
+        );
+        expect(performStreamSpy).toHaveBeenCalledTimes(1);
+      });
+
+      it('streams with next provider after perform with specified provider', async () => {
+        const {
+          usecase,
+          performSpy,
+          performStreamSpy,
+          performStreamSpy2,
+          events,
+        } = createUseCase(undefined, undefined, {
+          superJson: limitedSuperJson(true),
+        });
+        performSpy.mockResolvedValue(ok('performed'));
+        performStreamSpy.mockImplementation(async function* () {
+          yield ok('limited');
+        });
+        performStreamSpy2.mockImplementation(async function* () {
+          yield ok('streamed');
+        });
+        await usecase.perform(undefined, { provider: 'test-provider' });
+        events.hookContext['test/test-usecase'].router.startExecution(
+          'test-provider',
+          { time: 0, registryCacheAge: 0 }
+        );
+
+        await expect(collect(usecase.performStream())).resolves.toEqual([
+          ok('streamed'),
+        ]);
+      });
+    });
+  });
+
+  describe('when calling paginate', () => {
+    afterEach(() => {
+      mockBoundProfileProvider.perform.mockReset();
+    });
+
+    const paginatedAst = mockProfileDocumentNode({
+      usecaseName: 'test-usecase',
+      inputFields: [
+        { kind: 'FieldDefinition', fieldName: 'query', required: false },
+        { kind: 'FieldDefinition', fieldName: 'cursor', required: false },
+      ],
+      resultFields: [
+        {
+          kind: 'FieldDefinition',
+          fieldName: 'items',
+          required: true,
+          type: {
+            kind: 'ListDefinition',
+            elementType: { kind: 'PrimitiveTypeName', name: 'string' },
+          },
+        },
+        { kind: 'FieldDefinition', fieldName: 'nextCursor', required: false },
+      ],
+    });
+    const pages: Record<string, { items: string[]; nextCursor?: string }> = {
+      first: { items: ['a', 'b'], nextCursor: 'second' },
+      second: { items: ['c'], nextCursor: 'third' },
+      third: { items: ['d'] },
+    };
+    const performPage = async (_usecase: string, input?: { cursor?: string }) =>
+      ok(pages[input?.cursor ?? 'first']);
+
+    it('yields pages until there is no next cursor', async () => {
+      const { usecase, performSpy } = createUseCase(undefined, undefined, {
+        profileAst: paginatedAst,
+      });
+      performSpy.mockImplementation(performPage);
+
+      await expect(collect(usecase.paginate({ query: 'x' }))).resolves.toEqual([
+        ok(pages.first),
+        ok(pages.second),
+        ok(pages.third),
+      ]);
+      expect(performSpy).toHaveBeenCalledTimes(3);
+      expect(performSpy).toHaveBeenNthCalledWith(
+        2,
+        'test-usecase',
+        { query: 'x', cursor: 'second' },
+        undefined,
+        undefined,
+        undefined
+      );
+    });
+
+    it('yields items of pages', async () => {
+      const { usecase, performSpy } = createUseCase(undefined, undefined, {
+        profileAst: paginatedAst,
+      });
+      performSpy.mockImplementation(performPage);
+
+      await expect(
+        collect(usecase.paginate(undefined, { items: true }))
+      ).resolves.toEqual([ok('a'), ok('b'), ok('c'), ok('d')]);
+    });
+
+    it('stops after max pages', async () => {
+      const { usecase, performSpy } = createUseCase(undefined, undefined, {
+        profileAst: paginatedAst,
+      });
+      performSpy.mockImplementation(performPage);
+
+      await expect(
+        collect(usecase.paginate(undefined, { maxPages: 2 }))
+      ).resolves.toEqual([ok(pages.first), ok(pages.second)]);
+      expect(performSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops when cursor repeats', async () => {
+      const { usecase, performSpy } = createUseCase(undefined, undefined, {
+        profileAst: paginatedAst,
+      });
+      performSpy.mockResolvedValue(ok({ items: [], nextCursor: 'same' }));
+
+      await expect(collect(usecase.paginate())).resolves.toHaveLength(2);
+      expect(performSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops after the first error', async () => {
+      const { usecase, performSpy } = createUseCase(undefined, undefined, {
+        profileAst: paginatedAst,
+      });
+      performSpy
+        .mockImplementationOnce(performPage)
+        .mockResolvedValueOnce(err('failed'));
+
+      await expect(collect(usecase.paginate())).resolves.toEqual([
+        ok(pages.first),
+        err('failed'),
+      ]);
+      expect(performSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('performs pages with overridden provider', async () => {
+      const { usecase, performSpy, performSpy2 } = createUseCase(
+        undefined,
+        undefined,
+        { profileAst: paginatedAst }
+      );
+      performSpy2.mockImplementation(performPage);
+
+      await expect(
+        collect(usecase.paginate(undefined, { provider: 'test-provider2' }))
+      ).resolves.toHaveLength(3);
+      expect(performSpy).not.toHaveBeenCalled();
+    });
+
+    it('throws when usecase is not paginated', async () => {
+      const { usecase, performSpy } = createUseCase();
+
+      await expect(collect(usecase.paginate())).rejects.toThrow(
+        'Usecase "test-usecase" of profile "test" is not paginated'
+      );
+      expect(performSpy).not.toHaveBeenCalled();
+    });
+  });
+
   describe('when using with super json', () => {
     describe('when calling perform', () => {
       it('passes security values when entered as array', async () => {
@@ -306,7 +610,8 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
-          [{ id: 'test', apikey: 'key' }]
+          [{ id: 'test', apikey: 'key' }],
+          undefined
         );
       });
 
@@ -329,7 +634,8 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
-          [{ id: 'test', apikey: 'key' }]
+          [{ id: 'test', apikey: 'key' }],
+          undefined
         );
       });
 
@@ -352,7 +658,8 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
-          []
+          [],
+          undefined
         );
       });
 
@@ -391,7 +698,8 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
-          [{ id: 'test', apikey: 'key' }]
+          [{ id: 'test', apikey: 'key' }],
+          undefined
         );
       });
 
@@ -402,6 +710,7 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
+          undefined,
           undefined
         );
       });
@@ -416,6 +725,7 @@ describe('UseCase', () => {
           'test-usecase',
           { x: 7 },
           undefined,
+          undefined,
           undefined
         );
       });
@@ -435,4 +745,358 @@ describe('UseCase', () => {
     await usecase.perform();
     expect(invalidateSpy).toHaveBeenCalled();
   });
+
+  describe('when hedging is configured', () => {
+    const hedgingSuperJson = normalizeSuperJsonDocument(
+      {
+        profiles: {
+          test: {
+            version: '1.0.0',
+            priority: ['test-provider', 'test-provider2'],
+            defaults: {
+              'test-usecase': {
+                providerFailover: true,
+                hedging: { initialDelay: 500 },
+              },
+            },
+            providers: {
+              'test-provider': {},
+              'test-provider2': {},
+            },
+          },
+        },
+        providers: {
+          'test-provider': {},
+          'test-provider2': {},
+        },
+      },
+      new MockEnvironment()
+    );
+
+    const flushPromises = () => new Promise(setImmediate);
+
+    async function startPerform(
+      usecase: UseCase,
+      performSpy: jest.Mock,
+      options?: { provider?: string }
+    ) {
+      const result = usecase.perform(undefined, options);
+      while (performSpy.mock.calls.length === 0) {
+        await flushPromises();
+      }
+
+      return result;
+    }
+
+    it('returns primary result when it finishes in time', async () => {
+      const { usecase, performSpy, performSpy2 } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: hedgingSuperJson }
+      );
+      performSpy.mockResolvedValue(ok('primary'));
+
+      await expect(usecase.perform()).resolves.toEqual(ok('primary'));
+      expect(performSpy2).not.toHaveBeenCalled();
+    });
+
+    it('hedges slow perform with next provider', async () => {
+      const { usecase, performSpy, performSpy2, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: hedgingSuperJson }
+      );
+      performSpy.mockReturnValue(new Promise(() => undefined));
+      performSpy2.mockResolvedValue(ok('hedged'));
+
+      const result = startPerform(usecase, performSpy);
+      timers.tick(500);
+
+      await expect(result).resolves.toEqual(ok('hedged'));
+      expect(performSpy2).toHaveBeenCalledWith(
+        'test-usecase',
+        undefined,
+        undefined,
+        undefined,
+        expect.anything()
+      );
+    });
+
+    it('aborts slower perform once the other succeeds', async () => {
+      const { usecase, performSpy, performSpy2, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: hedgingSuperJson }
+      );
+      performSpy.mockReturnValue(new Promise(() => undefined));
+      performSpy2.mockResolvedValue(ok('hedged'));
+
+      const result = startPerform(usecase, performSpy);
+      timers.tick(500);
+
+      await expect(result).resolves.toEqual(ok('hedged'));
+      expect(performSpy.mock.calls[0][4].aborted).toBe(true);
+      expect(performSpy2.mock.calls[0][4].aborted).toBe(false);
+    });
+
+    it('aborts hedged perform once primary succeeds', async () => {
+      const { usecase, performSpy, performSpy2, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: hedgingSuperJson }
+      );
+      let resolvePrimary: (value: unknown) => void = () => undefined;
+      performSpy.mockReturnValue(
+        new Promise(resolve => {
+          resolvePrimary = resolve;
+        })
+      );
+      performSpy2.mockReturnValue(new Promise(() => undefined));
+
+      const result = startPerform(usecase, performSpy);
+      timers.tick(500);
+      while (performSpy2.mock.calls.length === 0) {
+        await flushPromises();
+      }
+      resolvePrimary(ok('primary'));
+
+      await expect(result).resolves.toEqual(ok('primary'));
+      expect(performSpy2.mock.calls[0][4].aborted).toBe(true);
+      expect(performSpy.mock.calls[0][4].aborted).toBe(false);
+    });
+
+    it('returns primary result when both performs fail', async () => {
+      const { usecase, performSpy, performSpy2, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: hedgingSuperJson }
+      );
+      let resolvePrimary: (value: unknown) => void = () => undefined;
+      performSpy.mockReturnValue(
+        new Promise(resolve => {
+          resolvePrimary = resolve;
+        })
+      );
+      performSpy2.mockResolvedValue(err('hedged'));
+
+      const result = startPerform(usecase, performSpy);
+      timers.tick(500);
+      while (performSpy2.mock.calls.length === 0) {
+        await flushPromises();
+      }
+      resolvePrimary(err('primary'));
+
+      await expect(result).resolves.toEqual(err('primary'));
+    });
+
+    it('does not hedge unsafe usecase', async () => {
+      const { usecase, performSpy, performSpy2, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: hedgingSuperJson, safety: 'unsafe' }
+      );
+      let resolvePrimary: (value: unknown) => void = () => undefined;
+      performSpy.mockReturnValue(
+        new Promise(resolve => {
+          resolvePrimary = resolve;
+        })
+      );
+
+      const result = startPerform(usecase, performSpy);
+      timers.tick(500);
+      await flushPromises();
+      resolvePrimary(ok('primary'));
+
+      await expect(result).resolves.toEqual(ok('primary'));
+      expect(performSpy2).not.toHaveBeenCalled();
+    });
+
+    it('does not hedge when provider is specified', async () => {
+      const { usecase, performSpy, performSpy2, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: hedgingSuperJson }
+      );
+      let resolvePrimary: (value: unknown) => void = () => undefined;
+      performSpy.mockReturnValue(
+        new Promise(resolve => {
+          resolvePrimary = resolve;
+        })
+      );
+
+      const result = startPerform(usecase, performSpy, {
+        provider: 'test-provider',
+      });
+      timers.tick(500);
+      await flushPromises();
+      resolvePrimary(ok('primary'));
+
+      await expect(result).resolves.toEqual(ok('primary'));
+      expect(performSpy2).not.toHaveBeenCalled();
+    });
+
+    it('does not hedge when failover is not allowed', async () => {
+      const superJson = normalizeSuperJsonDocument(
+        {
+          profiles: {
+            test: {
+              version: '1.0.0',
+              priority: ['test-provider', 'test-provider2'],
+              defaults: {
+                'test-usecase': {
+                  providerFailover: false,
+                  hedging: { initialDelay: 500 },
+                },
+              },
+              providers: {
+                'test-provider': {},
+                'test-provider2': {},
+              },
+            },
+          },
+          providers: {
+            'test-provider': {},
+            'test-provider2': {},
+          },
+        },
+        new MockEnvironment()
+      );
+      const { usecase, performSpy, performSpy2, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson }
+      );
+      let resolvePrimary: (value: unknown) => void = () => undefined;
+      performSpy.mockReturnValue(
+        new Promise(resolve => {
+          resolvePrimary = resolve;
+        })
+      );
+
+      const result = startPerform(usecase, performSpy);
+      timers.tick(500);
+      await flushPromises();
+      resolvePrimary(ok('primary'));
+
+      await expect(result).resolves.toEqual(ok('primary'));
+      expect(performSpy2).not.toHaveBeenCalled();
+    });
+
+    it('reports outcome of hedged perform', async () => {
+      const { usecase, performSpy, performSpy2, timers, events } =
+        createUseCase(undefined, undefined, { superJson: hedgingSuperJson });
+      const successes: string[] = [];
+      events.on('success', { priority: 0 }, context => {
+        successes.push(context.provider);
+      });
+      performSpy.mockReturnValue(new Promise(() => undefined));
+      performSpy2.mockResolvedValue(ok('hedged'));
+
+      const result = startPerform(usecase, performSpy);
+      timers.tick(500);
+
+      await expect(result).resolves.toEqual(ok('hedged'));
+      expect(successes).toEqual(['test-provider2']);
+    });
+  });
+
+  describe('when perform timeout is configured', () => {
+    const timeoutSuperJson = normalizeSuperJsonDocument(
+      {
+        profiles: {
+          test: {
+            version: '1.0.0',
+            defaults: {
+              'test-usecase': {
+                timeout: 2000,
+              },
+            },
+            providers: {
+              'test-provider': {},
+            },
+          },
+        },
+        providers: {
+          'test-provider': {},
+        },
+      },
+      new MockEnvironment()
+    );
+
+    // rejects like a fetch cancelled through the signal
+    const performUntilCancelled = (
+      _usecase: string,
+      _input: unknown,
+      _parameters: unknown,
+      _security: unknown,
+      signal: AbortSignal
+    ) =>
+      new Promise((_resolve, reject) => {
+        if (signal.aborted) {
+          reject(new RequestFetchError('cancel'));
+        }
+        signal.addEventListener('abort', () =>
+          reject(new RequestFetchError('cancel'))
+        );
+      });
+
+    it('returns result when perform finishes in time', async () => {
+      const { usecase, performSpy, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: timeoutSuperJson }
+      );
+      performSpy.mockResolvedValue(ok('result'));
+
+      await expect(usecase.perform()).resolves.toEqual(ok('result'));
+      expect(timers.timers.every(timer => !timer.enabled)).toBe(true);
+    });
+
+    it('fails with timeout error when perform does not finish in time', async () => {
+      const { usecase, performSpy, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: timeoutSuperJson }
+      );
+      performSpy.mockImplementation(performUntilCancelled);
+
+      const result = usecase.perform();
+      timers.tick(2000);
+
+      await expect(result).rejects.toEqual(
+        new PerformTimeoutError('test-usecase', 2000)
+      );
+    });
+
+    it('prefers timeout from perform options', async () => {
+      const { usecase, performSpy, timers } = createUseCase(
+        undefined,
+        undefined,
+        { superJson: timeoutSuperJson }
+      );
+      performSpy.mockImplementation(performUntilCancelled);
+
+      const result = usecase.perform(undefined, { timeout: 500 });
+      timers.tick(500);
+
+      await expect(result).rejects.toEqual(
+        new PerformTimeoutError('test-usecase', 500)
+      );
+    });
+
+    it('rejects with cancellation when cancelled by the caller', async () => {
+      const { usecase, performSpy } = createUseCase(undefined, undefined, {
+        superJson: timeoutSuperJson,
+      });
+      performSpy.mockImplementation(performUntilCancelled);
+      const controller = new AbortController();
+
+      const result = usecase.perform(undefined, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(result).rejects.toEqual(new RequestFetchError('cancel'));
+    });
+  });
 });
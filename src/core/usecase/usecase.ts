@@ -1,13 +1,10 @@
-import type {
-  NormalizedSuperJsonDocument,
-  SecurityValues,
-} from '@superfaceai/ast';
 import {
   BackoffKind,
   isApiKeySecurityValues,
   isBasicAuthSecurityValues,
   isBearerTokenSecurityValues,
   isDigestSecurityValues,
+  isUseCaseDefinitionNode,
   OnFail,
 } from '@superfaceai/ast';
 
@@ -16,41 +13,78 @@ import type {
   ICrypto,
   IFileSystem,
   ILogger,
+  ITimeout,
   ITimers,
   IUseCase,
   LogFunction,
+  PaginateOptions,
   PerformError,
 } from '../../interfaces';
 import { PerformOptions } from '../../interfaces';
 import type { ISandbox } from '../../interfaces/sandbox';
 import type { NonPrimitive, Result, SuperCache, Variables } from '../../lib';
-import { UnexpectedError } from '../../lib';
+import { ok, UnexpectedError } from '../../lib';
+import type {
+  NormalizedBackoffPolicy,
+  NormalizedRoutingPolicy,
+  NormalizedSuperJsonDocument,
+  SecurityValues,
+} from '../../schema-tools/superjson/superjson';
+import {
+  isAwsSignatureV4SecurityValues,
+  isHmacSecurityValues,
+  isOAuth2ClientCredentialsSecurityValues,
+  isOAuth2RefreshTokenSecurityValues,
+  JitterBackoffKind,
+  RoutingKind,
+} from '../../schema-tools/superjson/superjson';
+import {
+  invalidBackoffEntryError,
+  paginationItemsNotFoundError,
+  PerformTimeoutError,
+  RequestFetchError,
+  usecaseNotPaginatedError,
+} from '../errors';
 import type {
   Events,
   FailurePolicy,
   Interceptable,
   InterceptableMetadata,
+  ProviderRouting,
   UsecaseInfo,
 } from '../events';
 import {
   AbortPolicy,
   Backoff,
+  BulkheadPolicy,
   CircuitBreakerPolicy,
   ConstantBackoff,
+  DecorrelatedJitterBackoff,
+  EqualJitterBackoff,
   eventInterceptor,
   ExponentialBackoff,
   FailurePolicyRouter,
+  FullJitterBackoff,
+  LatencyRouting,
+  leaveQueue,
+  RequestHedging,
   RetryPolicy,
+  RoundRobinRouting,
+  WeightedRouting,
 } from '../events';
 import type { AuthCache, IFetch } from '../interpreter';
 import type { ProfileBase } from '../profile';
-import type { IBoundProfileProvider } from '../profile-provider';
+import type {
+  IBoundProfileProvider,
+  IBoundProviderStore,
+} from '../profile-provider';
 import {
   bindProfileProvider,
   ProfileProviderConfiguration,
 } from '../profile-provider';
 import type { Provider, ProviderConfiguration } from '../provider';
 import { resolveProvider } from '../provider';
+import { resolvePaginationFields } from './pagination';
 
 const DEBUG_NAMESPACE = 'usecase';
 
@@ -74,7 +108,11 @@ export function resolveSecurityValues(
       isBasicAuthSecurityValues(securityValue) ||
       isBearerTokenSecurityValues(securityValue) ||
       isApiKeySecurityValues(securityValue) ||
-      isDigestSecurityValues(securityValue)
+      isDigestSecurityValues(securityValue) ||
+      isOAuth2ClientCredentialsSecurityValues(securityValue) ||
+      isOAuth2RefreshTokenSecurityValues(securityValue) ||
+      isAwsSignatureV4SecurityValues(securityValue) ||
+      isHmacSecurityValues(securityValue)
     ) {
       securityValues.push(securityValue);
     } else {
@@ -90,6 +128,23 @@ export type ProviderProvider = {
   getProviderForProfile: (profileId: string) => Promise<Provider>;
 };
 
+/**
+ * Resolves with the first successful result, or with the outcome of `primary` when neither succeeds.
+ */
+async function firstSuccess<T, E>(
+  primary: Promise<Result<T, E>>,
+  secondary: Promise<Result<T, E>>
+): Promise<Result<T, E>> {
+  const success = (result: Promise<Result<T, E>>) =>
+    result.then(value => (value.isOk() ? value : Promise.reject(value)));
+
+  try {
+    return await Promise.any([success(primary), success(secondary)]);
+  } catch {
+    return primary;
+  }
+}
+
 export abstract class UseCaseBase implements Interceptable {
   public metadata: InterceptableMetadata;
 
@@ -111,7 +166,8 @@ export abstract class UseCaseBase implements Interceptable {
       expiresAt: number;
     }>,
     private readonly fetchInstance: IFetch & Interceptable & AuthCache,
-    private readonly logger?: ILogger
+    private readonly logger?: ILogger,
+    private readonly boundProviderStore?: IBoundProviderStore
   ) {
     this.metadata = {
       usecase: name,
@@ -153,7 +209,8 @@ export abstract class UseCaseBase implements Interceptable {
   private async rebind(
     cacheKey: string,
     providerConfig: ProviderConfiguration,
-    profileProviderConfig: ProfileProviderConfiguration
+    profileProviderConfig: ProfileProviderConfiguration,
+    refresh = false
   ): Promise<IBoundProfileProvider> {
     const { provider, expiresAt } =
       await this.boundProfileProviderCache.getCached(cacheKey, () =>
@@ -169,13 +226,20 @@ export abstract class UseCaseBase implements Interceptable {
           this.fileSystem,
           this.crypto,
           this.fetchInstance,
-          this.logger
+          this.logger,
+          this.boundProviderStore !== undefined
+            ? { store: this.boundProviderStore, cacheKey, refresh }
+            : undefined
         )
       );
     const now = Math.floor(this.timers.now() / 1000);
     if (expiresAt < now) {
+      // keep serving the expired provider while a new one is bound in the background
       this.boundProfileProviderCache.invalidate(cacheKey);
-      void this.rebind(cacheKey, providerConfig, profileProviderConfig);
+      this.rebind(cacheKey, providerConfig, profileProviderConfig, true).catch(
+        (error: unknown) =>
+          this.log?.('Failed to refresh expired bind: %O', error)
+      );
     }
 
     return provider;
@@ -191,7 +255,8 @@ export abstract class UseCaseBase implements Interceptable {
   >(
     input?: TInput,
     parameters?: Record<string, string>,
-    security?: SecurityValues[]
+    security?: SecurityValues[],
+    signal?: AbortSignal
   ): Promise<Result<TOutput, PerformError | UnexpectedError>> {
     if (this.boundProfileProvider === undefined) {
       throw new UnexpectedError(
@@ -204,7 +269,8 @@ export abstract class UseCaseBase implements Interceptable {
       this.name,
       input,
       parameters,
-      security
+      security,
+      signal
     );
   }
 
@@ -226,10 +292,437 @@ export abstract class UseCaseBase implements Interceptable {
     return this.performBoundUsecase(
       input,
       options?.parameters,
-      resolveSecurityValues(options?.security)
+      resolveSecurityValues(options?.security),
+      options?.signal
     );
   }
 
+  /**
+   * Binds the provider and performs the usecase, yielding partial outcomes of the map followed by the final outcome.
+   *
+   * The failure policy router is consulted only before the stream starts, as partial outcomes already yielded cannot be taken back.
+   * Hedging and the perform timeout do not apply.
+   */
+  protected async *bindAndPerformStream<
+    TInput extends NonPrimitive | undefined = Record<
+      string,
+      Variables | undefined
+    >,
+    TOutput = unknown
+  >(
+    input?: TInput,
+    options?: PerformOptions
+  ): AsyncGenerator<
+    Result<TOutput, PerformError | UnexpectedError>,
+    void,
+    undefined
+  > {
+    await this.bind({
+      ...options,
+      provider: await this.resolveStreamProvider(options),
+    });
+
+    this.log?.('Bound provider: %O', this.boundProfileProvider);
+
+    if (this.boundProfileProvider === undefined) {
+      throw new UnexpectedError(
+        'Unreachable code reached: BoundProfileProvider is undefined.'
+      );
+    }
+
+    yield* this.boundProfileProvider.performStream<TInput, TOutput>(
+      this.name,
+      input,
+      options?.parameters,
+      resolveSecurityValues(options?.security),
+      options?.signal
+    );
+  }
+
+  /**
+   * Consults the failure policy router before a stream, like `pre-bind-and-perform` hooks do before a perform.
+   *
+   * Returns the provider to bind the stream to, throws when the router aborts the execution.
+   */
+  private async resolveStreamProvider(
+    options?: PerformOptions
+  ): Promise<string | Provider | undefined> {
+    this.toggleFailover(options?.provider === undefined);
+    if (options?.provider !== undefined) {
+      return options.provider;
+    }
+
+    const router =
+      this.events.hookContext[`${this.profile.configuration.id}/${this.name}`]
+        .router;
+    const info = {
+      time: this.timers.now(),
+      registryCacheAge: 0,
+      checkFailoverRestore: true,
+      signal: options?.signal,
+    };
+
+    const routedProvider = router.routeExecution(info);
+    if (routedProvider !== undefined) {
+      return routedProvider;
+    }
+
+    const currentProvider = router.getCurrentProvider();
+    if (currentProvider === undefined) {
+      return undefined;
+    }
+
+    const beforeResolution = router.beforeExecution(info);
+    const resolution = await leaveQueue(beforeResolution);
+    switch (resolution.kind) {
+      case 'continue':
+      case 'backoff':
+        // slots are held by requests, the stream only waits for its turn
+        if (beforeResolution.kind === 'queue') {
+          router.startExecution(currentProvider, info);
+          router.finishExecution(currentProvider, info);
+        }
+
+        return undefined;
+
+      case 'switch-provider':
+        return resolution.provider;
+
+      case 'abort':
+        // cancelled while waiting in a queue, the provider did not fail
+        if (options?.signal?.aborted === true) {
+          throw new RequestFetchError('cancel');
+        }
+
+        throw resolution.reason.toError();
+
+      case 'recache':
+        throw new UnexpectedError('Not Implemented');
+    }
+  }
+
+  /**
+   * Performs the usecase page by page like `perform`, yielding outcomes of the pages or items of their list field.
+   *
+   * Stops when the result has no next cursor, when the cursor repeats, after `maxPages` pages or after the first error.
+   */
+  protected async *bindAndPaginate<
+    TInput extends NonPrimitive | undefined = Record<
+      string,
+      Variables | undefined
+    >,
+    TOutput = unknown
+  >(
+    input?: TInput,
+    options?: PaginateOptions
+  ): AsyncGenerator<
+    Result<TOutput, PerformError | UnexpectedError>,
+    void,
+    undefined
+  > {
+    const fields = resolvePaginationFields(this.profile.ast, this.name);
+    if (fields === undefined) {
+      throw usecaseNotPaginatedError(this.name, this.profile.configuration.id);
+    }
+    const itemsField = fields.items;
+    if (options?.items === true && itemsField === undefined) {
+      throw paginationItemsNotFoundError(this.name);
+    }
+
+    const seenCursors = new Set<unknown>();
+    let pageInput: NonPrimitive | undefined = input;
+    for (let page = 1; ; page++) {
+      // every page is performed like a separate perform, so failover must be toggled before each of them
+      this.toggleFailover(options?.provider === undefined);
+      const result = await this.bindAndPerformWithTimeout<
+        NonPrimitive | undefined,
+        TOutput
+      >(pageInput, options);
+      if (result.isErr()) {
+        yield result;
+
+        return;
+      }
+
+      const pageOutput = result.value as unknown as NonPrimitive | undefined;
+      if (options?.items === true && itemsField !== undefined) {
+        const items = pageOutput?.[itemsField];
+        for (const item of Array.isArray(items) ? items : []) {
+          yield ok(item as TOutput);
+        }
+      } else {
+        yield result;
+      }
+
+      const cursor = pageOutput?.[fields.cursorResult];
+      if (
+        cursor === undefined ||
+        cursor === null ||
+        cursor === '' ||
+        seenCursors.has(cursor) ||
+        (options?.maxPages !== undefined && page >= options.maxPages)
+      ) {
+        return;
+      }
+      seenCursors.add(cursor);
+      pageInput = { ...input, [fields.cursorInput]: cursor };
+    }
+  }
+
+  /**
+   * Performs the usecase like `bindAndPerformWithHedging`, failing with `PerformTimeoutError` when it does not finish in time.
+   *
+   * Once the timeout elapses, the perform is cancelled through its signal, so that no more requests, retries or failovers are started.
+   */
+  protected async bindAndPerformWithTimeout<
+    TInput extends NonPrimitive | undefined = Record<
+      string,
+      Variables | undefined
+    >,
+    TOutput = unknown
+  >(
+    input?: TInput,
+    options?: PerformOptions
+  ): Promise<Result<TOutput, PerformError | UnexpectedError>> {
+    const timeout =
+      options?.timeout ??
+      this.superJson?.profiles[this.profile.configuration.id]?.defaults[
+        this.name
+      ]?.timeout;
+    if (timeout === undefined) {
+      return this.bindAndPerformWithHedging(input, options);
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const deadline = this.timers.setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+    const cancel = () => controller.abort();
+    if (options?.signal?.aborted === true) {
+      cancel();
+    }
+    options?.signal?.addEventListener('abort', cancel);
+
+    try {
+      return await this.bindAndPerformWithHedging<TInput, TOutput>(input, {
+        ...options,
+        signal: controller.signal,
+      });
+    } catch (error: unknown) {
+      if (timedOut) {
+        throw new PerformTimeoutError(this.name, timeout);
+      }
+
+      throw error;
+    } finally {
+      this.timers.clearTimeout(deadline);
+      options?.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Performs the usecase like `bindAndPerform`, repeating the perform with the next provider when it takes too long.
+   *
+   * Only safe and idempotent usecases with configured hedging are hedged. The first successful result wins,
+   * the result of the other perform is discarded.
+   */
+  protected async bindAndPerformWithHedging<
+    TInput extends NonPrimitive | undefined = Record<
+      string,
+      Variables | undefined
+    >,
+    TOutput = unknown
+  >(
+    input?: TInput,
+    options?: PerformOptions
+  ): Promise<Result<TOutput, PerformError | UnexpectedError>> {
+    const hookContext =
+      this.events.hookContext[`${this.profile.configuration.id}/${this.name}`];
+    const hedging = hookContext.hedging;
+    if (
+      hedging === undefined ||
+      options?.provider !== undefined ||
+      (this.usecaseSafety !== 'safe' && this.usecaseSafety !== 'idempotent')
+    ) {
+      return this.bindAndPerform(input, options);
+    }
+
+    // each perform has its own signal, so that the slower one can be aborted once the other succeeds
+    const primaryController = new AbortController();
+    const hedgeController = new AbortController();
+    const cancel = () => {
+      primaryController.abort();
+      hedgeController.abort();
+    };
+    if (options?.signal?.aborted === true) {
+      cancel();
+    }
+    options?.signal?.addEventListener('abort', cancel);
+
+    try {
+      const startedAt = this.timers.now();
+      const primary = this.bindAndPerform<TInput, TOutput>(input, {
+        ...options,
+        signal: primaryController.signal,
+      });
+      void primary.then(
+        result => {
+          if (result.isOk()) {
+            hedging.recordLatency(this.timers.now() - startedAt);
+            hedgeController.abort();
+          }
+        },
+        () => undefined
+      );
+
+      let hedgeTimeout: ITimeout | undefined;
+      const hedgeDue = new Promise<boolean>(resolve => {
+        hedgeTimeout = this.timers.setTimeout(
+          () => resolve(true),
+          hedging.delay
+        );
+      });
+      const settled = primary.then(
+        () => false,
+        () => false
+      );
+      if (!(await Promise.race([settled, hedgeDue]))) {
+        if (hedgeTimeout !== undefined) {
+          this.timers.clearTimeout(hedgeTimeout);
+        }
+
+        return await primary;
+      }
+
+      // hedging follows failover, it is not done when failover is not allowed
+      const primaryProvider = hookContext.router.getCurrentProvider();
+      const hedgeProvider =
+        primaryProvider !== undefined
+          ? hookContext.router.getNextProvider(primaryProvider)
+          : undefined;
+      if (hedgeProvider === undefined) {
+        return await primary;
+      }
+
+      this.log?.(
+        'Perform is taking longer than %d ms, hedging with provider %s',
+        hedging.delay,
+        hedgeProvider
+      );
+      const hedge = this.performWithProvider<TInput, TOutput>(
+        hedgeProvider,
+        input,
+        { ...options, signal: hedgeController.signal }
+      );
+      void hedge.then(
+        result => {
+          if (result.isOk()) {
+            primaryController.abort();
+          }
+        },
+        () => undefined
+      );
+
+      return await firstSuccess(primary, hedge);
+    } finally {
+      options?.signal?.removeEventListener('abort', cancel);
+    }
+  }
+
+  /**
+   * Performs the usecase with the provider without binding it as the current provider.
+   *
+   * Requests of the perform go through the failure policies of the provider, but the perform is never failed over.
+   * The perform does not run `bind-and-perform` and `perform` hooks, its outcome is reported through `success` and `failure` events.
+   */
+  private async performWithProvider<
+    TInput extends NonPrimitive | undefined,
+    TOutput
+  >(
+    provider: string,
+    input?: TInput,
+    options?: PerformOptions
+  ): Promise<Result<TOutput, PerformError | UnexpectedError>> {
+    const providerConfig = resolveProvider({
+      provider,
+      profileId: this.profile.configuration.id,
+      superJson: this.superJson,
+    }).configuration;
+
+    const boundProfileProvider = await this.rebind(
+      this.profile.configuration.cacheKey + providerConfig.cacheKey,
+      providerConfig,
+      new ProfileProviderConfiguration(
+        options?.mapRevision,
+        options?.mapVariant
+      )
+    );
+
+    const startedAt = this.timers.now();
+    let result: Result<TOutput, PerformError | UnexpectedError>;
+    try {
+      result = await boundProfileProvider.perform<TInput, TOutput>(
+        this.name,
+        input,
+        options?.parameters,
+        resolveSecurityValues(options?.security),
+        options?.signal
+      );
+    } catch (error: unknown) {
+      this.reportOutcome(provider, false, options?.signal);
+      throw error;
+    }
+    this.reportOutcome(provider, result.isOk(), options?.signal);
+    if (result.isOk()) {
+      this.events.hookContext[
+        `${this.profile.configuration.id}/${this.name}`
+      ]?.router.afterSuccess(
+        {
+          time: this.timers.now(),
+          registryCacheAge: 0,
+          duration: this.timers.now() - startedAt,
+        },
+        provider
+      );
+    }
+
+    return result;
+  }
+
+  /** Emits `success` or `failure` event of a perform which does not run `bind-and-perform` hooks */
+  private reportOutcome(
+    provider: string,
+    success: boolean,
+    signal?: AbortSignal
+  ): void {
+    // cancelled performs, such as the slower one of hedged performs, did not fail
+    if (!success && signal?.aborted === true) {
+      return;
+    }
+
+    const context = {
+      time: new Date(this.timers.now()),
+      profile: this.profile.configuration.id,
+      usecase: this.name,
+      provider,
+    };
+    if (success) {
+      void this.events.emit('success', [context]);
+    } else {
+      void this.events.emit('failure', [context]);
+    }
+  }
+
+  private get usecaseSafety(): UsecaseInfo['usecaseSafety'] {
+    const definition = this.profile.ast.definitions
+      .filter(isUseCaseDefinitionNode)
+      .find(definition => definition.useCaseName === this.name);
+
+    return definition?.safety;
+  }
+
   private checkWarnFailoverMisconfiguration() {
     const profileId = this.profile.configuration.id;
 
@@ -272,6 +765,7 @@ export abstract class UseCaseBase implements Interceptable {
     const profileSettings = this.superJson?.profiles[profileId];
 
     const key = `${profileId}/${this.name}`;
+    const hedgingConfig = profileSettings?.defaults[this.name]?.hedging;
 
     if (this.events.hookContext[key] === undefined) {
       this.events.hookContext[key] = {
@@ -280,9 +774,23 @@ export abstract class UseCaseBase implements Interceptable {
           // Use priority only when provider failover is enabled
           profileSettings?.defaults[this.name]?.providerFailover === true
             ? profileSettings.priority
-            : []
+            : [],
+          profileSettings?.routing !== undefined
+            ? this.instantiateRouting(
+                profileSettings.routing,
+                profileSettings.priority
+              )
+            : undefined
         ),
         queuedAction: undefined,
+        hedging:
+          hedgingConfig !== undefined
+            ? new RequestHedging(
+                hedgingConfig.percentile ?? RequestHedging.DEFAULT_PERCENTILE,
+                hedgingConfig.initialDelay ??
+                  RequestHedging.DEFAULT_INITIAL_DELAY
+              )
+            : undefined,
       };
     }
   }
@@ -298,38 +806,31 @@ export abstract class UseCaseBase implements Interceptable {
     const usecaseInfo: UsecaseInfo = {
       profileId,
       usecaseName: this.name,
-      // TODO: Somehow know safety
-      usecaseSafety: 'unsafe',
+      usecaseSafety: this.usecaseSafety,
     };
 
     const profileSettings = this.superJson?.profiles[profileId];
-    const retryPolicyConfig = profileSettings?.providers[provider]?.defaults[
-      this.name
-    ]?.retryPolicy ?? { kind: OnFail.NONE };
+    if (profileSettings?.defaults[this.name]?.retryUnsafe === true) {
+      usecaseInfo.retryUnsafe = true;
+    }
+    const usecaseDefaults =
+      profileSettings?.providers[provider]?.defaults[this.name];
+    const retryPolicyConfig = usecaseDefaults?.retryPolicy ?? {
+      kind: OnFail.NONE,
+    };
+    const concurrencyLimitConfig = usecaseDefaults?.concurrencyLimit;
 
     let policy: FailurePolicy;
     if (retryPolicyConfig.kind === OnFail.CIRCUIT_BREAKER) {
-      let backoff: ExponentialBackoff | undefined = new ExponentialBackoff(
-        Backoff.DEFAULT_INITIAL,
-        ExponentialBackoff.DEFAULT_BASE
-      );
-      if (
-        retryPolicyConfig.backoff?.kind &&
-        retryPolicyConfig.backoff?.kind === BackoffKind.EXPONENTIAL
-      ) {
-        backoff = new ExponentialBackoff(
-          retryPolicyConfig.backoff.start ?? Backoff.DEFAULT_INITIAL,
-          retryPolicyConfig.backoff.factor ?? ExponentialBackoff.DEFAULT_BASE
-        );
-      }
-
       policy = new CircuitBreakerPolicy(
         usecaseInfo,
         retryPolicyConfig.maxContiguousRetries ??
           RetryPolicy.DEFAULT_MAX_CONTIGUOUS_RETRIES,
         retryPolicyConfig.openTime ?? CircuitBreakerPolicy.DEFAULT_OPEN_TIME,
         retryPolicyConfig.requestTimeout ?? RetryPolicy.DEFAULT_REQUEST_TIMEOUT,
-        backoff
+        this.instantiateBackoff(retryPolicyConfig.backoff),
+        retryPolicyConfig.maxRetryAfter,
+        retryPolicyConfig.retryOn
       );
     } else if (retryPolicyConfig.kind === OnFail.SIMPLE) {
       policy = new RetryPolicy(
@@ -337,16 +838,94 @@ export abstract class UseCaseBase implements Interceptable {
         retryPolicyConfig.maxContiguousRetries ??
           RetryPolicy.DEFAULT_MAX_CONTIGUOUS_RETRIES,
         retryPolicyConfig.requestTimeout ?? RetryPolicy.DEFAULT_REQUEST_TIMEOUT,
-        new ConstantBackoff(0)
+        new ConstantBackoff(0),
+        retryPolicyConfig.maxRetryAfter,
+        retryPolicyConfig.retryOn
       );
     } else if (retryPolicyConfig.kind === OnFail.NONE) {
-      policy = new AbortPolicy(usecaseInfo);
+      policy = new AbortPolicy(usecaseInfo, retryPolicyConfig.retryOn);
     } else {
       throw new UnexpectedError('Unreachable point reached.');
     }
 
+    if (concurrencyLimitConfig !== undefined) {
+      policy = new BulkheadPolicy(
+        usecaseInfo,
+        policy,
+        this.timers,
+        concurrencyLimitConfig.maxConcurrent,
+        concurrencyLimitConfig.maxQueued,
+        concurrencyLimitConfig.queueTimeout
+      );
+    }
+
     return policy;
   }
+
+  private instantiateRouting(
+    routingConfig: NormalizedRoutingPolicy,
+    providers: string[]
+  ): ProviderRouting | undefined {
+    switch (routingConfig.kind) {
+      case RoutingKind.PRIORITY:
+        return undefined;
+      case RoutingKind.ROUND_ROBIN:
+        return new RoundRobinRouting(providers);
+      case RoutingKind.WEIGHTED:
+        return new WeightedRouting(
+          providers,
+          routingConfig.weights ?? {},
+          this.crypto
+        );
+      case RoutingKind.LATENCY:
+        return new LatencyRouting(
+          providers,
+          routingConfig.smoothing ?? LatencyRouting.DEFAULT_SMOOTHING
+        );
+    }
+  }
+
+  private instantiateBackoff(backoffConfig: NormalizedBackoffPolicy): Backoff {
+    const initial = backoffConfig.start ?? Backoff.DEFAULT_INITIAL;
+    const maximum = backoffConfig.maximum ?? Backoff.DEFAULT_MAXIMUM;
+
+    switch (backoffConfig.kind) {
+      case BackoffKind.EXPONENTIAL:
+        return new ExponentialBackoff(
+          initial,
+          backoffConfig.factor ?? ExponentialBackoff.DEFAULT_BASE,
+          undefined,
+          maximum
+        );
+      case JitterBackoffKind.FULL_JITTER:
+        return new FullJitterBackoff(
+          this.crypto,
+          initial,
+          backoffConfig.factor ?? ExponentialBackoff.DEFAULT_BASE,
+          undefined,
+          maximum
+        );
+      case JitterBackoffKind.EQUAL_JITTER:
+        return new EqualJitterBackoff(
+          this.crypto,
+          initial,
+          backoffConfig.factor ?? ExponentialBackoff.DEFAULT_BASE,
+          undefined,
+          maximum
+        );
+      case JitterBackoffKind.DECORRELATED_JITTER:
+        return new DecorrelatedJitterBackoff(
+          this.crypto,
+          initial,
+          backoffConfig.factor ?? DecorrelatedJitterBackoff.DEFAULT_MULTIPLIER,
+          maximum
+        );
+      default:
+        throw invalidBackoffEntryError(
+          (backoffConfig as { kind: string }).kind
+        );
+    }
+  }
 }
 
 export class UseCase extends UseCaseBase implements IUseCase {
@@ -365,6 +944,32 @@ export class UseCase extends UseCaseBase implements IUseCase {
     // including provider failover
     this.toggleFailover(options?.provider === undefined);
 
-    return this.bindAndPerform(input, options);
+    return this.bindAndPerformWithTimeout(input, options);
+  }
+
+  public performStream<
+    TInput extends NonPrimitive | undefined = Record<
+      string,
+      Variables | undefined
+    >,
+    TOutput = unknown
+  >(
+    input?: TInput,
+    options?: PerformOptions
+  ): AsyncIterable<Result<TOutput, PerformError | UnexpectedError>> {
+    return this.bindAndPerformStream(input, options);
+  }
+
+  public paginate<
+    TInput extends NonPrimitive | undefined = Record<
+      string,
+      Variables | undefined
+    >,
+    TOutput = unknown
+  >(
+    input?: TInput,
+    options?: PaginateOptions
+  ): AsyncIterable<Result<TOutput, PerformError | UnexpectedError>> {
+    return this.bindAndPaginate(input, options);
   }
 }
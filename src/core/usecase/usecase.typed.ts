@@ -1,4 +1,8 @@
-import type { PerformError, PerformOptions } from '../../interfaces';
+import type {
+  PaginateOptions,
+  PerformError,
+  PerformOptions,
+} from '../../interfaces';
 import type { NonPrimitive, Result, UnexpectedError } from '../../lib';
 import { UseCaseBase } from './usecase';
 
@@ -15,6 +19,20 @@ export class TypedUseCase<
     // including provider failover
     this.toggleFailover(options?.provider === undefined);
 
-    return this.bindAndPerform(input, options);
+    return this.bindAndPerformWithTimeout(input, options);
+  }
+
+  public performStream(
+    input: TInput,
+    options?: PerformOptions
+  ): AsyncIterable<Result<TOutput, PerformError | UnexpectedError>> {
+    return this.bindAndPerformStream(input, options);
+  }
+
+  public paginate(
+    input: TInput,
+    options?: PaginateOptions
+  ): AsyncIterable<Result<TOutput, PerformError | UnexpectedError>> {
+    return this.bindAndPaginate(input, options);
   }
 }
@@ -1,5 +1,4 @@
-import type { SecurityValues } from '@superfaceai/ast';
-
+import type { SecurityValues } from '../schema-tools/superjson/superjson';
 import type { IEvents } from './events';
 import type { IProfile } from './profile';
 import type { IProvider } from './provider';
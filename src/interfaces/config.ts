@@ -10,4 +10,18 @@ export interface IConfig {
   superfacePath: string;
   debug: boolean;
   cache: boolean;
+  /** Whether connections to providers are kept open and reused by subsequent requests */
+  httpKeepAlive: boolean;
+  /** Maximum number of open connections to one origin, further requests wait for a free connection */
+  httpMaxSockets: number;
+  /** Maximum number of idle connections kept open to one origin */
+  httpMaxFreeSockets: number;
+  /** Time in milliseconds after which an idle connection is closed */
+  httpKeepAliveTimeout: number;
+  /** Proxy for http requests, may contain credentials for proxy authentication */
+  httpProxy?: string;
+  /** Proxy for https requests, may contain credentials for proxy authentication */
+  httpsProxy?: string;
+  /** Comma-separated hosts which are requested directly, without a proxy */
+  noProxy?: string;
 }
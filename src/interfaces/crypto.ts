@@ -1,4 +1,9 @@
 export interface ICrypto {
-  hashString(input: string, algorithm: 'MD5' | 'sha256'): string;
+  hashString(input: string | Buffer, algorithm: 'MD5' | 'sha256'): string;
+  hmac(
+    key: string | Buffer,
+    input: string | Buffer,
+    algorithm: 'sha256' | 'sha512'
+  ): Buffer;
   randomInt(max: number): number;
 }
@@ -9,5 +9,6 @@ export * from './filesystem';
 export * from './logger';
 export * from './profile';
 export * from './provider';
+export * from './stream';
 export * from './timers';
 export * from './usecase';
@@ -1,4 +1,4 @@
-import type { SecurityValues } from '@superfaceai/ast';
+import type { SecurityValues } from '../schema-tools/superjson/superjson';
 
 export interface IProviderConfiguration {
   name: string;
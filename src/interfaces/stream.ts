@@ -0,0 +1,15 @@
+import type { IDestructible } from './binary';
+import { isDestructible } from './binary';
+
+/**
+ * Response body received incrementally as a sequence of events, such as `text/event-stream` or newline delimited JSON.
+ *
+ * The events can be iterated only once.
+ */
+export interface IEventStream<T = unknown>
+  extends AsyncIterable<T>,
+    IDestructible {}
+
+export function isEventStream(input: unknown): input is IEventStream {
+  return isDestructible(input) && Symbol.asyncIterator in input;
+}
@@ -1,6 +1,5 @@
-import type { SecurityValues } from '@superfaceai/ast';
-
 import type { NonPrimitive, Result, UnexpectedError, Variables } from '../lib';
+import type { SecurityValues } from '../schema-tools/superjson/superjson';
 import type { PerformError } from './errors';
 import type { IProvider } from './provider';
 
@@ -10,6 +9,20 @@ export type PerformOptions = {
   security?: SecurityValues[] | { [id: string]: Omit<SecurityValues, 'id'> };
   mapVariant?: string;
   mapRevision?: string;
+  /** Cancels the perform, the perform then fails with `RequestFetchError` with `cancel` issue */
+  signal?: AbortSignal;
+  /**
+   * Time in milliseconds in which the whole perform must finish, including retries, backoffs and provider failovers,
+   * otherwise it fails with `PerformTimeoutError`. Overrides `timeout` of the usecase defaults in super.json.
+   */
+  timeout?: number;
+};
+
+export type PaginateOptions = PerformOptions & {
+  /** Maximum number of pages to perform, all pages are performed by default */
+  maxPages?: number;
+  /** Yields items of the result list field one by one instead of whole pages */
+  items?: boolean;
 };
 
 export interface IUseCase {
@@ -23,4 +36,36 @@ export interface IUseCase {
     input?: TInput,
     options?: PerformOptions
   ): Promise<Result<TOutput, PerformError | UnexpectedError>>;
+  /**
+   * Performs the usecase, yielding partial outcomes as the provider sends them, such as with `text/event-stream` responses.
+   *
+   * The final outcome is yielded last, unless the map finished without mapping a result after yielding partial outcomes.
+   */
+  performStream<
+    TInput extends NonPrimitive | undefined = Record<
+      string,
+      Variables | undefined
+    >,
+    TOutput = unknown
+  >(
+    input?: TInput,
+    options?: PerformOptions
+  ): AsyncIterable<Result<TOutput, PerformError | UnexpectedError>>;
+  /**
+   * Performs the usecase page by page, passing the cursor of the next page from the result to the input of the next perform.
+   *
+   * The usecase must have one of `cursor`, `pageToken` or `nextPageToken` input fields and one of `nextCursor`, `nextPageToken`
+   * or `cursor` result fields. Pagination stops when there is no next cursor, after `maxPages` pages or after the first error.
+   * Each page is performed like `perform`, including failover and timeout.
+   */
+  paginate<
+    TInput extends NonPrimitive | undefined = Record<
+      string,
+      Variables | undefined
+    >,
+    TOutput = unknown
+  >(
+    input?: TInput,
+    options?: PaginateOptions
+  ): AsyncIterable<Result<TOutput, PerformError | UnexpectedError>>;
 }
@@ -0,0 +1,152 @@
+import { MockTimers } from '../../mock';
+import { SuperCache } from './cache';
+
+describe('SuperCache', () => {
+  it('returns cached value', () => {
+    const cache = new SuperCache<number>();
+    const initializer = jest.fn(() => 1);
+
+    expect(cache.getCached('key', initializer)).toBe(1);
+    expect(cache.getCached('key', initializer)).toBe(1);
+    expect(initializer).toHaveBeenCalledTimes(1);
+  });
+
+  it('reinitializes invalidated value', () => {
+    const cache = new SuperCache<number>();
+    const initializer = jest.fn(() => 1);
+
+    cache.getCached('key', initializer);
+    cache.invalidate('key');
+    cache.getCached('key', initializer);
+
+    expect(initializer).toHaveBeenCalledTimes(2);
+  });
+
+  describe('ttl', () => {
+    it('expires entries after default ttl', () => {
+      const timers = new MockTimers();
+      const cache = new SuperCache<number>({ ttl: 1000, timers });
+      const initializer = jest.fn(() => 1);
+
+      cache.getCached('key', initializer);
+      timers.tick(999);
+      cache.getCached('key', initializer);
+      expect(initializer).toHaveBeenCalledTimes(1);
+
+      timers.tick(1);
+      cache.getCached('key', initializer);
+      expect(initializer).toHaveBeenCalledTimes(2);
+      expect(cache.statistics.expirations).toBe(1);
+    });
+
+    it('uses ttl of the entry over the default one', () => {
+      const timers = new MockTimers();
+      const cache = new SuperCache<number>({ ttl: 1000, timers });
+      const initializer = jest.fn(() => 1);
+
+      cache.getCached('key', initializer, { ttl: 10 });
+      timers.tick(10);
+      cache.getCached('key', initializer);
+
+      expect(initializer).toHaveBeenCalledTimes(2);
+    });
+
+    it('computes ttl of the entry from its value', async () => {
+      const timers = new MockTimers();
+      const cache = new SuperCache<number>({ timers });
+      const initializer = jest.fn(async () => 50);
+
+      await cache.getCached('key', initializer, { ttl: value => value });
+      timers.tick(49);
+      await cache.getCached('key', initializer);
+      expect(initializer).toHaveBeenCalledTimes(1);
+
+      timers.tick(1);
+      await cache.getCached('key', initializer);
+      expect(initializer).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('maxEntries', () => {
+    it('evicts least recently used entry', () => {
+      const cache = new SuperCache<string>({ maxEntries: 2 });
+
+      cache.getCached('a', () => 'a');
+      cache.getCached('b', () => 'b');
+      // access makes `a` the most recently used entry
+      cache.getCached('a', () => 'a');
+      cache.getCached('c', () => 'c');
+
+      expect(cache.getCached('a', () => 'new a')).toBe('a');
+      expect(cache.getCached('b', () => 'new b')).toBe('new b');
+      expect(cache.statistics.evictions).toBe(2);
+      expect(cache.statistics.size).toBe(2);
+    });
+  });
+
+  describe('async initializer', () => {
+    it('runs initializer once for concurrent calls', async () => {
+      const cache = new SuperCache<number>();
+      const initializer = jest.fn(async () => 1);
+
+      const results = await Promise.all([
+        cache.getCached('key', initializer),
+        cache.getCached('key', initializer),
+      ]);
+
+      expect(results).toEqual([1, 1]);
+      expect(initializer).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not cache rejected initializer', async () => {
+      const cache = new SuperCache<number>();
+      const initializer = jest
+        .fn<Promise<number>, []>()
+        .mockRejectedValueOnce(new Error('failed'))
+        .mockResolvedValueOnce(1);
+
+      await expect(cache.getCached('key', initializer)).rejects.toThrow(
+        'failed'
+      );
+      await expect(cache.getCached('key', initializer)).resolves.toBe(1);
+    });
+
+    it('does not store value invalidated while pending', async () => {
+      const cache = new SuperCache<number>();
+
+      const pending = cache.getCached('key', async () => 1);
+      cache.invalidate('key');
+      await pending;
+
+      expect(cache.statistics.size).toBe(0);
+    });
+  });
+
+  describe('statistics', () => {
+    it('reports hits and misses', () => {
+      const onCacheAccess = jest.fn();
+      const cache = new SuperCache<number>({ observer: { onCacheAccess } });
+
+      cache.getCached('key', () => 1);
+      cache.getCached('key', () => 1);
+
+      expect(cache.statistics).toEqual({
+        hits: 1,
+        misses: 1,
+        evictions: 0,
+        expirations: 0,
+        size: 1,
+      });
+      expect(onCacheAccess).toHaveBeenNthCalledWith(1, {
+        kind: 'miss',
+        cacheKey: 'key',
+        statistics: expect.objectContaining({ misses: 1 }),
+      });
+      expect(onCacheAccess).toHaveBeenNthCalledWith(2, {
+        kind: 'hit',
+        cacheKey: 'key',
+        statistics: expect.objectContaining({ hits: 1 }),
+      });
+    });
+  });
+});
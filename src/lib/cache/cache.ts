@@ -1,34 +1,181 @@
+import type { ITimers } from '../../interfaces';
+
+export type CacheStatistics = {
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+  size: number;
+};
+
+export type CacheAccess = {
+  kind: 'hit' | 'miss' | 'eviction' | 'expiration';
+  cacheKey: string;
+  statistics: CacheStatistics;
+};
+
+export interface ICacheObserver {
+  onCacheAccess(access: CacheAccess): void;
+}
+
+export type SuperCacheOptions = {
+  /** Default time to live of entries in milliseconds. Entries never expire when not set. */
+  ttl?: number;
+  /** Maximum number of entries. When exceeded, the least recently used entry is evicted. */
+  maxEntries?: number;
+  /** Source of current time for TTL, defaults to `Date.now` */
+  timers?: Pick<ITimers, 'now'>;
+  /** Notified on every hit, miss, eviction and expiration */
+  observer?: ICacheObserver;
+};
+
+/** Time to live of an entry in milliseconds, or a function computing it from the initialized value */
+export type CacheEntryTtl<T> = number | ((value: T) => number | undefined);
+
+type CacheEntry<T> = {
+  value: T;
+  expiresAt?: number;
+};
+
 export class SuperCache<T> {
-  private cache: Record<string, T> = {};
+  // Map keeps insertion order, entries are reinserted on access so the first entry is always the least recently used one
+  private cache: Map<string, CacheEntry<T>> = new Map();
+  private pending: Map<string, Promise<T>> = new Map();
+  private stats: Omit<CacheStatistics, 'size'> = {
+    hits: 0,
+    misses: 0,
+    evictions: 0,
+    expirations: 0,
+  };
+
+  constructor(private readonly options: SuperCacheOptions = {}) {}
 
-  public getCached(cacheKey: string, initializer: () => T): T;
-  public getCached(cacheKey: string, initializer: () => Promise<T>): Promise<T>;
+  public get statistics(): CacheStatistics {
+    return { ...this.stats, size: this.cache.size };
+  }
+
+  public getCached(
+    cacheKey: string,
+    initializer: () => T,
+    options?: { ttl?: CacheEntryTtl<T> }
+  ): T;
   public getCached(
     cacheKey: string,
-    initializer: () => T | Promise<T>
+    initializer: () => Promise<T>,
+    options?: { ttl?: CacheEntryTtl<T> }
+  ): Promise<T>;
+  public getCached(
+    cacheKey: string,
+    initializer: () => T | Promise<T>,
+    options?: { ttl?: CacheEntryTtl<T> }
   ): T | Promise<T> {
-    const cached = this.cache[cacheKey];
+    const cached = this.cache.get(cacheKey);
     if (cached !== undefined) {
-      return cached;
+      if (cached.expiresAt !== undefined && cached.expiresAt <= this.now()) {
+        this.cache.delete(cacheKey);
+        this.record('expiration', cacheKey);
+      } else {
+        this.cache.delete(cacheKey);
+        this.cache.set(cacheKey, cached);
+        this.record('hit', cacheKey);
+
+        return cached.value;
+      }
+    }
+
+    // concurrent callers share the result of one initializer
+    const pending = this.pending.get(cacheKey);
+    if (pending !== undefined) {
+      this.record('hit', cacheKey);
+
+      return pending;
     }
 
+    this.record('miss', cacheKey);
+
     const initialized = initializer();
     if (initialized instanceof Promise) {
-      return initialized.then(value => {
-        this.cache[cacheKey] = value;
+      const promise = initialized.then(
+        value => {
+          // do not store the value if the entry was invalidated in the meantime
+          if (this.pending.get(cacheKey) === promise) {
+            this.pending.delete(cacheKey);
+            this.set(cacheKey, value, options?.ttl);
+          }
+
+          return value;
+        },
+        (error: unknown) => {
+          if (this.pending.get(cacheKey) === promise) {
+            this.pending.delete(cacheKey);
+          }
+
+          throw error;
+        }
+      );
+      this.pending.set(cacheKey, promise);
 
-        return value;
-      });
+      return promise;
     } else {
-      this.cache[cacheKey] = initialized;
+      this.set(cacheKey, initialized, options?.ttl);
 
       return initialized;
     }
   }
 
   public invalidate(cacheKey: string): void {
-    if (this.cache[cacheKey] !== undefined) {
-      delete this.cache[cacheKey];
+    this.cache.delete(cacheKey);
+    this.pending.delete(cacheKey);
+  }
+
+  private set(cacheKey: string, value: T, ttl?: CacheEntryTtl<T>): void {
+    const entryTtl =
+      (typeof ttl === 'function' ? ttl(value) : ttl) ?? this.options.ttl;
+    this.cache.delete(cacheKey);
+    this.cache.set(cacheKey, {
+      value,
+      expiresAt: entryTtl !== undefined ? this.now() + entryTtl : undefined,
+    });
+
+    const maxEntries = this.options.maxEntries;
+    if (maxEntries === undefined) {
+      return;
     }
+
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= maxEntries) {
+        break;
+      }
+
+      this.cache.delete(key);
+      this.record('eviction', key);
+    }
+  }
+
+  private now(): number {
+    return this.options.timers?.now() ?? Date.now();
+  }
+
+  private record(kind: CacheAccess['kind'], cacheKey: string): void {
+    switch (kind) {
+      case 'hit':
+        this.stats.hits += 1;
+        break;
+      case 'miss':
+        this.stats.misses += 1;
+        break;
+      case 'eviction':
+        this.stats.evictions += 1;
+        break;
+      case 'expiration':
+        this.stats.expirations += 1;
+        break;
+    }
+
+    this.options.observer?.onCacheAccess({
+      kind,
+      cacheKey,
+      statistics: this.statistics,
+    });
   }
 }
@@ -1,5 +1,7 @@
 import type { ProfileDocumentNode } from '@superfaceai/ast';
 
+import type { ITimers } from '../../interfaces';
+
 export function profileAstId(ast: ProfileDocumentNode): string {
   return ast.header.scope !== undefined
     ? ast.header.scope + '/' + ast.header.name
@@ -26,3 +28,30 @@ export function forceCast<T>(_: unknown): asserts _ is T {}
 export function isSettingsWithAst<T>(input: T): input is T & { ast: unknown } {
   return typeof input === 'object' && input !== null && 'ast' in input;
 }
+
+/** Sleeps for `ms` milliseconds, waking up early when the signal is aborted */
+export async function cancellableSleep(
+  timers: ITimers,
+  ms: number,
+  signal?: AbortSignal
+): Promise<void> {
+  if (signal === undefined) {
+    return timers.sleep(ms);
+  }
+
+  if (signal.aborted || ms <= 0) {
+    return;
+  }
+
+  return new Promise(resolve => {
+    const wake = () => {
+      timers.clearTimeout(timeout);
+      resolve();
+    };
+    const timeout = timers.setTimeout(() => {
+      signal.removeEventListener('abort', wake);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', wake, { once: true });
+  });
+}
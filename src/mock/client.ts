@@ -1,9 +1,7 @@
 import type {
   MapDocumentNode,
-  NormalizedSuperJsonDocument,
   ProfileDocumentNode,
   ProviderJson,
-  SecurityValues,
 } from '@superfaceai/ast';
 import { ProfileId, ProfileVersion } from '@superfaceai/parser';
 
@@ -24,10 +22,12 @@ import {
   Config,
   Events,
   hookMetrics,
+  hookRateLimiter,
   InternalClient,
   MetricReporter,
   ProfileConfiguration,
   ProviderConfiguration,
+  RateLimiter,
   registerHooks,
   resolveProvider,
   resolveSecurityValues,
@@ -38,6 +38,10 @@ import type { ISandbox } from '../interfaces/sandbox';
 import { SuperCache } from '../lib/cache';
 import { NodeCrypto, NodeFetch, NodeFileSystem, NodeLogger } from '../node';
 import { NodeSandbox } from '../node/sandbox/sandbox.node';
+import type {
+  NormalizedSuperJsonDocument,
+  SecurityValues,
+} from '../schema-tools/superjson/superjson';
 import { MockEnvironment } from './environment';
 import type { IPartialFileSystem } from './filesystem';
 import { MockFileSystem } from './filesystem';
@@ -92,12 +96,18 @@ export class MockClient implements ISuperfaceClient {
     });
     this.events = new Events(this.timers, this.logger);
     registerHooks(this.events, this.timers, this.logger);
+    hookRateLimiter(
+      this.events,
+      new RateLimiter(this.timers, this.superJson),
+      this.timers,
+      this.logger
+    );
 
     if (this.config.disableReporting === false) {
       this.metricReporter = new MetricReporter(
         this.config,
         this.timers,
-        new NodeFetch(this.timers),
+        new NodeFetch(this.timers, undefined, this.config),
         this.crypto,
         this.superJson,
         this.logger
@@ -123,7 +133,7 @@ export class MockClient implements ISuperfaceClient {
       fileSystem,
       this.cache,
       this.crypto,
-      new NodeFetch(this.timers),
+      new NodeFetch(this.timers, this.superJson, this.config),
       this.logger
     );
   }
@@ -153,7 +163,7 @@ export class MockClient implements ISuperfaceClient {
         security: securityValues,
       },
       this.crypto,
-      new NodeFetch(this.timers),
+      new NodeFetch(this.timers, this.superJson, this.config),
       this.logger,
       this.events
     );
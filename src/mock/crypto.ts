@@ -0,0 +1,30 @@
+import type { ICrypto } from '../core';
+
+/**
+ * Crypto with readable deterministic results, so tests can assert what was hashed or signed.
+ */
+export class MockCrypto implements ICrypto {
+  /** Values returned by `randomInt` in this order, `0` is returned when there are no more values */
+  public randomValues: number[] = [];
+
+  public hashString(
+    input: string | Buffer,
+    algorithm: 'MD5' | 'sha256'
+  ): string {
+    return `${algorithm}(${input.toString()})`;
+  }
+
+  public hmac(
+    key: string | Buffer,
+    input: string | Buffer,
+    algorithm: 'sha256' | 'sha512'
+  ): Buffer {
+    return Buffer.from(
+      `hmac-${algorithm}(${key.toString()}, ${input.toString()})`
+    );
+  }
+
+  public randomInt(max: number): number {
+    return (this.randomValues.shift() ?? 0) % max;
+  }
+}
@@ -1,4 +1,5 @@
 export * from './client';
+export * from './crypto';
 export * from './environment';
 export * from './filesystem';
 export * from './timers';
@@ -1,4 +1,7 @@
-import type { ProfileDocumentNode } from '@superfaceai/ast';
+import type {
+  FieldDefinitionNode,
+  ProfileDocumentNode,
+} from '@superfaceai/ast';
 
 export const mockProfileDocumentNode = (options?: {
   name?: string;
@@ -10,6 +13,9 @@ export const mockProfileDocumentNode = (options?: {
     label?: string;
   };
   usecaseName?: string;
+  safety?: 'safe' | 'unsafe' | 'idempotent';
+  inputFields?: FieldDefinitionNode[];
+  resultFields?: FieldDefinitionNode[];
 }): ProfileDocumentNode => ({
   kind: 'ProfileDocument',
   astMetadata: {
@@ -40,12 +46,23 @@ export const mockProfileDocumentNode = (options?: {
     {
       kind: 'UseCaseDefinition',
       useCaseName: options?.usecaseName ?? 'Test',
-      safety: 'safe',
+      safety: options?.safety ?? 'safe',
+      ...(options?.inputFields !== undefined
+        ? {
+            input: {
+              kind: 'UseCaseSlotDefinition',
+              value: {
+                kind: 'ObjectDefinition',
+                fields: options.inputFields,
+              },
+            },
+          }
+        : {}),
       result: {
         kind: 'UseCaseSlotDefinition',
         value: {
           kind: 'ObjectDefinition',
-          fields: [
+          fields: options?.resultFields ?? [
             {
               kind: 'FieldDefinition',
               fieldName: 'message',
@@ -1,14 +1,10 @@
-import type {
-  NormalizedSuperJsonDocument,
-  SecurityValues,
-  SuperJsonDocument,
-} from '@superfaceai/ast';
 import debug from 'debug';
 
 import type {
   AuthCache,
   Config,
   IBoundProfileProvider,
+  IBoundProviderStore,
   IConfig,
   ICrypto,
   IEnvironment,
@@ -22,13 +18,17 @@ import type {
   Provider,
 } from '../../core';
 import {
+  CacheAccessEvents,
   Events,
+  FileSystemBoundProviderStore,
   hookMetrics,
+  hookRateLimiter,
   InternalClient,
   loadConfigFromCode,
   loadConfigFromEnv,
   mergeConfigs,
   MetricReporter,
+  RateLimiter,
   registerHooks as registerFailoverHooks,
   resolveProvider,
   resolveSecurityValues,
@@ -38,6 +38,11 @@ import type { ISandbox } from '../../interfaces/sandbox';
 import { SuperCache } from '../../lib';
 import { loadSuperJsonSync } from '../../schema-tools';
 import { normalizeSuperJsonDocument } from '../../schema-tools/superjson/normalize';
+import type {
+  NormalizedSuperJsonDocument,
+  SecurityValues,
+  SuperJsonDocument,
+} from '../../schema-tools/superjson/superjson';
 import { NodeCrypto } from '../crypto';
 import { NodeEnvironment } from '../environment';
 import { NodeFetch } from '../fetch';
@@ -94,7 +99,7 @@ const setupMetricReporter = (
   const metricReporter = new MetricReporter(
     config,
     timers,
-    new NodeFetch(timers),
+    new NodeFetch(timers, undefined, config),
     crypto,
     superJson,
     logger
@@ -125,6 +130,7 @@ export abstract class SuperfaceClientBase {
     expiresAt: number;
   }>;
 
+  protected readonly boundProviderStore: IBoundProviderStore;
   protected readonly config: Config;
   protected readonly sandbox: ISandbox;
   protected readonly timers: ITimers;
@@ -140,6 +146,14 @@ export abstract class SuperfaceClientBase {
        * Flag that can be used to disable caching to filesystem. `true` by default.
        */
       cache?: boolean;
+      /**
+       * Persistent store for registry binds. Defaults to a store in the filesystem cache directory.
+       */
+      boundProviderStore?: IBoundProviderStore;
+      /**
+       * Sandbox evaluating scripts of maps. Defaults to `NodeSandbox`, `NodeWorkerSandbox` evaluates them in a worker thread with limited memory.
+       */
+      sandbox?: ISandbox;
     } & Partial<Omit<IConfig, 'cachePath'>>
   ) {
     if (options?.debug === true) {
@@ -147,12 +161,11 @@ export abstract class SuperfaceClientBase {
     }
 
     const environment = new NodeEnvironment();
-    this.sandbox = new NodeSandbox();
+    this.sandbox = options?.sandbox ?? new NodeSandbox();
     this.crypto = new NodeCrypto();
     this.timers = new NodeTimers();
     this.logger = new NodeLogger();
     this.events = new Events(this.timers, this.logger);
-    this.fetchInstance = new NodeFetch(this.timers);
     this.config = resolveConfig(
       options,
       environment,
@@ -163,7 +176,20 @@ export abstract class SuperfaceClientBase {
     this.boundProfileProviderCache = new SuperCache<{
       provider: IBoundProfileProvider;
       expiresAt: number;
-    }>();
+    }>({
+      timers: this.timers,
+      observer: new CacheAccessEvents('bound-profile-provider', {
+        events: this.events,
+      }),
+    });
+    this.boundProviderStore =
+      options?.boundProviderStore ??
+      new FileSystemBoundProviderStore(
+        this.config,
+        NodeFileSystem,
+        this.crypto,
+        this.logger
+      );
     const superJson = resolveSuperJson(
       this.config.superfacePath,
       options?.superJson,
@@ -172,6 +198,11 @@ export abstract class SuperfaceClientBase {
     this.superJson =
       superJson &&
       normalizeSuperJsonDocument(superJson, environment, this.logger);
+    this.fetchInstance = new NodeFetch(
+      this.timers,
+      this.superJson,
+      this.config
+    );
 
     if (!this.config.disableReporting) {
       setupMetricReporter(
@@ -185,6 +216,12 @@ export abstract class SuperfaceClientBase {
     }
 
     registerFailoverHooks(this.events, this.timers, this.logger);
+    hookRateLimiter(
+      this.events,
+      new RateLimiter(this.timers, this.superJson),
+      this.timers,
+      this.logger
+    );
 
     this.internal = new InternalClient(
       this.events,
@@ -196,7 +233,8 @@ export abstract class SuperfaceClientBase {
       this.boundProfileProviderCache,
       this.crypto,
       this.fetchInstance,
-      this.logger
+      this.logger,
+      this.boundProviderStore
     );
   }
 
@@ -59,7 +59,8 @@ export function createTypedClient<TProfiles extends ProfileUseCases<any, any>>(
         this.crypto,
         this.fetchInstance,
         Object.keys(profileDefinitions[id]),
-        this.logger
+        this.logger,
+        this.boundProviderStore
       );
     }
   };
@@ -1,15 +1,29 @@
-import { createHash, randomInt } from 'crypto';
+import { createHash, createHmac, randomInt } from 'crypto';
 
 import type { ICrypto } from '../../core';
 
 export class NodeCrypto implements ICrypto {
-  public hashString(input: string, algorithm: 'MD5' | 'sha256'): string {
+  public hashString(
+    input: string | Buffer,
+    algorithm: 'MD5' | 'sha256'
+  ): string {
     const hash = createHash(algorithm);
     hash.update(input);
 
     return hash.digest('hex');
   }
 
+  public hmac(
+    key: string | Buffer,
+    input: string | Buffer,
+    algorithm: 'sha256' | 'sha512'
+  ): Buffer {
+    const hmac = createHmac(algorithm, key);
+    hmac.update(input);
+
+    return hmac.digest();
+  }
+
   public randomInt(max: number): number {
     return randomInt(max);
   }
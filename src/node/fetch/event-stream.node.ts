@@ -0,0 +1,112 @@
+import { createInterface } from 'readline';
+import type { Readable } from 'stream';
+
+import type { IEventStream } from '../../interfaces';
+
+/** Event of a `text/event-stream` response */
+export type ServerSentEvent = {
+  /** Event type, `message` unless the event sets it */
+  event: string;
+  /** Data lines of the event joined by a newline */
+  data: string;
+  /** Last event id seen in the stream */
+  id?: string;
+};
+
+async function* parseServerSentEvents(
+  lines: AsyncIterable<string>
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  let data: string[] = [];
+  let event = '';
+  let id: string | undefined;
+
+  for await (const line of lines) {
+    // empty line dispatches the event, events without data are ignored
+    if (line === '') {
+      if (data.length > 0) {
+        yield {
+          event: event !== '' ? event : 'message',
+          data: data.join('\n'),
+          ...(id !== undefined ? { id } : {}),
+        };
+      }
+      data = [];
+      event = '';
+
+      continue;
+    }
+
+    // comment
+    if (line.startsWith(':')) {
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'data':
+        data.push(value);
+        break;
+      case 'event':
+        event = value;
+        break;
+      case 'id':
+        id = value;
+        break;
+    }
+  }
+}
+
+async function* parseNdjson(
+  lines: AsyncIterable<string>
+): AsyncGenerator<unknown, void, undefined> {
+  for await (const line of lines) {
+    if (line.trim() !== '') {
+      yield JSON.parse(line);
+    }
+  }
+}
+
+/**
+ * Response body parsed into events as it is received.
+ *
+ * The underlying stream is destroyed once the iteration finishes or stops early.
+ */
+export class EventStream<T> implements IEventStream<T> {
+  public static fromServerSentEvents(
+    stream: NodeJS.ReadableStream
+  ): EventStream<ServerSentEvent> {
+    return new EventStream(stream, parseServerSentEvents);
+  }
+
+  public static fromNdjson(
+    stream: NodeJS.ReadableStream
+  ): EventStream<unknown> {
+    return new EventStream(stream, parseNdjson);
+  }
+
+  private constructor(
+    private readonly stream: NodeJS.ReadableStream,
+    private readonly parse: (lines: AsyncIterable<string>) => AsyncIterable<T>
+  ) {}
+
+  public async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    const lines = createInterface({ input: this.stream, crlfDelay: Infinity });
+
+    try {
+      yield* this.parse(lines);
+    } finally {
+      lines.close();
+      await this.destroy();
+    }
+  }
+
+  public async destroy(): Promise<void> {
+    (this.stream as NodeJS.ReadableStream & Partial<Readable>).destroy?.();
+  }
+}
@@ -1,10 +1,24 @@
 import FormData from 'form-data';
-import { getLocal } from 'mockttp';
+import type { Mockttp } from 'mockttp';
+import { generateCACertificate, getLocal } from 'mockttp';
 import fetch, { Headers } from 'node-fetch';
-
-import { NetworkFetchError, RequestFetchError } from '../../core';
+import { Readable } from 'stream';
+
+import type { ConnectionPoolContext } from '../../core';
+import {
+  Events,
+  NetworkFetchError,
+  RequestFetchError,
+  withMetadata,
+} from '../../core';
 import { MockTimers } from '../../mock';
+import type {
+  NormalizedSuperJsonDocument,
+  TlsSettings,
+} from '../../schema-tools/superjson/superjson';
+import { BinaryData } from '../filesystem';
 import { NodeTimers } from '../timers';
+import { EventStream } from './event-stream.node';
 import { NodeFetch } from './fetch.node';
 
 jest.mock('node-fetch', () => {
@@ -142,6 +156,67 @@ describe('NodeFetch', () => {
           })
         ).rejects.toEqual(new NetworkFetchError('dns'));
       });
+
+      it('throws on unverified server certificate', async () => {
+        jest.mocked(fetch).mockRejectedValue({
+          type: 'system',
+          code: 'SELF_SIGNED_CERT_IN_CHAIN',
+          errno: '',
+        });
+
+        const fetchInstance = new NodeFetch(timers);
+
+        await expect(
+          fetchInstance.fetch(`${mockServer.url}/test`, {
+            method: 'GET',
+            timeout: 2000,
+          })
+        ).rejects.toEqual(new NetworkFetchError('unsigned-ssl'));
+      });
+    });
+
+    describe('cancellation', () => {
+      it('rejects without request when signal is already aborted', async () => {
+        jest
+          .mocked(fetch)
+          .mockImplementation(jest.requireActual('node-fetch').default);
+
+        const endpoint = await mockServer.forGet('/test').thenJson(200, {});
+        const controller = new AbortController();
+        controller.abort();
+        const nodeFetch = new NodeFetch(timers);
+
+        await expect(
+          nodeFetch.fetch(`${mockServer.url}/test`, {
+            method: 'GET',
+            timeout: 2000,
+            signal: controller.signal,
+          })
+        ).rejects.toEqual(new RequestFetchError('cancel'));
+        expect(await endpoint.getSeenRequests()).toHaveLength(0);
+      });
+
+      it('rejects when signal is aborted during request', async () => {
+        jest
+          .mocked(fetch)
+          .mockImplementation(jest.requireActual('node-fetch').default);
+
+        const controller = new AbortController();
+        await mockServer.forGet('/test').thenCallback(() => {
+          controller.abort();
+
+          return new Promise(() => undefined);
+        });
+        const nodeFetch = new NodeFetch(timers);
+
+        await expect(
+          nodeFetch.fetch(`${mockServer.url}/test`, {
+            method: 'GET',
+            timeout: 2000,
+            signal: controller.signal,
+          })
+        ).rejects.toEqual(new RequestFetchError('cancel'));
+      });
     });
 
     describe('when status 204 received', () => {
@@ -252,6 +327,8 @@ describe('NodeFetch', () => {
 
             jest.mocked(fetch).mockResolvedValue({
               headers: new Headers([['content-type', contentType]]),
+              status: 200,
+              body: Readable.from([Buffer.from('foobar')]),
               arrayBuffer: responseArrayBufferMock,
             } as any);
 
@@ -262,12 +339,15 @@ describe('NodeFetch', () => {
             });
           });
 
-          it('should call arrayBuffer', async () => {
-            expect(responseArrayBufferMock).toHaveBeenCalled();
+          it('should not read body into buffer', async () => {
+            expect(responseArrayBufferMock).not.toHaveBeenCalled();
           });
 
-          it('should return instance of Buffer in body', async () => {
-            expect(result.body).toBeInstanceOf(Buffer);
+          it('should return BinaryData streaming the body', async () => {
+            expect(result.body).toBeInstanceOf(BinaryData);
+            expect(
+              (await (result.body as BinaryData).getAllData()).toString()
+            ).toBe('foobar');
           });
         });
       }
@@ -283,6 +363,8 @@ describe('NodeFetch', () => {
 
         jest.mocked(fetch).mockResolvedValue({
           headers: new Headers(),
+          status: 200,
+          body: Readable.from([Buffer.from('foobar')]),
           arrayBuffer: responseArrayBufferMock,
         } as any);
       });
@@ -301,12 +383,15 @@ describe('NodeFetch', () => {
           });
         });
 
-        it('should call arrayBuffer', async () => {
-          expect(responseArrayBufferMock).toHaveBeenCalled();
+        it('should not read body into buffer', async () => {
+          expect(responseArrayBufferMock).not.toHaveBeenCalled();
         });
 
-        it('should return instance of Buffer in body', async () => {
-          expect(result.body).toBeInstanceOf(Buffer);
+        it('should return BinaryData streaming the body', async () => {
+          expect(result.body).toBeInstanceOf(BinaryData);
+          expect(
+            (await (result.body as BinaryData).getAllData()).toString()
+          ).toBe('foobar');
         });
       });
 
@@ -324,13 +409,159 @@ describe('NodeFetch', () => {
           });
         });
 
-        it('should call arrayBuffer', async () => {
-          expect(responseArrayBufferMock).toHaveBeenCalled();
+        it('should not read body into buffer', async () => {
+          expect(responseArrayBufferMock).not.toHaveBeenCalled();
+        });
+
+        it('should return BinaryData streaming the body', async () => {
+          expect(result.body).toBeInstanceOf(BinaryData);
+          expect(
+            (await (result.body as BinaryData).getAllData()).toString()
+          ).toBe('foobar');
+        });
+      });
+    });
+
+    describe('when binary error response received', () => {
+      it('should return instance of Buffer in body', async () => {
+        jest.mocked(fetch).mockResolvedValue({
+          status: 404,
+          headers: new Headers([['content-type', 'application/octet-stream']]),
+          arrayBuffer: jest.fn().mockResolvedValue(Buffer.from('not found')),
+        } as any);
+
+        const fetchInstance = new NodeFetch(timers);
+        const result = await fetchInstance.fetch(`${mockServer.url}/test`, {
+          method: 'GET',
+        });
+
+        expect(result.body).toEqual(Buffer.from('not found'));
+      });
+    });
+
+    describe('when binary response is streamed from server', () => {
+      it('reads the body lazily and releases connection on destroy', async () => {
+        // we want to use actual fetch implementation
+        jest
+          .mocked(fetch)
+          .mockImplementation(jest.requireActual('node-fetch').default);
+        await mockServer
+          .forGet('/file')
+          .always()
+          .thenReply(200, Buffer.alloc(1024 * 1024, 'a'), {
+            'content-type': 'application/octet-stream',
+          });
+
+        const fetchInstance = new NodeFetch(timers);
+        const first = await fetchInstance.fetch(mockServer.urlFor('/file'), {
+          method: 'GET',
+        });
+        const body = first.body as BinaryData;
+
+        expect(body).toBeInstanceOf(BinaryData);
+        expect(body.mimetype).toBe('application/octet-stream');
+        expect(body.name).toBe(mockServer.urlFor('/file'));
+        expect((await body.read(10)).toString()).toBe('aaaaaaaaaa');
+
+        await body.destroy();
+        await expect(body.read(10)).resolves.toHaveLength(0);
+
+        const second = await fetchInstance.fetch(mockServer.urlFor('/file'), {
+          method: 'GET',
+        });
+        await expect(
+          (second.body as BinaryData).getAllData()
+        ).resolves.toHaveLength(1024 * 1024);
+      });
+    });
+
+    describe('when event stream content type received', () => {
+      const collect = async (iterable: AsyncIterable<unknown>) => {
+        const items = [];
+        for await (const item of iterable) {
+          items.push(item);
+        }
+
+        return items;
+      };
+
+      it('should return server-sent events in body', async () => {
+        jest.mocked(fetch).mockResolvedValue({
+          headers: new Headers([['content-type', 'text/event-stream']]),
+          status: 200,
+          body: Readable.from([
+            'data: first\n',
+            'data: line\n\n: comment\nevent: update\nid: 1\ndata: {"a"',
+            ':1}\n\nevent: empty\n\r\ndata:last\n\ndata: incomplete',
+          ]),
+        } as any);
+
+        const fetchInstance = new NodeFetch(timers);
+        const result = await fetchInstance.fetch(`${mockServer.url}/test`, {
+          method: 'GET',
+        });
+
+        expect(result.body).toBeInstanceOf(EventStream);
+        await expect(
+          collect(result.body as EventStream<unknown>)
+        ).resolves.toEqual([
+          { event: 'message', data: 'first\nline' },
+          { event: 'update', data: '{"a":1}', id: '1' },
+          { event: 'message', data: 'last', id: '1' },
+        ]);
+      });
+
+      it('should return parsed lines of NDJSON in body', async () => {
+        jest.mocked(fetch).mockResolvedValue({
+          headers: new Headers([['content-type', 'application/x-ndjson']]),
+          status: 200,
+          body: Readable.from(['{"a":1}\n{"a"', ':2}\n\n']),
+        } as any);
+
+        const fetchInstance = new NodeFetch(timers);
+        const result = await fetchInstance.fetch(`${mockServer.url}/test`, {
+          method: 'GET',
+        });
+
+        await expect(
+          collect(result.body as EventStream<unknown>)
+        ).resolves.toEqual([{ a: 1 }, { a: 2 }]);
+      });
+
+      it('should destroy the stream when iteration stops', async () => {
+        const body = Readable.from(['{"a":1}\n{"a":2}\n']);
+        jest.mocked(fetch).mockResolvedValue({
+          headers: new Headers([['content-type', 'application/x-ndjson']]),
+          status: 200,
+          body,
+        } as any);
+
+        const fetchInstance = new NodeFetch(timers);
+        const result = await fetchInstance.fetch(`${mockServer.url}/test`, {
+          method: 'GET',
         });
+        const events = (result.body as EventStream<unknown>)[
+          Symbol.asyncIterator
+        ]();
+        await events.next();
+        await events.return();
+
+        expect(body.destroyed).toBe(true);
+      });
 
-        it('should return instance of Buffer in body', async () => {
-          expect(result.body).toBeInstanceOf(Buffer);
+      it('should return plain text in body of error response', async () => {
+        jest.mocked(fetch).mockResolvedValue({
+          headers: new Headers([['content-type', 'text/event-stream']]),
+          status: 500,
+          text: jest.fn().mockResolvedValue('failed'),
+        } as any);
+
+        const fetchInstance = new NodeFetch(timers);
+        const result = await fetchInstance.fetch(`${mockServer.url}/test`, {
+          method: 'GET',
         });
+
+        expect(result.body).toBe('failed');
       });
     });
 
@@ -480,5 +711,307 @@ describe('NodeFetch', () => {
         bar: ['a', 'b', 'c'],
       });
     });
+
+    describe('when provider has TLS options', () => {
+      let ca: { key: string; cert: string };
+      let httpsServer: Mockttp;
+
+      const superJsonWithTls = (
+        tls?: TlsSettings,
+        services?: Record<string, { tls?: TlsSettings }>
+      ): NormalizedSuperJsonDocument => ({
+        profiles: {},
+        providers: {
+          acme: { security: [], parameters: {}, tls, services },
+        },
+      });
+
+      beforeAll(async () => {
+        ca = await generateCACertificate();
+      });
+
+      beforeEach(async () => {
+        // we want to use actual fetch implementation
+        jest
+          .mocked(fetch)
+          .mockImplementation(jest.requireActual('node-fetch').default);
+
+        httpsServer = getLocal({ https: ca });
+        await httpsServer.start();
+        await httpsServer.forGet('/test').thenReply(200, 'Ok');
+      });
+
+      afterEach(async () => {
+        await httpsServer.stop();
+      });
+
+      it('rejects server certificate signed by unknown authority', async () => {
+        const fetchInstance = new NodeFetch(timers, superJsonWithTls());
+        fetchInstance.metadata = { provider: 'acme' };
+
+        await expect(
+          fetchInstance.fetch(httpsServer.urlFor('/test'), { method: 'GET' })
+        ).rejects.toEqual(new NetworkFetchError('unsigned-ssl'));
+      });
+
+      it('trusts configured certificate authority', async () => {
+        const fetchInstance = new NodeFetch(
+          timers,
+          superJsonWithTls({ ca: ca.cert, minVersion: 'TLSv1.2' })
+        );
+        fetchInstance.metadata = { provider: 'acme' };
+
+        await expect(
+          fetchInstance.fetch(httpsServer.urlFor('/test'), { method: 'GET' })
+        ).resolves.toMatchObject({ status: 200, body: 'Ok' });
+      });
+
+      it('applies TLS options of the service', async () => {
+        const fetchInstance = new NodeFetch(
+          timers,
+          superJsonWithTls(undefined, { secure: { tls: { ca: ca.cert } } })
+        );
+        fetchInstance.metadata = { provider: 'acme' };
+
+        await expect(
+          fetchInstance.fetch(httpsServer.urlFor('/test'), {
+            method: 'GET',
+            serviceId: 'secure',
+          })
+        ).resolves.toMatchObject({ status: 200 });
+        await expect(
+          fetchInstance.fetch(httpsServer.urlFor('/test'), {
+            method: 'GET',
+            serviceId: 'other',
+          })
+        ).rejects.toEqual(new NetworkFetchError('unsigned-ssl'));
+      });
+
+      it('applies TLS options only to fetches of provider performs', async () => {
+        const fetchInstance = new NodeFetch(
+          timers,
+          superJsonWithTls({ ca: ca.cert })
+        );
+        const performFetch = withMetadata(fetchInstance, { provider: 'acme' });
+
+        await expect(
+          performFetch.fetch(httpsServer.urlFor('/test'), { method: 'GET' })
+        ).resolves.toMatchObject({ status: 200 });
+        // registry fetches use the default agent
+        await expect(
+          fetchInstance.fetch(httpsServer.urlFor('/test'), { method: 'GET' })
+        ).rejects.toEqual(new NetworkFetchError('unsigned-ssl'));
+      });
+    });
+
+    describe('when proxy is configured', () => {
+      let ca: { key: string; cert: string };
+      let httpsProxy: Mockttp;
+
+      beforeAll(async () => {
+        ca = await generateCACertificate();
+      });
+
+      beforeEach(async () => {
+        // we want to use actual fetch implementation
+        jest
+          .mocked(fetch)
+          .mockImplementation(jest.requireActual('node-fetch').default);
+
+        httpsProxy = getLocal({ https: ca });
+        await httpsProxy.start();
+      });
+
+      afterEach(async () => {
+        await httpsProxy.stop();
+      });
+
+      it('sends http request through proxy with credentials', async () => {
+        const endpoint = await mockServer
+          .forGet('http://api.example.test/test')
+          .thenReply(200, 'Ok');
+        const proxyUrl = new URL(mockServer.url);
+        proxyUrl.username = 'user';
+        proxyUrl.password = 'p@ss';
+
+        const fetchInstance = new NodeFetch(timers, undefined, {
+          httpProxy: proxyUrl.href,
+        });
+
+        await expect(
+          fetchInstance.fetch('http://api.example.test/test', {
+            method: 'GET',
+          })
+        ).resolves.toMatchObject({ status: 200, body: 'Ok' });
+        const [request] = await endpoint.getSeenRequests();
+        expect(request.headers['proxy-authorization']).toBe(
+          `Basic ${Buffer.from('user:p@ss').toString('base64')}`
+        );
+      });
+
+      it('tunnels https request through proxy with TLS options of provider', async () => {
+        await httpsProxy
+          .forGet('https://api.example.test/test')
+          .thenReply(200, 'Ok');
+
+        const fetchInstance = new NodeFetch(
+          timers,
+          {
+            profiles: {},
+            providers: {
+              acme: { security: [], parameters: {}, tls: { ca: ca.cert } },
+            },
+          },
+          // the proxy itself is reached over plain http, it accepts both on the same port
+          { httpsProxy: httpsProxy.url.replace('https:', 'http:') }
+        );
+        fetchInstance.metadata = { provider: 'acme' };
+
+        await expect(
+          fetchInstance.fetch('https://api.example.test/test', {
+            method: 'GET',
+          })
+        ).resolves.toMatchObject({ status: 200, body: 'Ok' });
+      });
+
+      it('requests hosts excluded by noProxy directly', async () => {
+        await mockServer.forGet('/test').thenReply(200, 'Ok');
+
+        const fetchInstance = new NodeFetch(timers, undefined, {
+          httpProxy: 'http://localhost:1',
+          noProxy: 'localhost',
+        });
+
+        await expect(
+          fetchInstance.fetch(mockServer.urlFor('/test'), { method: 'GET' })
+        ).resolves.toMatchObject({ status: 200, body: 'Ok' });
+      });
+    });
+
+    describe('when connections are pooled', () => {
+      let poolEvents: ConnectionPoolContext[];
+      const events = new Events(timers);
+      events.on('connection-pool', { priority: 0 }, context => {
+        poolEvents.push(context);
+      });
+
+      beforeEach(async () => {
+        poolEvents = [];
+        // we want to use actual fetch implementation
+        jest
+          .mocked(fetch)
+          .mockImplementation(jest.requireActual('node-fetch').default);
+
+        // node-fetch 2 reports chunked responses as prematurely closed when their connection is handed over to a queued request
+        await mockServer
+          .forGet('/test')
+          .always()
+          .thenReply(200, 'Ok', { 'content-length': '2' });
+      });
+
+      it('reuses idle connection and emits pool statistics', async () => {
+        const fetchInstance = new NodeFetch(timers);
+        fetchInstance.events = events;
+        fetchInstance.metadata = { provider: 'acme' };
+
+        await fetchInstance.fetch(mockServer.urlFor('/test'), {
+          method: 'GET',
+        });
+        await fetchInstance.fetch(mockServer.urlFor('/test'), {
+          method: 'GET',
+        });
+
+        expect(poolEvents).toEqual([
+          expect.objectContaining({
+            provider: 'acme',
+            origin: new URL(mockServer.url).origin,
+            reused: false,
+            activeSockets: 1,
+            freeSockets: 0,
+            pendingRequests: 0,
+          }),
+          expect.objectContaining({
+            provider: 'acme',
+            reused: true,
+            activeSockets: 1,
+            freeSockets: 0,
+          }),
+        ]);
+      });
+
+      it('opens new connection for each request without keep-alive', async () => {
+        const fetchInstance = new NodeFetch(timers, undefined, {
+          httpKeepAlive: false,
+        });
+        fetchInstance.events = events;
+
+        await fetchInstance.fetch(mockServer.urlFor('/test'), {
+          method: 'GET',
+        });
+        await fetchInstance.fetch(mockServer.urlFor('/test'), {
+          method: 'GET',
+        });
+
+        expect(poolEvents.map(event => event.reused)).toEqual([false, false]);
+      });
+
+      it('queues requests over maximum of sockets', async () => {
+        const fetchInstance = new NodeFetch(timers, undefined, {
+          httpMaxSockets: 1,
+        });
+        fetchInstance.events = events;
+
+        await Promise.all([
+          fetchInstance.fetch(mockServer.urlFor('/test'), { method: 'GET' }),
+          fetchInstance.fetch(mockServer.urlFor('/test'), { method: 'GET' }),
+        ]);
+
+        expect(poolEvents).toEqual([
+          expect.objectContaining({ reused: false, pendingRequests: 1 }),
+          expect.objectContaining({ reused: true, activeSockets: 1 }),
+        ]);
+      });
+
+      it('closes connections of least recently used agents', async () => {
+        const fetchInstance = new NodeFetch(timers);
+        fetchInstance.events = events;
+
+        for (let i = 0; i <= 100; i++) {
+          fetchInstance.metadata = { provider: `provider-${i}` };
+          await fetchInstance.fetch(mockServer.urlFor('/test'), {
+            method: 'GET',
+          });
+        }
+        poolEvents = [];
+
+        fetchInstance.metadata = { provider: 'provider-100' };
+        await fetchInstance.fetch(mockServer.urlFor('/test'), {
+          method: 'GET',
+        });
+        fetchInstance.metadata = { provider: 'provider-0' };
+        await fetchInstance.fetch(mockServer.urlFor('/test'), {
+          method: 'GET',
+        });
+
+        expect(poolEvents.map(event => event.reused)).toEqual([true, false]);
+      });
+    });
+  });
+
+  describe('oauth2RefreshTokens', () => {
+    it('does not evict refresh tokens', () => {
+      const fetchInstance = new NodeFetch(timers);
+
+      for (let i = 0; i <= 1000; i++) {
+        fetchInstance.oauth2RefreshTokens.getCached(
+          `oauth-${i}`,
+          () => `refresh-${i}`
+        );
+      }
+
+      expect(
+        fetchInstance.oauth2RefreshTokens.getCached('oauth-0', () => 'revoked')
+      ).toBe('refresh-0');
+    });
   });
 });
@@ -1,5 +1,7 @@
 import { AbortController } from 'abort-controller';
 import FormData from 'form-data';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
 import type { RequestInit, Response } from 'node-fetch';
 import fetch, { Headers } from 'node-fetch';
 import { URLSearchParams } from 'url';
@@ -15,9 +17,15 @@ import type {
   Interceptable,
   InterceptableMetadata,
   ITimers,
+  OAuth2TokenResponse,
 } from '../../core';
 import {
   BINARY_CONTENT_REGEXP,
+  DEFAULT_HTTP_KEEP_ALIVE,
+  DEFAULT_HTTP_KEEP_ALIVE_TIMEOUT,
+  DEFAULT_HTTP_MAX_FREE_SOCKETS,
+  DEFAULT_HTTP_MAX_SOCKETS,
+  EVENT_STREAM_CONTENT,
   FetchParameters,
   getHeaderMulti,
   isBinaryBody,
@@ -28,11 +36,50 @@ import {
   isUrlSearchParamsBody,
   JSON_CONTENT,
   JSON_PROBLEM_CONTENT,
+  NDJSON_CONTENT,
   NetworkFetchError,
   RequestFetchError,
 } from '../../core';
-import { eventInterceptor } from '../../core/events/events';
+import { CacheAccessEvents, eventInterceptor } from '../../core/events/events';
+import type { IConfig } from '../../interfaces';
 import { SuperCache } from '../../lib';
+import type {
+  NormalizedSuperJsonDocument,
+  TlsSettings,
+} from '../../schema-tools/superjson/superjson';
+import { BinaryData } from '../filesystem';
+import { EventStream } from './event-stream.node';
+import { observeConnectionPool, retireAgent } from './pool.node';
+import type { ProxyConfiguration } from './proxy.node';
+import { HttpProxyAgent, HttpsProxyAgent, proxyFor } from './proxy.node';
+
+const DIGEST_CACHE_MAX_ENTRIES = 1000;
+const OAUTH2_CACHE_MAX_ENTRIES = 1000;
+const AGENTS_MAX_ENTRIES = 100;
+/** Codes of errors of certificate verification of the server */
+const UNSIGNED_SSL_ERROR_CODES = [
+  'UNABLE_TO_GET_ISSUER_CERT',
+  'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+  'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+  'SELF_SIGNED_CERT_IN_CHAIN',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'CERT_UNTRUSTED',
+  'CERT_REJECTED',
+  'ERR_TLS_CERT_ALTNAME_INVALID',
+];
+
+export type NodeFetchConfiguration = ProxyConfiguration &
+  Partial<
+    Pick<
+      IConfig,
+      | 'httpKeepAlive'
+      | 'httpMaxSockets'
+      | 'httpMaxFreeSockets'
+      | 'httpKeepAliveTimeout'
+    >
+  >;
 
 export class NodeFetch implements IFetch, Interceptable, AuthCache {
   private static multimapToHeaders(map: HttpMultiMap | undefined): Headers {
@@ -59,6 +106,20 @@ export class NodeFetch implements IFetch, Interceptable, AuthCache {
     return headers;
   }
 
+  /** Event streams of successful responses are parsed as they are received, error responses are read right away */
+  private static isEventStreamContentType(
+    contentType: string[] | undefined,
+    response: Response
+  ): boolean {
+    return (
+      response.status < 400 &&
+      contentType !== undefined &&
+      contentType.some(
+        v => v.includes(EVENT_STREAM_CONTENT) || v.includes(NDJSON_CONTENT)
+      )
+    );
+  }
+
   private static isJsonContentType(
     contentType: string[] | undefined,
     _accept: string[] | undefined
@@ -98,9 +159,37 @@ export class NodeFetch implements IFetch, Interceptable, AuthCache {
 
   public metadata: InterceptableMetadata | undefined;
   public events: Events | undefined;
-  public digest: SuperCache<string> = new SuperCache();
-
-  constructor(private readonly timers: ITimers) {}
+  public digest: SuperCache<string>;
+  public oauth2: SuperCache<OAuth2TokenResponse>;
+  public oauth2RefreshTokens: SuperCache<string>;
+  /**
+   * Agents pooling connections to one origin, with proxy and TLS options of providers and their services
+   *
+   * Map keeps insertion order, agents are reinserted on access so the first agent is always the least recently used one.
+   */
+  private readonly agents: Map<string, HttpAgent> = new Map();
+
+  constructor(
+    private readonly timers: ITimers,
+    private readonly superJson?: NormalizedSuperJsonDocument,
+    private readonly config: NodeFetchConfiguration = {}
+  ) {
+    this.digest = new SuperCache({
+      maxEntries: DIGEST_CACHE_MAX_ENTRIES,
+      timers,
+      observer: new CacheAccessEvents('digest', this),
+    });
+    this.oauth2 = new SuperCache({
+      maxEntries: OAUTH2_CACHE_MAX_ENTRIES,
+      timers,
+      observer: new CacheAccessEvents('oauth2', this),
+    });
+    // rotated refresh tokens are not evicted, the configured ones are revoked once rotated
+    this.oauth2RefreshTokens = new SuperCache({
+      timers,
+      observer: new CacheAccessEvents('oauth2-refresh-tokens', this),
+    });
+  }
 
   @eventInterceptor({
     eventName: 'fetch',
@@ -111,9 +200,15 @@ export class NodeFetch implements IFetch, Interceptable, AuthCache {
     parameters: FetchParameters
   ): Promise<FetchResponse> {
     const requestHeaders = NodeFetch.multimapToHeaders(parameters.headers);
+    // only fetches of provider performs have a provider, other fetches such as registry ones don't use its TLS options
+    const provider = this.metadata?.provider;
     const request: RequestInit = {
       headers: requestHeaders,
       method: parameters.method,
+      // agent is resolved for each url, as redirects may change the protocol or host
+      // node-fetch passes url parsed by legacy `url.parse`, which lacks `origin` and has `null` port
+      agent: (parsedUrl: URL) =>
+        this.agent(new URL(parsedUrl.href), provider, parameters.serviceId),
       // eslint-disable-next-line @typescript-eslint/ban-ts-comment
       // @ts-ignore https://github.com/form-data/form-data/issues/513
       body: this.body(parameters.body),
@@ -122,7 +217,8 @@ export class NodeFetch implements IFetch, Interceptable, AuthCache {
     const response = await this.fetchWithTimeout(
       url + this.queryParameters(parameters.queryParameters),
       request,
-      parameters.timeout
+      parameters.timeout,
+      parameters.signal
     );
 
     const headers: HttpMultiMap = {};
@@ -135,19 +231,38 @@ export class NodeFetch implements IFetch, Interceptable, AuthCache {
       }
     }
 
-    let body: unknown;
-
     const contentType = getHeaderMulti(headers, 'content-type');
     const accept = getHeaderMulti(requestHeaders.raw(), 'accept');
 
-    if (response.status === 204) {
-      body = undefined;
-    } else if (NodeFetch.isJsonContentType(contentType, accept)) {
-      body = await response.json();
-    } else if (NodeFetch.isBinaryContentType(contentType, accept)) {
-      body = await response.arrayBuffer(); // TODO: BinaryData.fromStream(response.body)
-    } else {
-      body = await response.text();
+    let body: unknown;
+    try {
+      if (response.status === 204) {
+        body = undefined;
+      } else if (NodeFetch.isEventStreamContentType(contentType, response)) {
+        body =
+          contentType?.some(v => v.includes(EVENT_STREAM_CONTENT)) === true
+            ? EventStream.fromServerSentEvents(response.body)
+            : EventStream.fromNdjson(response.body);
+      } else if (NodeFetch.isJsonContentType(contentType, accept)) {
+        body = await response.json();
+      } else if (NodeFetch.isBinaryContentType(contentType, accept)) {
+        // error responses are usually small and end up in errors, so they are read right away
+        body =
+          response.status >= 400
+            ? Buffer.from(await response.arrayBuffer())
+            : BinaryData.fromStream(response.body, {
+                name: response.url,
+                mimetype: contentType?.[0],
+              });
+      } else {
+        body = await response.text();
+      }
+    } catch (error: unknown) {
+      if (parameters.signal?.aborted === true) {
+        throw new RequestFetchError('cancel');
+      }
+
+      throw error;
     }
 
     return {
@@ -158,11 +273,21 @@ export class NodeFetch implements IFetch, Interceptable, AuthCache {
     };
   }
 
+  /**
+   * Fetches the response, aborting the request after `timeout` or once `signal` is aborted.
+   *
+   * Cancellation by `signal` applies to reading of the body as well, until the body stream closes.
+   */
   private async fetchWithTimeout(
     url: string,
     options: RequestInit,
-    timeout?: number
+    timeout?: number,
+    signal?: AbortSignal
   ): Promise<Response> {
+    if (signal?.aborted === true) {
+      throw new RequestFetchError('cancel');
+    }
+
     const abort = new AbortController();
 
     let timeoutHandle = undefined;
@@ -171,9 +296,28 @@ export class NodeFetch implements IFetch, Interceptable, AuthCache {
     }
     options.signal = abort.signal;
 
+    let cancelled = false;
+    const cancel = () => {
+      cancelled = true;
+      abort.abort();
+    };
+    signal?.addEventListener('abort', cancel);
+
     try {
-      return await fetch(url, options);
+      const response = await fetch(url, options);
+      if (signal !== undefined) {
+        response.body.once('close', () =>
+          signal.removeEventListener('abort', cancel)
+        );
+      }
+
+      return response;
     } catch (err: unknown) {
+      signal?.removeEventListener('abort', cancel);
+      if (cancelled) {
+        throw new RequestFetchError('cancel');
+      }
+
       throw NodeFetch.normalizeError(err);
     } finally {
       if (timeoutHandle !== undefined) {
@@ -207,7 +351,9 @@ export class NodeFetch implements IFetch, Interceptable, AuthCache {
         return new NetworkFetchError('dns');
       }
 
-      // TODO: unsigned ssl?
+      if (UNSIGNED_SSL_ERROR_CODES.includes(systemError.code)) {
+        return new NetworkFetchError('unsigned-ssl');
+      }
 
       return new NetworkFetchError('reject');
     }
@@ -216,6 +362,112 @@ export class NodeFetch implements IFetch, Interceptable, AuthCache {
     return new RequestFetchError('abort');
   }
 
+  /**
+   * Returns agent pooling connections to the origin of the url for the provider and its service.
+   *
+   * The agent sends requests through the configured proxy unless the host is excluded by `noProxy`,
+   * https requests use TLS options of the service merged over TLS options of the provider.
+   */
+  private agent(url: URL, provider?: string, serviceId?: string): HttpAgent {
+    const proxy = proxyFor(url, this.config);
+    const key = `${provider ?? ''}/${serviceId ?? ''} ${url.origin} ${
+      proxy?.href ?? ''
+    }`;
+
+    let agent = this.agents.get(key);
+    if (agent !== undefined) {
+      this.agents.delete(key);
+      this.agents.set(key, agent);
+
+      return agent;
+    }
+
+    const keepAlive = this.config.httpKeepAlive ?? DEFAULT_HTTP_KEEP_ALIVE;
+    const poolOptions = {
+      keepAlive,
+      maxSockets: this.config.httpMaxSockets ?? DEFAULT_HTTP_MAX_SOCKETS,
+      maxFreeSockets:
+        this.config.httpMaxFreeSockets ?? DEFAULT_HTTP_MAX_FREE_SOCKETS,
+      // agents close idle connections which time out
+      timeout: keepAlive
+        ? this.config.httpKeepAliveTimeout ?? DEFAULT_HTTP_KEEP_ALIVE_TIMEOUT
+        : undefined,
+    };
+
+    if (url.protocol === 'https:') {
+      const tls = this.tlsSettings(provider, serviceId);
+      const options = {
+        ...poolOptions,
+        cert: tls?.cert,
+        key: tls?.key,
+        passphrase: tls?.passphrase,
+        ca: tls?.ca,
+        servername: tls?.serverName,
+        minVersion: tls?.minVersion,
+      };
+      agent =
+        proxy !== undefined
+          ? new HttpsProxyAgent(proxy, options)
+          : new HttpsAgent(options);
+    } else {
+      agent =
+        proxy !== undefined
+          ? new HttpProxyAgent(proxy, poolOptions)
+          : new HttpAgent(poolOptions);
+    }
+
+    observeConnectionPool(agent, statistics => {
+      const events = this.events;
+      if (events === undefined) {
+        return;
+      }
+
+      void events.emit('connection-pool', [
+        {
+          time: new Date(events.timers.now()),
+          provider,
+          origin: url.origin,
+          ...statistics,
+        },
+      ]);
+    });
+    this.agents.set(key, agent);
+
+    // agents of origins not requested for the longest time are closed, so that keep-alive connections don't pile up
+    for (const [evictedKey, evicted] of this.agents) {
+      if (this.agents.size <= AGENTS_MAX_ENTRIES) {
+        break;
+      }
+
+      this.agents.delete(evictedKey);
+      retireAgent(evicted);
+    }
+
+    return agent;
+  }
+
+  /** Returns TLS options of the service merged over TLS options of the provider, `undefined` when there are none */
+  private tlsSettings(
+    provider?: string,
+    serviceId?: string
+  ): TlsSettings | undefined {
+    if (provider === undefined) {
+      return undefined;
+    }
+
+    const providerSettings = this.superJson?.providers[provider];
+    const serviceTls =
+      serviceId !== undefined
+        ? providerSettings?.services?.[serviceId]?.tls
+        : undefined;
+
+    if (providerSettings?.tls === undefined && serviceTls === undefined) {
+      return undefined;
+    }
+
+    return { ...providerSettings?.tls, ...serviceTls };
+  }
+
   private queryParameters(parameters?: HttpMultiMap): string {
     if (parameters === undefined || Object.keys(parameters).length === 0) {
       return '';
@@ -0,0 +1,65 @@
+import type { Agent, ClientRequest } from 'http';
+import type { Socket } from 'net';
+
+/** Methods of node agents which are not part of their type declarations */
+export type AgentInternals = {
+  addRequest(request: ClientRequest, options: unknown): void;
+  on(event: 'free', listener: () => void): void;
+  off(event: 'free', listener: () => void): void;
+};
+
+/** Statistics of the connection pool of an agent at the time one of its requests was assigned a connection */
+export type ConnectionPoolStatistics = {
+  /** Whether the request was assigned an idle connection kept open by an earlier request */
+  reused: boolean;
+  activeSockets: number;
+  freeSockets: number;
+  pendingRequests: number;
+};
+
+function countAll(pool: NodeJS.ReadOnlyDict<unknown[]>): number {
+  return Object.values(pool).reduce(
+    (count: number, entries) => count + (entries?.length ?? 0),
+    0
+  );
+}
+
+/** Calls `observer` with statistics of the connection pool of the agent whenever a request of the agent is assigned a connection */
+export function observeConnectionPool(
+  agent: Agent,
+  observer: (statistics: ConnectionPoolStatistics) => void
+): void {
+  const internals = agent as unknown as AgentInternals;
+  const addRequest = internals.addRequest.bind(agent);
+  // `request.reusedSocket` is not set for queued requests which are assigned a connection freed by another request
+  const usedSockets = new WeakSet<Socket>();
+
+  internals.addRequest = (request, options) => {
+    request.once('socket', (socket: Socket) => {
+      const reused = usedSockets.has(socket);
+      usedSockets.add(socket);
+
+      observer({
+        reused,
+        activeSockets: countAll(agent.sockets),
+        freeSockets: countAll(agent.freeSockets),
+        pendingRequests: countAll(agent.requests),
+      });
+    });
+    addRequest(request, options);
+  };
+}
+
+/** Destroys the agent, closing its connections, once its requests in flight finish */
+export function retireAgent(agent: Agent): void {
+  const internals = agent as unknown as AgentInternals;
+  const destroyWhenIdle = () => {
+    if (countAll(agent.sockets) === 0 && countAll(agent.requests) === 0) {
+      internals.off('free', destroyWhenIdle);
+      agent.destroy();
+    }
+  };
+
+  internals.on('free', destroyWhenIdle);
+  destroyWhenIdle();
+}
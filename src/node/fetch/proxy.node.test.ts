@@ -0,0 +1,75 @@
+import { isProxyBypassed, proxyFor } from './proxy.node';
+
+describe('proxy', () => {
+  describe('isProxyBypassed', () => {
+    it('returns false without noProxy', () => {
+      expect(isProxyBypassed(new URL('https://api.example.com'))).toBe(false);
+    });
+
+    it('matches host and its subdomains', () => {
+      const noProxy = 'localhost, example.com';
+
+      expect(isProxyBypassed(new URL('http://localhost:8080'), noProxy)).toBe(
+        true
+      );
+      expect(isProxyBypassed(new URL('https://example.com'), noProxy)).toBe(
+        true
+      );
+      expect(isProxyBypassed(new URL('https://api.example.com'), noProxy)).toBe(
+        true
+      );
+      expect(isProxyBypassed(new URL('https://notexample.com'), noProxy)).toBe(
+        false
+      );
+    });
+
+    it('ignores leading dot and wildcard', () => {
+      expect(
+        isProxyBypassed(new URL('https://api.internal'), '.internal')
+      ).toBe(true);
+      expect(
+        isProxyBypassed(new URL('https://api.internal'), '*.internal')
+      ).toBe(true);
+    });
+
+    it('matches port when specified', () => {
+      expect(
+        isProxyBypassed(new URL('https://example.com'), 'example.com:443')
+      ).toBe(true);
+      expect(
+        isProxyBypassed(new URL('http://example.com'), 'example.com:443')
+      ).toBe(false);
+    });
+
+    it('matches all hosts with asterisk', () => {
+      expect(isProxyBypassed(new URL('https://example.com'), '*')).toBe(true);
+    });
+  });
+
+  describe('proxyFor', () => {
+    const configuration = {
+      httpProxy: 'http://http-proxy.local:3128',
+      httpsProxy: 'http://https-proxy.local:3128',
+      noProxy: 'internal',
+    };
+
+    it('returns proxy for protocol of url', () => {
+      expect(
+        proxyFor(new URL('http://example.com'), configuration)?.hostname
+      ).toBe('http-proxy.local');
+      expect(
+        proxyFor(new URL('https://example.com'), configuration)?.hostname
+      ).toBe('https-proxy.local');
+    });
+
+    it('returns undefined for bypassed host', () => {
+      expect(
+        proxyFor(new URL('https://api.internal'), configuration)
+      ).toBeUndefined();
+    });
+
+    it('returns undefined without proxy', () => {
+      expect(proxyFor(new URL('https://example.com'), {})).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import type { AgentOptions, ClientRequest, IncomingMessage } from 'http';
+import { Agent as HttpAgent, request as httpRequest } from 'http';
+import type { AgentOptions as HttpsAgentOptions } from 'https';
+import { Agent as HttpsAgent, request as httpsRequest } from 'https';
+import type { Socket } from 'net';
+import { connect as netConnect } from 'net';
+import type { ConnectionOptions } from 'tls';
+import { connect as tlsConnect } from 'tls';
+
+import type { IConfig } from '../../interfaces';
+import type { AgentInternals } from './pool.node';
+
+export type ProxyConfiguration = Pick<
+  IConfig,
+  'httpProxy' | 'httpsProxy' | 'noProxy'
+>;
+
+type ConnectionCallback = (error: Error | null, socket?: Socket) => void;
+
+function defaultPort(url: URL): number {
+  if (url.port !== '') {
+    return parseInt(url.port, 10);
+  }
+
+  return url.protocol === 'https:' ? 443 : 80;
+}
+
+function proxyAuthorization(proxy: URL): Record<string, string> {
+  if (proxy.username === '') {
+    return {};
+  }
+
+  const credentials = `${decodeURIComponent(
+    proxy.username
+  )}:${decodeURIComponent(proxy.password)}`;
+
+  return {
+    'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString(
+      'base64'
+    )}`,
+  };
+}
+
+/** Opens a plain or TLS connection to the proxy itself */
+function connectProxy(proxy: URL): Socket {
+  if (proxy.protocol === 'https:') {
+    return tlsConnect({
+      host: proxy.hostname,
+      port: defaultPort(proxy),
+      servername: proxy.hostname,
+    });
+  }
+
+  return netConnect({ host: proxy.hostname, port: defaultPort(proxy) });
+}
+
+/**
+ * Returns whether the url should be requested directly according to `noProxy`.
+ *
+ * `noProxy` is a comma or whitespace separated list of hosts, each optionally with a port.
+ * A host matches itself and all its subdomains, leading `.` or `*.` is ignored and `*` matches all hosts.
+ */
+export function isProxyBypassed(url: URL, noProxy?: string): boolean {
+  if (noProxy === undefined) {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const port = defaultPort(url);
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(entry => entry !== '')
+    .some(entry => {
+      if (entry === '*') {
+        return true;
+      }
+
+      let host = entry.toLowerCase();
+      const portMatch = /:(\d+)$/.exec(host);
+      if (portMatch !== null) {
+        if (parseInt(portMatch[1], 10) !== port) {
+          return false;
+        }
+        host = host.slice(0, portMatch.index);
+      }
+      host = host.replace(/^\*?\./, '');
+
+      return hostname === host || hostname.endsWith(`.${host}`);
+    });
+}
+
+/** Returns proxy through which the url should be requested, `undefined` when it should be requested directly */
+export function proxyFor(
+  url: URL,
+  configuration: ProxyConfiguration
+): URL | undefined {
+  const proxy =
+    url.protocol === 'https:'
+      ? configuration.httpsProxy
+      : configuration.httpProxy;
+
+  if (proxy === undefined || isProxyBypassed(url, configuration.noProxy)) {
+    return undefined;
+  }
+
+  return new URL(proxy);
+}
+
+/**
+ * Agent sending plain http requests through a proxy.
+ *
+ * Requests are sent to the proxy with the absolute url of the target in the request line.
+ */
+export class HttpProxyAgent extends HttpAgent {
+  constructor(private readonly proxy: URL, options?: AgentOptions) {
+    super(options);
+  }
+
+  public addRequest(request: ClientRequest, options: unknown): void {
+    const host = request.getHeader('host');
+    request.path = `http://${String(host)}${request.path}`;
+
+    for (const [name, value] of Object.entries(
+      proxyAuthorization(this.proxy)
+    )) {
+      request.setHeader(name, value);
+    }
+
+    (HttpAgent.prototype as unknown as AgentInternals).addRequest.call(
+      this,
+      request,
+      options
+    );
+  }
+
+  public createConnection(
+    _options: unknown,
+    callback: ConnectionCallback
+  ): undefined {
+    const socket = connectProxy(this.proxy);
+    socket.once('error', callback);
+    socket.once(
+      this.proxy.protocol === 'https:' ? 'secureConnect' : 'connect',
+      () => {
+        socket.removeListener('error', callback);
+        callback(null, socket);
+      }
+    );
+
+    return undefined;
+  }
+}
+
+/**
+ * Agent sending https requests through a tunnel opened by the proxy with `CONNECT`.
+ *
+ * TLS is negotiated with the target through the tunnel, so TLS options of the agent apply to the target.
+ */
+export class HttpsProxyAgent extends HttpsAgent {
+  constructor(private readonly proxy: URL, options?: HttpsAgentOptions) {
+    super(options);
+  }
+
+  public createConnection(
+    options: ConnectionOptions & { host: string; port: number },
+    callback: ConnectionCallback
+  ): undefined {
+    const target = `${options.host}:${options.port}`;
+    const connect = (
+      this.proxy.protocol === 'https:' ? httpsRequest : httpRequest
+    )({
+      host: this.proxy.hostname,
+      port: defaultPort(this.proxy),
+      method: 'CONNECT',
+      path: target,
+      headers: { host: target, ...proxyAuthorization(this.proxy) },
+      agent: false,
+    });
+
+    connect.once('connect', (response: IncomingMessage, socket: Socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        callback(
+          new Error(
+            `Proxy ${
+              this.proxy.host
+            } refused to connect to ${target} with status ${String(
+              response.statusCode
+            )}`
+          )
+        );
+
+        return;
+      }
+
+      // connection options are already resolved by the agent, the port is ignored as the socket is given
+      callback(
+        null,
+        tlsConnect({
+          ...options,
+          socket,
+          servername: options.servername ?? options.host,
+        })
+      );
+    });
+    connect.once('error', error => callback(error));
+    connect.end();
+
+    return undefined;
+  }
+}
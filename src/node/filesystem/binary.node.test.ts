@@ -165,6 +165,35 @@ describe('Node Binary', () => {
         expect(error).toBeInstanceOf(UnexpectedError);
       });
     });
+
+    it('rejects read with stream error', async () => {
+      const failing = new Readable({
+        read() {
+          this.destroy(new Error('connection reset'));
+        },
+      });
+      const failingReader = new StreamReader(failing);
+
+      await expect(failingReader.read(5)).rejects.toThrow('connection reset');
+    });
+
+    describe('destroy', () => {
+      it('destroys stream and signals EOF', async () => {
+        await reader.read();
+        reader.destroy();
+
+        expect(stream.destroyed).toBe(true);
+        await expect(reader.read()).resolves.toHaveLength(0);
+      });
+
+      it('does not destroy stream returned by toStream()', () => {
+        const returned = reader.toStream();
+        reader.destroy();
+
+        expect(stream.destroyed).toBe(false);
+        expect(returned.destroyed).toBe(false);
+      });
+    });
   });
 
   describe('FileContainer class', () => {
@@ -225,6 +254,14 @@ describe('Node Binary', () => {
         expect(streamContainer.toStream()).toBeInstanceOf(Readable);
       });
     });
+
+    it('destroys stream', async () => {
+      const stream = new MockStream();
+      streamContainer = new StreamContainer(stream);
+      await streamContainer.destroy();
+
+      expect(stream.destroyed).toBe(true);
+    });
   });
 
   describe('BinaryData class', () => {
@@ -26,11 +26,13 @@ export class StreamReader {
   private stream: NodeJS.ReadableStream | undefined;
   private buffer: Buffer;
   private ended = false;
+  private error: Error | undefined;
 
   private pendingReadResolve: (() => void) | undefined;
 
   private dataCallback: (chunk: Buffer) => void;
   private endCallback: (this: () => void) => void;
+  private errorCallback: (error: Error) => void;
 
   constructor(stream: NodeJS.ReadableStream) {
     this.buffer = Buffer.alloc(0);
@@ -38,6 +40,7 @@ export class StreamReader {
 
     this.dataCallback = this.onData.bind(this);
     this.endCallback = this.onEnd.bind(this);
+    this.errorCallback = this.onError.bind(this);
 
     this.hook();
   }
@@ -45,11 +48,13 @@ export class StreamReader {
   private hook() {
     this.stream!.on('data', this.dataCallback);
     this.stream!.on('end', this.endCallback);
+    this.stream!.on('error', this.errorCallback);
   }
 
   private unhook() {
     this.stream!.off('data', this.dataCallback);
     this.stream!.off('end', this.endCallback);
+    this.stream!.off('error', this.errorCallback);
   }
 
   private onData(chunk: Buffer) {
@@ -62,6 +67,12 @@ export class StreamReader {
     this.notifyData();
   }
 
+  private onError(error: Error) {
+    this.error = error;
+    this.ended = true;
+    this.notifyData();
+  }
+
   // assumption: this function is never called twice without awaiting its promise in between
   private async waitForData(): Promise<void> {
     if (this.stream === undefined) {
@@ -85,16 +96,24 @@ export class StreamReader {
   }
 
   private notifyData() {
+    this.notifyPendingRead();
+    this.stream!.pause();
+  }
+
+  private notifyPendingRead() {
     if (this.pendingReadResolve !== undefined) {
       this.pendingReadResolve();
     }
 
-    this.stream!.pause();
     this.pendingReadResolve = undefined;
   }
 
   public async read(size = 1): Promise<Buffer> {
     while (this.buffer.length < size) {
+      if (this.error !== undefined) {
+        throw this.error;
+      }
+
       if (this.ended) {
         if (this.buffer.length > 0) {
           // yield remaining data
@@ -137,6 +156,24 @@ export class StreamReader {
 
     return pass;
   }
+
+  /**
+   * Destroys the stream and discards buffered data
+   *
+   * Streams moved by calling toStream() are owned by the caller and are not destroyed.
+   */
+  public destroy(): void {
+    if (this.stream === undefined) {
+      return;
+    }
+
+    this.unhook();
+    (this.stream as NodeJS.ReadableStream & Partial<Readable>).destroy?.();
+    this.stream = undefined;
+    this.buffer = Buffer.alloc(0);
+    this.ended = true;
+    this.notifyPendingRead();
+  }
 }
 
 export class FileContainer
@@ -216,7 +253,7 @@ export class FileContainer
   }
 }
 
-export class StreamContainer implements IDataContainer {
+export class StreamContainer implements IDataContainer, IDestructible {
   private streamReader: StreamReader;
 
   constructor(stream: NodeJS.ReadableStream) {
@@ -230,6 +267,10 @@ export class StreamContainer implements IDataContainer {
   public toStream(): NodeJS.ReadableStream {
     return this.streamReader.toStream();
   }
+
+  public async destroy(): Promise<void> {
+    this.streamReader.destroy();
+  }
 }
 
 export type BinaryDataOptions = {
@@ -1 +1,2 @@
 export * from './sandbox.node';
+export * from './worker-sandbox.node';
@@ -1,10 +1,12 @@
 import { Config } from '../../core';
 import { getStdlib } from '../../core/interpreter/stdlib';
 import type { ISandbox } from '../../interfaces/sandbox';
+import { NodeCrypto } from '../crypto';
 import { NodeFileSystem } from '../filesystem';
 import { NodeSandbox } from './sandbox.node';
 
 const config = new Config(NodeFileSystem);
+const crypto = new NodeCrypto();
 
 describe('sandbox', () => {
   let sandbox: ISandbox;
@@ -172,7 +174,7 @@ describe('sandbox', () => {
         sandbox.evalScript(
           config,
           'std.unstable.time.isoDateToUnixTimestamp("2022-01-01T00:11:00.123Z")',
-          getStdlib()
+          getStdlib(crypto)
         )
       ).toStrictEqual(1640995860123);
 
@@ -180,9 +182,339 @@ describe('sandbox', () => {
         sandbox.evalScript(
           config,
           '(std.unstable.debug.log(1123), std.unstable.time.unixTimestampToIsoDate(1640995860123))',
-          getStdlib()
+          getStdlib(crypto)
         )
       ).toStrictEqual('2022-01-01T00:11:00.123Z');
     });
+
+    it('freezes stdlib', () => {
+      expect(() =>
+        sandbox.evalScript(
+          config,
+          'std.encoding.base64 = undefined',
+          getStdlib(crypto)
+        )
+      ).toThrow();
+    });
+
+    it('encodes and decodes strings', () => {
+      expect(
+        sandbox.evalScript(
+          config,
+          `[
+            std.encoding.base64.encode('hello world?'),
+            std.encoding.base64.decode('aGVsbG8gd29ybGQ/'),
+            std.encoding.base64url.encode('hello world?'),
+            std.encoding.base64url.decode('aGVsbG8gd29ybGQ_'),
+            std.encoding.hex.encode('hello'),
+            std.encoding.hex.decode('68656c6c6f'),
+          ]`,
+          getStdlib(crypto)
+        )
+      ).toStrictEqual([
+        'aGVsbG8gd29ybGQ/',
+        'hello world?',
+        'aGVsbG8gd29ybGQ_',
+        'hello world?',
+        '68656c6c6f',
+        'hello',
+      ]);
+      expect(() =>
+        sandbox.evalScript(
+          config,
+          'std.encoding.hex.decode("xyz")',
+          getStdlib(crypto)
+        )
+      ).toThrow('Invalid hex string: xyz');
+    });
+
+    it('encodes and decodes urls', () => {
+      expect(
+        sandbox.evalScript(
+          config,
+          `[
+            std.encoding.url.encode('a b&c/d'),
+            std.encoding.url.decode('a%20b%26c%2Fd'),
+            std.encoding.url.encodeQuery({ q: 'a b', tag: ['x', 'y'], page: 2, skip: undefined }),
+            std.encoding.url.decodeQuery('?q=a+b&tag=x&tag=y'),
+          ]`,
+          getStdlib(crypto)
+        )
+      ).toStrictEqual([
+        'a%20b%26c%2Fd',
+        'a b&c/d',
+        'q=a+b&tag=x&tag=y&page=2',
+        { q: 'a b', tag: ['x', 'y'] },
+      ]);
+    });
+
+    it('hashes strings', () => {
+      expect(
+        sandbox.evalScript(
+          config,
+          `[
+            std.crypto.md5('hello'),
+            std.crypto.sha256('hello'),
+            std.crypto.hmacSha256('key', 'The quick brown fox jumps over the lazy dog'),
+            std.crypto.hmacSha256('key', 'The quick brown fox jumps over the lazy dog', 'base64'),
+          ]`,
+          getStdlib(crypto)
+        )
+      ).toStrictEqual([
+        '5d41402abc4b2a76b9719d911017c592',
+        '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824',
+        'f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8',
+        '97yD9DBThCSxMpjmqm+xQ+9NWaFJRhdZl0edvC0aPNg=',
+      ]);
+    });
+
+    it('generates uuids', () => {
+      const uuid = sandbox.evalScript(
+        config,
+        'std.crypto.uuid()',
+        getStdlib(crypto)
+      );
+
+      expect(uuid).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/
+      );
+      expect(
+        sandbox.evalScript(config, 'std.crypto.uuid()', getStdlib(crypto))
+      ).not.toEqual(uuid);
+    });
+
+    it('parses dates in time zones', () => {
+      expect(
+        sandbox.evalScript(
+          config,
+          `[
+            std.time.parse('2022-01-01'),
+            std.time.parse('2022-01-01 10:00', 'Europe/Prague'),
+            std.time.parse('2022-07-01T10:00:00', 'Europe/Prague'),
+            std.time.parse('2022-01-01T10:00:00+02:00', 'Europe/Prague'),
+          ]`,
+          getStdlib(crypto)
+        )
+      ).toStrictEqual([
+        Date.UTC(2022, 0, 1),
+        Date.UTC(2022, 0, 1, 9),
+        Date.UTC(2022, 6, 1, 8),
+        Date.UTC(2022, 0, 1, 8),
+      ]);
+      expect(() =>
+        sandbox.evalScript(
+          config,
+          'std.time.parse("yesterday")',
+          getStdlib(crypto)
+        )
+      ).toThrow('Invalid date: yesterday');
+    });
+
+    it('formats dates in time zones', () => {
+      expect(
+        sandbox.evalScript(
+          config,
+          `[
+            std.time.format(1640995860123, 'DD.MM.YYYY HH:mm', 'America/New_York'),
+            std.time.format(1640995860123, 'YYYY-MM-DD[T]HH:mm:ssZ', 'Asia/Kolkata'),
+            std.time.toIsoString(1640995860123),
+            std.time.toIsoString(1640995860123, 'Europe/Prague'),
+            std.time.offset(${Date.UTC(2022, 6, 1)}, 'Europe/Prague'),
+          ]`,
+          getStdlib(crypto)
+        )
+      ).toStrictEqual([
+        '31.12.2021 19:11',
+        '2022-01-01T05:41:00+05:30',
+        '2022-01-01T00:11:00.123Z',
+        '2022-01-01T01:11:00.123+01:00',
+        120,
+      ]);
+    });
+
+    it('adds durations to dates', () => {
+      expect(
+        sandbox.evalScript(
+          config,
+          `[
+            std.time.add(${Date.UTC(2022, 0, 31)}, { months: 1 }),
+            std.time.add(${Date.UTC(
+              2022,
+              0,
+              31
+            )}, { years: 1, days: 1, hours: 2 }),
+          ]`,
+          getStdlib(crypto)
+        )
+      ).toStrictEqual([Date.UTC(2022, 1, 28), Date.UTC(2023, 1, 1, 2)]);
+    });
+
+    it('converts strings', () => {
+      expect(
+        sandbox.evalScript(
+          config,
+          `[
+            std.string.capitalize('hello'),
+            std.string.camelCase('user_id value'),
+            std.string.pascalCase('user-id'),
+            std.string.snakeCase('userID and HTTPServer'),
+            std.string.kebabCase('UserId'),
+            std.string.truncate('hello world', 8),
+            std.string.isBlank('  '),
+          ]`,
+          getStdlib(crypto)
+        )
+      ).toStrictEqual([
+        'Hello',
+        'userIdValue',
+        'UserId',
+        'user_id_and_http_server',
+        'user-id',
+        'hello...',
+        true,
+      ]);
+    });
+
+    it('transforms arrays', () => {
+      expect(
+        sandbox.evalScript(
+          config,
+          `[
+            std.array.chunk([1, 2, 3, 4, 5], 2),
+            std.array.unique([1, 2, 1, 3]),
+            std.array.unique([{ id: 1, n: 'a' }, { id: 1, n: 'b' }], 'id'),
+            std.array.groupBy([{ t: 'a', v: 1 }, { t: 'b', v: 2 }, { t: 'a', v: 3 }], 't'),
+            std.array.range(0, 10, 3),
+            std.array.zip([1, 2, 3], ['a', 'b']),
+          ]`,
+          getStdlib(crypto)
+        )
+      ).toStrictEqual([
+        [[1, 2], [3, 4], [5]],
+        [1, 2, 3],
+        [{ id: 1, n: 'a' }],
+        {
+          a: [
+            { t: 'a', v: 1 },
+            { t: 'a', v: 3 },
+          ],
+          b: [{ t: 'b', v: 2 }],
+        },
+        [0, 3, 6, 9],
+        [
+          [1, 'a'],
+          [2, 'b'],
+        ],
+      ]);
+    });
+
+    describe('pagination', () => {
+      const link = [
+        '<https://api.example.com/items?page=3&per_page=10>; rel="next"',
+        '<https://api.example.com/items?page=9&per_page=10>; rel="last end"; title="Last, page"',
+        '</items?page=1>; REL=first',
+      ].join(', ');
+
+      it('parses Link header into relations', () => {
+        expect(
+          sandbox.evalScript(
+            config,
+            'std.pagination.parseLinkHeader(link)',
+            getStdlib(crypto),
+            undefined,
+            { link }
+          )
+        ).toStrictEqual({
+          next: {
+            url: 'https://api.example.com/items?page=3&per_page=10',
+            rel: 'next',
+          },
+          last: {
+            url: 'https://api.example.com/items?page=9&per_page=10',
+            rel: 'last',
+            title: 'Last, page',
+          },
+          end: {
+            url: 'https://api.example.com/items?page=9&per_page=10',
+            rel: 'end',
+            title: 'Last, page',
+          },
+          first: { url: '/items?page=1', rel: 'first' },
+        });
+      });
+
+      it('resolves relative links and parses repeated headers', () => {
+        expect(
+          sandbox.evalScript(
+            config,
+            `std.pagination.parseLinkHeader(
+              ['</items?page=2>; rel="next"', '</items?page=0>; rel="prev"'],
+              'https://api.example.com/v1/items?page=1'
+            )`,
+            getStdlib(crypto)
+          )
+        ).toStrictEqual({
+          next: { url: 'https://api.example.com/items?page=2', rel: 'next' },
+          prev: { url: 'https://api.example.com/items?page=0', rel: 'prev' },
+        });
+      });
+
+      it('returns next url', () => {
+        expect(
+          sandbox.evalScript(
+            config,
+            `[
+              std.pagination.nextUrl(link),
+              std.pagination.nextUrl('</items?page=1>; rel="first"'),
+              std.pagination.nextUrl(undefined),
+            ]`,
+            getStdlib(crypto),
+            undefined,
+            { link }
+          )
+        ).toStrictEqual([
+          'https://api.example.com/items?page=3&per_page=10',
+          undefined,
+          undefined,
+        ]);
+      });
+
+      it('extracts query parameters from urls', () => {
+        expect(
+          sandbox.evalScript(
+            config,
+            `[
+              std.pagination.queryParameters('https://api.example.com/items?cursor=abc%3D&tag=a&tag=b#top'),
+              std.pagination.queryParameters('/items'),
+              std.pagination.queryParameter('/items?cursor=abc%3D&cursor=def', 'cursor'),
+              std.pagination.queryParameter('/items?page=2', 'cursor'),
+            ]`,
+            getStdlib(crypto)
+          )
+        ).toStrictEqual([
+          { cursor: 'abc=', tag: ['a', 'b'] },
+          {},
+          'abc=',
+          undefined,
+        ]);
+      });
+
+      it('encodes and decodes cursors', () => {
+        expect(
+          sandbox.evalScript(
+            config,
+            "std.pagination.decodeCursor(std.pagination.encodeCursor({ offset: 20, filter: 'a/b' }))",
+            getStdlib(crypto)
+          )
+        ).toStrictEqual({ offset: 20, filter: 'a/b' });
+        expect(() =>
+          sandbox.evalScript(
+            config,
+            'std.pagination.decodeCursor("not-a-cursor")',
+            getStdlib(crypto)
+          )
+        ).toThrow('Invalid cursor: not-a-cursor');
+      });
+    });
   });
 });
@@ -0,0 +1,210 @@
+import { Config } from '../../core';
+import { getStdlib } from '../../core/interpreter/stdlib';
+import { NodeCrypto } from '../crypto';
+import { NodeFileSystem } from '../filesystem';
+import { NodeWorkerSandbox } from './worker-sandbox.node';
+
+const config = new Config(NodeFileSystem);
+const crypto = new NodeCrypto();
+
+describe('worker sandbox', () => {
+  const sandbox = new NodeWorkerSandbox({ maxMemory: 16 });
+
+  afterAll(async () => {
+    await sandbox.destroy();
+  });
+
+  it('evaluates expressions with variables', () => {
+    expect(
+      sandbox.evalScript(
+        config,
+        '{ sum: input.a + input.b, items: body.items.map(item => item.id), missing: body.missing }',
+        undefined,
+        undefined,
+        { input: { a: 1, b: 2 }, body: { items: [{ id: 'x' }, { id: 'y' }] } }
+      )
+    ).toEqual({ sum: 3, items: ['x', 'y'], missing: undefined });
+  });
+
+  it('passes binary values as bytes', () => {
+    expect(
+      sandbox.evalScript(config, 'body.length', undefined, undefined, {
+        body: Buffer.from('hello'),
+      })
+    ).toBe(5);
+  });
+
+  it('omits variables which cannot be passed to sandbox', () => {
+    class Stream {
+      public read() {
+        return 'secret';
+      }
+    }
+
+    expect(
+      sandbox.evalScript(config, '[typeof body, input]', undefined, undefined, {
+        body: new Stream() as never,
+        input: 'x',
+      })
+    ).toEqual(['undefined', 'x']);
+  });
+
+  it('prevents access to the host', () => {
+    process.env.SECRET = 'MuchSecret';
+
+    expect(() =>
+      sandbox.evalScript(
+        config,
+        '(() => {}).constructor("process.env.SECRET = \'overwrite\'")()'
+      )
+    ).toThrow('Code generation from strings disallowed for this context');
+    expect(() =>
+      sandbox.evalScript(
+        config,
+        'std.string.capitalize.constructor.constructor("return process")()',
+        getStdlib(crypto)
+      )
+    ).toThrow('Code generation from strings disallowed for this context');
+    expect(() =>
+      sandbox.evalScript(
+        config,
+        'input.constructor.constructor("return process")()',
+        undefined,
+        undefined,
+        { input: {} }
+      )
+    ).toThrow('Code generation from strings disallowed for this context');
+    expect(() =>
+      sandbox.evalScript(
+        config,
+        'this.constructor.constructor("return process")()'
+      )
+    ).toThrow('Code generation from strings disallowed for this context');
+    expect(() =>
+      sandbox.evalScript(
+        config,
+        'Object.getPrototypeOf(globalThis).constructor.constructor("return process")()'
+      )
+    ).toThrow('Code generation from strings disallowed for this context');
+    expect(() =>
+      sandbox.evalScript(
+        config,
+        '(() => { try { null.x } catch (e) { return e.constructor.constructor("return process")() } })()'
+      )
+    ).toThrow('Code generation from strings disallowed for this context');
+    expect(() =>
+      sandbox.evalScript(
+        config,
+        '(() => { try { std.encoding.hex.decode("x") } catch (e) { return e.constructor.constructor("return process")() } })()',
+        getStdlib(crypto)
+      )
+    ).toThrow('Code generation from strings disallowed for this context');
+    expect(() =>
+      sandbox.evalScript(
+        config,
+        `(() => {
+          let leaked;
+          Object.keys = value => { leaked = value; return []; };
+          Array.isArray = value => { leaked = leaked || value; return false; };
+          std.encoding.base64.encode("x");
+          return leaked.constructor.constructor("return process")();
+        })()`,
+        getStdlib(crypto)
+      )
+    ).toThrow();
+    expect(
+      sandbox.evalScript(
+        config,
+        '[std.array.chunk([1, 2], 1)[0].constructor === Array, body.items.constructor === Array]',
+        getStdlib(crypto),
+        undefined,
+        { body: { items: [] } }
+      )
+    ).toEqual([true, true]);
+    expect(() => sandbox.evalScript(config, 'process.exit(1)')).toThrow(
+      'process is not defined'
+    );
+    expect(() => sandbox.evalScript(config, 'require("fs")')).toThrow(
+      'require is not defined'
+    );
+    expect(() => sandbox.evalScript(config, 'eval("1")')).toThrow(
+      'eval is not defined'
+    );
+
+    expect(process.env.SECRET).toEqual('MuchSecret');
+  });
+
+  it('isolates evaluations', () => {
+    expect(
+      sandbox.evalScript(config, '(Array.prototype.toString = () => "x", 1)')
+    ).toBe(1);
+    expect(sandbox.evalScript(config, '[1, 2, 3].toString()')).toBe('1,2,3');
+    expect([1, 2, 3].toString()).toEqual('1,2,3');
+  });
+
+  it('times out long running scripts', () => {
+    expect(() =>
+      sandbox.evalScript(config, '(() => { while(true) { 1 + 1 } })()')
+    ).toThrow('Script execution timed out');
+    expect(sandbox.evalScript(config, '1 + 1')).toBe(2);
+  });
+
+  it('terminates worker exceeding the memory limit', () => {
+    expect(() =>
+      sandbox.evalScript(
+        config,
+        '(() => { const chunks = []; while(true) { chunks.push(new Array(1e6).fill(1)) } })()'
+      )
+    ).toThrow();
+    expect(sandbox.evalScript(config, '1 + 1')).toBe(2);
+  });
+
+  it('fails on results which cannot be passed from sandbox', () => {
+    expect(() => sandbox.evalScript(config, '() => 1')).toThrow(
+      'could not be cloned'
+    );
+  });
+
+  describe('stdlib', () => {
+    it('calls stdlib functions', () => {
+      expect(
+        sandbox.evalScript(
+          config,
+          `[
+            std.encoding.base64.encode('hello world?'),
+            std.array.chunk([1, 2, 3], 2),
+            std.pagination.parseLinkHeader('<https://x.com/?page=2>; rel="next"').next.url,
+          ]`,
+          getStdlib(crypto)
+        )
+      ).toEqual(['aGVsbG8gd29ybGQ/', [[1, 2], [3]], 'https://x.com/?page=2']);
+    });
+
+    it('throws errors of stdlib functions', () => {
+      expect(() =>
+        sandbox.evalScript(
+          config,
+          'std.encoding.hex.decode("xyz")',
+          getStdlib(crypto)
+        )
+      ).toThrow('Invalid hex string: xyz');
+      expect(
+        sandbox.evalScript(
+          config,
+          '(() => { try { std.time.parse("yesterday") } catch (e) { return e instanceof Error } })()',
+          getStdlib(crypto)
+        )
+      ).toBe(true);
+    });
+
+    it('freezes stdlib', () => {
+      expect(() =>
+        sandbox.evalScript(
+          config,
+          'std.encoding.base64 = undefined',
+          getStdlib(crypto)
+        )
+      ).toThrow();
+    });
+  });
+});
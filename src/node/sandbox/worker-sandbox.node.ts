@@ -0,0 +1,452 @@
+import type { MessagePort } from 'worker_threads';
+import { MessageChannel, receiveMessageOnPort, Worker } from 'worker_threads';
+
+import type { Stdlib } from '../../core/interpreter/stdlib';
+import type { IConfig, ILogger, LogFunction } from '../../interfaces';
+import type { ISandbox } from '../../interfaces/sandbox';
+import type { NonPrimitive } from '../../lib';
+import { isClassInstance } from '../../lib';
+
+const DEBUG_NAMESPACE = 'sandbox';
+
+/** Index of the flag signalling a message for the host thread */
+const TO_HOST = 0;
+/** Index of the flag signalling a message for the worker thread */
+const TO_WORKER = 1;
+
+type SerializedError = { name: string; message: string };
+
+type WorkerMessage =
+  | { type: 'ready' }
+  | { type: 'call'; path: string[]; args: unknown[] }
+  | { type: 'result'; value: unknown }
+  | { type: 'error'; error: SerializedError };
+
+/** Stdlib with functions replaced by `true`, as functions cannot be passed to the worker */
+type StdlibShape = { [key: string]: StdlibShape | true };
+
+type Connection = {
+  worker: Worker;
+  port: MessagePort;
+  signal: Int32Array;
+};
+
+export type WorkerSandboxOptions = {
+  /** Maximum size of the heap of the sandbox worker in megabytes, the worker is terminated when it is exceeded */
+  maxMemory?: number;
+};
+
+/**
+ * Source of the worker evaluating scripts
+ *
+ * Every script is evaluated in a new context without code generation from strings. Values are copied into the context,
+ * so that no object of the worker realm, whose constructors could be used to escape the context, is reachable by the script.
+ * Stdlib functions are called in the host thread, the worker waits for their result synchronously.
+ */
+const WORKER_SOURCE = `
+'use strict';
+const { receiveMessageOnPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const port = workerData.port;
+const signal = new Int32Array(workerData.signal);
+
+// copies values of the worker realm into the context, evaluated in the context before any script
+// intrinsics are captured, so that scripts cannot replace them to get hold of the copied values
+const MATERIALIZE = \`(function () {
+  'use strict';
+  const apply = Reflect.apply;
+  const isArray = Array.isArray;
+  const isView = ArrayBuffer.isView;
+  const keys = Object.keys;
+  const defineProperty = Object.defineProperty;
+  const toString = Object.prototype.toString;
+  const ContextUint8Array = Uint8Array;
+  const ContextDate = Date;
+
+  return function materialize(value) {
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (isArray(value)) {
+      const array = [];
+      for (let i = 0; i < value.length; i += 1) {
+        defineProperty(array, i, {
+          value: materialize(value[i]),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      return array;
+    }
+    if (isView(value)) {
+      return new ContextUint8Array(value);
+    }
+    if (apply(toString, value, []) === '[object Date]') {
+      return new ContextDate(value.getTime());
+    }
+    const object = {};
+    const objectKeys = keys(value);
+    for (let i = 0; i < objectKeys.length; i += 1) {
+      defineProperty(object, objectKeys[i], {
+        value: materialize(value[objectKeys[i]]),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return object;
+  };
+})()\`;
+
+// sets up globals of the context, arguments are already copied into the context
+const BOOTSTRAP = \`(function (bridge, stdlibShape, variables) {
+  'use strict';
+  const global = globalThis;
+
+  function stub(path) {
+    return function () {
+      const reply = bridge(path, Array.prototype.slice.call(arguments));
+      if (reply.error !== undefined) {
+        const error = new Error(String(reply.error.message));
+        error.name = String(reply.error.name);
+        throw error;
+      }
+      return reply.value;
+    };
+  }
+
+  function build(shape, path) {
+    const result = {};
+    for (const key of Object.keys(shape)) {
+      result[key] =
+        shape[key] === true
+          ? stub(path.concat([key]))
+          : build(shape[key], path.concat([key]));
+    }
+    return Object.freeze(result);
+  }
+
+  if (stdlibShape !== undefined) {
+    global.std = build(stdlibShape, []);
+  }
+  for (const key of Object.keys(variables)) {
+    global[key] = variables[key];
+  }
+
+  delete global.eval;
+  delete global.Function;
+  delete global.Proxy;
+  delete global.Reflect;
+  delete global.Symbol;
+  delete global.WebAssembly;
+  delete global.SharedArrayBuffer;
+  delete global.Atomics;
+})\`;
+
+function serializeError(error) {
+  if (error !== null && typeof error === 'object') {
+    return { name: String(error.name), message: String(error.message) };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+function send(message) {
+  port.postMessage(message);
+  Atomics.store(signal, ${TO_HOST}, 1);
+  Atomics.notify(signal, ${TO_HOST});
+}
+
+function callHost(path, args) {
+  send({ type: 'call', path, args });
+  Atomics.wait(signal, ${TO_WORKER}, 0);
+  Atomics.store(signal, ${TO_WORKER}, 0);
+  return receiveMessageOnPort(port).message;
+}
+
+// returns only values copied into the context and never throws, so that no object of the worker realm gets into the context
+function createBridge(materialize) {
+  return function bridge(path, args) {
+    try {
+      return materialize(callHost(path, args));
+    } catch (error) {
+      return materialize({ error: serializeError(error) });
+    }
+  };
+}
+
+port.on('message', message => {
+  try {
+    // the global object must not inherit from the worker realm, as its constructors can generate code from strings
+    const context = vm.createContext(Object.create(null), {
+      codeGeneration: { strings: false, wasm: false },
+      microtaskMode: 'afterEvaluate',
+    });
+    const materialize = vm.runInContext(MATERIALIZE, context);
+    vm.runInContext(BOOTSTRAP, context)(
+      createBridge(materialize),
+      materialize(message.stdlib),
+      materialize(message.variables)
+    );
+    const value = new vm.Script(message.script).runInContext(context, {
+      timeout: message.timeout,
+    });
+    send({ type: 'result', value });
+  } catch (error) {
+    send({ type: 'error', error: serializeError(error) });
+  }
+});
+
+send({ type: 'ready' });
+`;
+
+function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+
+  return { name: 'Error', message: String(error) };
+}
+
+function toStdlibShape(stdlib: Record<string, unknown>): StdlibShape {
+  const shape: StdlibShape = {};
+  for (const [key, value] of Object.entries(stdlib)) {
+    if (typeof value === 'function') {
+      shape[key] = true;
+    } else if (typeof value === 'object' && value !== null) {
+      shape[key] = toStdlibShape(value as Record<string, unknown>);
+    }
+  }
+
+  return shape;
+}
+
+/** Copies the value without functions and class instances, which cannot be passed to the worker */
+function toTransferable(
+  value: unknown,
+  path: string,
+  log: LogFunction | undefined
+): unknown {
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    log?.('Omitting variable %s which cannot be passed to sandbox', path);
+
+    return undefined;
+  }
+
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    ArrayBuffer.isView(value) ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item: unknown, index) =>
+      toTransferable(item, `${path}[${index}]`, log)
+    );
+  }
+
+  if (isClassInstance(value)) {
+    log?.('Omitting variable %s which cannot be passed to sandbox', path);
+
+    return undefined;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = toTransferable(item, `${path}.${key}`, log);
+  }
+
+  return result;
+}
+
+/**
+ * Sandbox evaluating scripts in a separate `worker_threads` worker with a limited heap.
+ *
+ * Unlike `NodeSandbox`, scripts have no access to objects of the host, variables are copied into the sandbox.
+ * Functions and class instances, such as binary data, cannot be passed to the sandbox and are omitted.
+ * Binary values are available as `Uint8Array`.
+ */
+export class NodeWorkerSandbox implements ISandbox {
+  public static readonly DEFAULT_MAX_MEMORY = 64;
+  /** Time in milliseconds the worker has to start */
+  public static readonly STARTUP_TIMEOUT = 10_000;
+  /** Time in milliseconds the worker has to respond on top of `sandboxTimeout`, covering passing of values and stdlib calls */
+  public static readonly RESPONSE_GRACE = 1000;
+
+  private connection: Connection | undefined;
+  private readonly stdlibShapes = new WeakMap<Stdlib, StdlibShape>();
+
+  constructor(private readonly options?: WorkerSandboxOptions) {}
+
+  public evalScript(
+    config: IConfig,
+    js: string,
+    stdlib?: Stdlib,
+    logger?: ILogger,
+    variableDefinitions?: NonPrimitive
+  ): unknown {
+    const log = logger?.log(DEBUG_NAMESPACE);
+    const connection = this.connect(log);
+
+    log?.('Evaluating:', js);
+    connection.port.postMessage({
+      type: 'eval',
+      script: `
+        'use strict';
+        const vmResult = ${js}
+        ;vmResult`,
+      stdlib: stdlib !== undefined ? this.stdlibShape(stdlib) : undefined,
+      variables: toTransferable(variableDefinitions ?? {}, 'variables', log),
+      timeout: config.sandboxTimeout,
+    });
+
+    const deadline =
+      Date.now() + config.sandboxTimeout + NodeWorkerSandbox.RESPONSE_GRACE;
+    for (;;) {
+      const message = this.receive(connection, deadline);
+      switch (message.type) {
+        case 'call':
+          this.callStdlib(connection, stdlib, message.path, message.args);
+          break;
+
+        case 'result':
+          log?.('Result: %O', message.value);
+
+          return message.value;
+
+        case 'error': {
+          const error = new Error(message.error.message);
+          error.name = message.error.name;
+          throw error;
+        }
+
+        default:
+          throw new Error(`Unexpected sandbox message: ${message.type}`);
+      }
+    }
+  }
+
+  /** Terminates the worker, a new one is started by the next evaluation */
+  public async destroy(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+    await connection?.worker.terminate();
+  }
+
+  private connect(log: LogFunction | undefined): Connection {
+    if (this.connection !== undefined) {
+      return this.connection;
+    }
+
+    const { port1, port2 } = new MessageChannel();
+    const signal = new Int32Array(
+      new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT)
+    );
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { port: port2, signal: signal.buffer },
+      transferList: [port2],
+      resourceLimits: {
+        maxOldGenerationSizeMb:
+          this.options?.maxMemory ?? NodeWorkerSandbox.DEFAULT_MAX_MEMORY,
+      },
+    });
+    const connection = { worker, port: port1, signal };
+    // errors, such as exceeding the memory limit, terminate the worker
+    worker.on('error', error => log?.('Sandbox worker failed: %O', error));
+    worker.on('exit', () => {
+      if (this.connection === connection) {
+        this.connection = undefined;
+      }
+    });
+    worker.unref();
+    port1.unref();
+
+    this.connection = connection;
+    const message = this.receive(
+      connection,
+      Date.now() + NodeWorkerSandbox.STARTUP_TIMEOUT
+    );
+    if (message.type !== 'ready') {
+      throw new Error(`Unexpected sandbox message: ${message.type}`);
+    }
+
+    return connection;
+  }
+
+  private receive(connection: Connection, deadline: number): WorkerMessage {
+    for (;;) {
+      const received = receiveMessageOnPort(connection.port);
+      if (received !== undefined) {
+        return received.message as WorkerMessage;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        // the worker is stuck or was terminated for exceeding the memory limit
+        void this.destroy();
+
+        throw new Error(
+          'Sandbox worker did not respond in time, it may have exceeded its memory limit'
+        );
+      }
+
+      Atomics.wait(connection.signal, TO_HOST, 0, remaining);
+      Atomics.store(connection.signal, TO_HOST, 0);
+    }
+  }
+
+  private callStdlib(
+    connection: Connection,
+    stdlib: Stdlib | undefined,
+    path: string[],
+    args: unknown[]
+  ): void {
+    let reply: { value: unknown } | { error: SerializedError };
+    try {
+      let parent: unknown;
+      let member: unknown = stdlib;
+      for (const key of path) {
+        if (
+          typeof member !== 'object' ||
+          member === null ||
+          !Object.prototype.hasOwnProperty.call(member, key)
+        ) {
+          throw new Error(`Unknown stdlib function: ${path.join('.')}`);
+        }
+        parent = member;
+        member = (member as Record<string, unknown>)[key];
+      }
+      if (typeof member !== 'function') {
+        throw new Error(`Unknown stdlib function: ${path.join('.')}`);
+      }
+
+      reply = { value: member.apply(parent, args) as unknown };
+    } catch (error: unknown) {
+      reply = { error: serializeError(error) };
+    }
+
+    try {
+      connection.port.postMessage(reply);
+    } catch (error: unknown) {
+      // the result cannot be passed to the worker
+      connection.port.postMessage({ error: serializeError(error) });
+    }
+    Atomics.store(connection.signal, TO_WORKER, 1);
+    Atomics.notify(connection.signal, TO_WORKER);
+  }
+
+  private stdlibShape(stdlib: Stdlib): StdlibShape {
+    let shape = this.stdlibShapes.get(stdlib);
+    if (shape === undefined) {
+      shape = toStdlibShape(stdlib);
+      this.stdlibShapes.set(stdlib, shape);
+    }
+
+    return shape;
+  }
+}
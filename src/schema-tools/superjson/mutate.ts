@@ -1,15 +1,3 @@
-import type {
-  ProfileEntry,
-  ProfileProviderDefaults,
-  ProfileProviderEntry,
-  ProfileProviderSettings,
-  ProfileSettings,
-  ProviderEntry,
-  ProviderSettings,
-  SecurityValues,
-  SuperJsonDocument,
-  UsecaseDefaults,
-} from '@superfaceai/ast';
 import { isFileURIString, isVersionString } from '@superfaceai/ast';
 
 import type { IEnvironment, IFileSystem, ILogger } from '../../interfaces';
@@ -24,6 +12,18 @@ import {
 } from '../../lib';
 import { profileNotFoundError, providersNotSetError } from './errors.helpers';
 import { normalizeProfileSettings } from './normalize';
+import type {
+  ProfileEntry,
+  ProfileProviderDefaults,
+  ProfileProviderEntry,
+  ProfileProviderSettings,
+  ProfileSettings,
+  ProviderEntry,
+  ProviderSettings,
+  SecurityValues,
+  SuperJsonDocument,
+  UsecaseDefaults,
+} from './superjson';
 import { composeFileURI, trimFileURI } from './utils';
 
 /** Merges profile defaults into the document or creates the profile if it doesn't exist. */
@@ -12,11 +12,13 @@ import {
 
 import { MockEnvironment } from '../../mock';
 import {
+  normalizeBackoff,
   normalizeProfileProviderSettings,
   normalizeProfileSettings,
   normalizeProviderSettings,
   normalizeSuperJsonDocument,
 } from './normalize';
+import { JitterBackoffKind, RoutingKind } from './superjson';
 import { parseSuperJson } from './utils';
 
 describe('SuperJson normalization', () => {
@@ -89,6 +91,90 @@ describe('SuperJson normalization', () => {
       });
     });
 
+    it('returns correct object when entry contains concurrency limit', async () => {
+      const mockDefaults: NormalizedUsecaseDefaults = {};
+
+      expect(
+        normalizeProfileProviderSettings(
+          {
+            defaults: {
+              Usecase: {
+                concurrencyLimit: { maxConcurrent: 2, maxQueued: 5 },
+              },
+            },
+          },
+          mockDefaults
+        )
+      ).toEqual({
+        defaults: {
+          Usecase: {
+            input: {},
+            retryPolicy: { kind: OnFail.NONE },
+            concurrencyLimit: { maxConcurrent: 2, maxQueued: 5 },
+          },
+        },
+      });
+    });
+
+    it('returns correct object when entry contains retry on without retries', async () => {
+      expect(
+        normalizeProfileProviderSettings(
+          {
+            defaults: {
+              Usecase: {
+                retryPolicy: {
+                  kind: OnFail.NONE,
+                  retryOn: { statusCodes: [503] },
+                },
+              },
+            },
+          },
+          {}
+        )
+      ).toEqual({
+        defaults: {
+          Usecase: {
+            input: {},
+            retryPolicy: {
+              kind: OnFail.NONE,
+              retryOn: { statusCodes: [503] },
+            },
+          },
+        },
+      });
+    });
+
+    it('returns correct object when usecase defaults contain extensions', async () => {
+      expect(
+        normalizeProfileSettings(
+          {
+            version: '1.0.0',
+            defaults: {
+              Test: {
+                hedging: { percentile: 90 },
+                retryUnsafe: true,
+                timeout: 5000,
+              },
+            },
+          },
+          []
+        )
+      ).toEqual({
+        version: '1.0.0',
+        priority: [],
+        defaults: {
+          Test: {
+            input: {},
+            providerFailover: false,
+            hedging: { percentile: 90 },
+            retryUnsafe: true,
+            timeout: 5000,
+          },
+        },
+        providers: {},
+      });
+    });
+
     it('returns correct object when entry contains ast', async () => {
       const mockProfileProviderEntry: ProfileProviderEntry = {
         ast: {
@@ -175,6 +261,21 @@ describe('SuperJson normalization', () => {
       });
     });
 
+    it('returns correct object when entry contains routing', async () => {
+      expect(
+        normalizeProfileSettings(
+          { version: '1.0.0', routing: RoutingKind.ROUND_ROBIN },
+          ['first', 'second']
+        )
+      ).toEqual({
+        version: '1.0.0',
+        priority: ['first', 'second'],
+        routing: { kind: RoutingKind.ROUND_ROBIN },
+        defaults: {},
+        providers: {},
+      });
+    });
+
     it('returns correct object when entry contains ast', async () => {
       const mockProfileEntry: ProfileEntry = {
         ast: {
@@ -213,6 +314,33 @@ describe('SuperJson normalization', () => {
     });
   });
 
+  describe('when normalizing backoff', () => {
+    it('returns exponential backoff when entry is undefined', () => {
+      expect(normalizeBackoff(undefined)).toEqual({
+        kind: BackoffKind.EXPONENTIAL,
+      });
+    });
+
+    it('expands jitter backoff kind', () => {
+      expect(normalizeBackoff(JitterBackoffKind.FULL_JITTER)).toEqual({
+        kind: JitterBackoffKind.FULL_JITTER,
+      });
+    });
+
+    it('merges jitter backoff with base', () => {
+      expect(
+        normalizeBackoff(
+          { kind: JitterBackoffKind.DECORRELATED_JITTER, start: 100 },
+          { kind: BackoffKind.EXPONENTIAL, start: 10, maximum: 1000 }
+        )
+      ).toEqual({
+        kind: JitterBackoffKind.DECORRELATED_JITTER,
+        start: 100,
+        maximum: 1000,
+      });
+    });
+  });
+
   describe('when normalizing provider settings', () => {
     it('returns correct object when entry is uri', async () => {
       const mockProviderEntry = 'file://some/path';
@@ -276,6 +404,49 @@ describe('SuperJson normalization', () => {
       );
     });
 
+    it('returns correct object when entry contains rate limits', async () => {
+      expect(
+        normalizeProviderSettings({
+          file: 'some/path',
+          rateLimit: { requests: 10 },
+          services: { default: { rateLimit: { requests: 2, maxWait: 0 } } },
+        })
+      ).toEqual({
+        file: 'some/path',
+        security: [],
+        parameters: {},
+        rateLimit: { requests: 10 },
+        services: { default: { rateLimit: { requests: 2, maxWait: 0 } } },
+      });
+    });
+
+    it('resolves environment variables in TLS options', async () => {
+      const environment = new MockEnvironment();
+      environment.addValue('CLIENT_CERT', 'cert-pem');
+      environment.addValue('CLIENT_KEY', 'key-pem');
+
+      expect(
+        normalizeProviderSettings(
+          {
+            file: 'some/path',
+            tls: { cert: '$CLIENT_CERT', key: '$CLIENT_KEY' },
+            services: {
+              default: { tls: { ca: '$CLIENT_CERT', minVersion: 'TLSv1.3' } },
+            },
+          },
+          environment
+        )
+      ).toEqual({
+        file: 'some/path',
+        security: [],
+        parameters: {},
+        tls: { cert: 'cert-pem', key: 'key-pem' },
+        services: {
+          default: { tls: { ca: 'cert-pem', minVersion: 'TLSv1.3' } },
+        },
+      });
+    });
+
     it('returns correct object when entry is a object with ast', async () => {
       const environment = new MockEnvironment();
       const mockProviderEntry = {
@@ -1,21 +1,3 @@
-import type {
-  BackoffPolicy,
-  NormalizedBackoffPolicy,
-  NormalizedProfileProviderDefaults,
-  NormalizedProfileProviderSettings,
-  NormalizedProfileSettings,
-  NormalizedProviderSettings,
-  NormalizedRetryPolicy,
-  NormalizedSuperJsonDocument,
-  NormalizedUsecaseDefaults,
-  ProfileEntry,
-  ProfileProviderDefaults,
-  ProfileProviderEntry,
-  ProviderEntry,
-  RetryPolicy,
-  SuperJsonDocument,
-  UsecaseDefaults,
-} from '@superfaceai/ast';
 import {
   BackoffKind,
   FILE_URI_PROTOCOL,
@@ -34,6 +16,27 @@ import {
   UnexpectedError,
 } from '../../lib';
 import { invalidProfileProviderError } from './errors.helpers';
+import type {
+  BackoffPolicy,
+  JitterBackoffKind,
+  NormalizedBackoffPolicy,
+  NormalizedProfileProviderDefaults,
+  NormalizedProfileProviderSettings,
+  NormalizedProfileSettings,
+  NormalizedProviderSettings,
+  NormalizedRetryPolicy,
+  NormalizedRoutingPolicy,
+  NormalizedSuperJsonDocument,
+  NormalizedUsecaseDefaults,
+  ProfileEntry,
+  ProfileProviderDefaults,
+  ProfileProviderEntry,
+  ProviderEntry,
+  RetryPolicy,
+  RoutingPolicy,
+  SuperJsonDocument,
+  UsecaseDefaults,
+} from './superjson';
 
 export function normalizeProfileProviderSettings(
   profileProviderSettings: ProfileProviderEntry | undefined,
@@ -99,20 +102,34 @@ export function normalizeBackoff(
   }
 
   // string-to-object expansion
-  let objectBackoff: Exclude<BackoffPolicy, BackoffKind>;
-  if (backoff === BackoffKind.EXPONENTIAL) {
-    objectBackoff = { kind: BackoffKind.EXPONENTIAL };
+  let objectBackoff: Exclude<BackoffPolicy, BackoffKind | JitterBackoffKind>;
+  if (typeof backoff === 'string') {
+    objectBackoff = { kind: backoff };
   } else {
     objectBackoff = backoff;
   }
 
+  const maximum = objectBackoff.maximum ?? base?.maximum;
+
   return {
-    kind: BackoffKind.EXPONENTIAL,
+    kind: objectBackoff.kind,
     start: objectBackoff.start ?? base?.start,
     factor: objectBackoff.factor ?? base?.factor,
+    ...(maximum !== undefined ? { maximum } : {}),
   };
 }
 
+export function normalizeRouting(
+  routing: RoutingPolicy
+): NormalizedRoutingPolicy {
+  // string-to-object expansion
+  if (typeof routing === 'string') {
+    return { kind: routing };
+  }
+
+  return routing;
+}
+
 export function normalizeRetryPolicy(
   retryPolicy?: RetryPolicy,
   base?: NormalizedRetryPolicy
@@ -141,6 +158,8 @@ export function normalizeRetryPolicy(
     if (base?.kind === OnFail.SIMPLE) {
       objectRetryPolicy.maxContiguousRetries ??= base.maxContiguousRetries;
       objectRetryPolicy.requestTimeout ??= base.requestTimeout;
+      objectRetryPolicy.maxRetryAfter ??= base.maxRetryAfter;
+      objectRetryPolicy.retryOn ??= base.retryOn;
     }
 
     return objectRetryPolicy;
@@ -152,6 +171,8 @@ export function normalizeRetryPolicy(
       objectRetryPolicy.maxContiguousRetries ??= base.maxContiguousRetries;
       objectRetryPolicy.requestTimeout ??= base.requestTimeout;
       objectRetryPolicy.openTime ??= base.openTime;
+      objectRetryPolicy.maxRetryAfter ??= base.maxRetryAfter;
+      objectRetryPolicy.retryOn ??= base.retryOn;
       normalizedBackoff = normalizeBackoff(
         objectRetryPolicy.backoff,
         base.backoff
@@ -166,6 +187,10 @@ export function normalizeRetryPolicy(
     };
   }
 
+  if (base?.kind === OnFail.NONE) {
+    objectRetryPolicy.retryOn ??= base.retryOn;
+  }
+
   return objectRetryPolicy;
 }
 
@@ -193,6 +218,10 @@ export function normalizeUsecaseDefaults(
       providerFailover = normalized[usecase]?.providerFailover;
     }
 
+    const hedging = defs.hedging ?? normalized[usecase]?.hedging;
+    const retryUnsafe = defs.retryUnsafe ?? normalized[usecase]?.retryUnsafe;
+    const timeout = defs.timeout ?? normalized[usecase]?.timeout;
+
     normalized[usecase] = {
       input: mergeVariables(
         previousInput,
@@ -200,6 +229,15 @@ export function normalizeUsecaseDefaults(
       ),
       providerFailover: providerFailover ?? false,
     };
+    if (hedging !== undefined) {
+      normalized[usecase].hedging = hedging;
+    }
+    if (retryUnsafe !== undefined) {
+      normalized[usecase].retryUnsafe = retryUnsafe;
+    }
+    if (timeout !== undefined) {
+      normalized[usecase].timeout = timeout;
+    }
   }
 
   if (environment !== undefined) {
@@ -234,6 +272,9 @@ export function normalizeProfileProviderDefaults(
       ),
       retryPolicy: normalizeRetryPolicy(defs.retryPolicy),
     };
+    if (defs.concurrencyLimit !== undefined) {
+      normalized[usecase].concurrencyLimit = defs.concurrencyLimit;
+    }
   }
 
   if (environment !== undefined) {
@@ -323,6 +364,10 @@ export function normalizeProfileSettings(
       providerOrder.length > 0 ? providerOrder : topProviderOrder;
   }
 
+  if (profileEntry.routing !== undefined) {
+    normalizedSettings.routing = normalizeRouting(profileEntry.routing);
+  }
+
   return normalizedSettings;
 }
 
@@ -361,6 +406,18 @@ export function normalizeProviderSettings(
     };
   }
 
+  if (providerEntry.rateLimit !== undefined) {
+    normalizedSettings.rateLimit = providerEntry.rateLimit;
+  }
+
+  if (providerEntry.tls !== undefined) {
+    normalizedSettings.tls = providerEntry.tls;
+  }
+
+  if (providerEntry.services !== undefined) {
+    normalizedSettings.services = providerEntry.services;
+  }
+
   if (environment !== undefined) {
     return {
       ...normalizedSettings,
@@ -372,6 +429,18 @@ export function normalizeProviderSettings(
         environment,
         logger
       ),
+      ...(normalizedSettings.tls !== undefined
+        ? { tls: resolveEnvRecord(normalizedSettings.tls, environment, logger) }
+        : {}),
+      ...(normalizedSettings.services !== undefined
+        ? {
+            services: resolveEnvRecord(
+              normalizedSettings.services,
+              environment,
+              logger
+            ),
+          }
+        : {}),
     };
   }
 
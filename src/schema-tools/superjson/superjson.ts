@@ -0,0 +1,1133 @@
+/*
+ * super.json types extended with settings the SDK supports on top of the super.json schema from `@superfaceai/ast`.
+ *
+ * Types that are not extended are re-exported from `@superfaceai/ast` unchanged.
+ */
+import type {
+  BackoffKind,
+  NormalizedProviderSettings as AstNormalizedProviderSettings,
+  NormalizedUsecaseDefaults as AstNormalizedUsecaseDefaults,
+  OnFail,
+  ProviderSettings as AstProviderSettings,
+  SecurityValues as AstSecurityValues,
+  SemanticVersion,
+  UriPath,
+  UsecaseDefaults as AstUsecaseDefaults,
+} from '@superfaceai/ast';
+
+import { clone } from '../../lib';
+
+/**
+ * Security values for the OAuth 2.0 client credentials grant.
+ *
+ * Access tokens obtained from the token endpoint are sent as bearer tokens, so these values are used with bearer security schemes.
+ */
+export type OAuth2ClientCredentialsSecurityValues = {
+  id: string;
+  clientId: string;
+  clientSecret: string;
+  /** URL of the token endpoint of the authorization server */
+  tokenUrl: string;
+  /** Space-separated list of scopes to request */
+  scope?: string;
+};
+
+/**
+ * Security values for OAuth 2.0 tokens issued to an end user.
+ *
+ * The access token is exchanged for a new one using the refresh token when it expires or the provider rejects it.
+ */
+export type OAuth2RefreshTokenSecurityValues = {
+  id: string;
+  clientId: string;
+  clientSecret: string;
+  /** URL of the token endpoint of the authorization server */
+  tokenUrl: string;
+  refreshToken: string;
+  /** Access token to use until it expires or is rejected, a new one is requested when not set */
+  accessToken?: string;
+  /** Expiration of the access token as ISO 8601 date, the access token is used until it is rejected when not set */
+  expiresAt?: string;
+};
+
+/**
+ * Security values for AWS Signature Version 4.
+ *
+ * Requests are signed with these credentials instead of using the security scheme, so these values are used with any http security scheme.
+ */
+export type AwsSignatureV4SecurityValues = {
+  id: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token of temporary credentials */
+  sessionToken?: string;
+  /** AWS region, e.g. `us-east-1` */
+  region: string;
+  /** Signing name of the AWS service, e.g. `execute-api` */
+  service: string;
+};
+
+export type HmacSignedComponent = 'method' | 'path' | 'timestamp' | 'body';
+
+/**
+ * Security values for HMAC request signing.
+ *
+ * Signed components of the request are joined by newlines and the signature is sent in a header, so these values are used with any http security scheme.
+ */
+export type HmacSecurityValues = {
+  id: string;
+  /** Shared secret used as the HMAC key */
+  secret: string;
+  /** Defaults to `sha256` */
+  algorithm?: 'sha256' | 'sha512';
+  /** Header carrying the signature, defaults to `X-Signature` */
+  header?: string;
+  /** Prefix of the signature in the header, e.g. `sha256=` */
+  prefix?: string;
+  /** Components of the request to sign in this order, defaults to method, path, timestamp and body */
+  components?: HmacSignedComponent[];
+  /** Defaults to `hex` */
+  encoding?: 'hex' | 'base64';
+  /** Header carrying the signed unix timestamp in seconds, defaults to `X-Timestamp` */
+  timestampHeader?: string;
+};
+
+/** Authorization variables. */
+export type SecurityValues =
+  | AstSecurityValues
+  | OAuth2ClientCredentialsSecurityValues
+  | OAuth2RefreshTokenSecurityValues
+  | AwsSignatureV4SecurityValues
+  | HmacSecurityValues;
+
+export enum JitterBackoffKind {
+  FULL_JITTER = 'full-jitter',
+  EQUAL_JITTER = 'equal-jitter',
+  DECORRELATED_JITTER = 'decorrelated-jitter',
+}
+
+export type BackoffPolicy =
+  | BackoffKind.EXPONENTIAL
+  | JitterBackoffKind
+  | {
+      kind: BackoffKind.EXPONENTIAL | JitterBackoffKind;
+      /**
+       * @TJS-minimum 0
+       * @TJS-type integer
+       **/
+      start?: number;
+      /**
+       * Exponent base of exponential backoffs or multiplier of decorrelated jitter backoff
+       *
+       * @TJS-minimum 0
+       * @TJS-type integer
+       **/
+      factor?: number;
+      /**
+       * Maximum backoff in milliseconds, defaults to 60000
+       *
+       * @TJS-minimum 0
+       * @TJS-type integer
+       **/
+      maximum?: number;
+    };
+
+export type NormalizedBackoffPolicy = {
+  kind: BackoffKind.EXPONENTIAL | JitterBackoffKind;
+  start?: number;
+  factor?: number;
+  maximum?: number;
+};
+
+/** Failures worth retrying, each omitted list means all failures of that kind are retried */
+export type RetryOnPolicy = {
+  /** HTTP status codes of responses worth retrying */
+  statusCodes?: number[];
+  /** Network failures worth retrying */
+  networkIssues?: ('unsigned-ssl' | 'dns' | 'timeout' | 'reject')[];
+  /** Request failures worth retrying */
+  requestIssues?: ('abort' | 'timeout')[];
+};
+
+export type RetryPolicy =
+  | OnFail.NONE
+  | {
+      kind: OnFail.NONE;
+      /** Failures worth failing over to another provider */
+      retryOn?: RetryOnPolicy;
+    }
+  | OnFail.SIMPLE
+  | {
+      kind: OnFail.SIMPLE;
+      maxContiguousRetries?: number;
+      requestTimeout?: number;
+      /**
+       * Maximum time in milliseconds to wait when the provider asks for it with `Retry-After` or rate limit headers
+       *
+       * @TJS-minimum 0
+       * @TJS-type integer
+       **/
+      maxRetryAfter?: number;
+      retryOn?: RetryOnPolicy;
+    }
+  | OnFail.CIRCUIT_BREAKER
+  | {
+      kind: OnFail.CIRCUIT_BREAKER;
+      maxContiguousRetries?: number;
+      openTime?: number;
+      requestTimeout?: number;
+      /**
+       * Maximum time in milliseconds to wait when the provider asks for it with `Retry-After` or rate limit headers
+       *
+       * @TJS-minimum 0
+       * @TJS-type integer
+       **/
+      maxRetryAfter?: number;
+      retryOn?: RetryOnPolicy;
+      backoff?: BackoffPolicy;
+    };
+
+export type NormalizedRetryPolicy =
+  | {
+      kind: OnFail.NONE;
+      retryOn?: RetryOnPolicy;
+    }
+  | {
+      kind: OnFail.SIMPLE;
+      maxContiguousRetries?: number;
+      requestTimeout?: number;
+      maxRetryAfter?: number;
+      retryOn?: RetryOnPolicy;
+    }
+  | {
+      kind: OnFail.CIRCUIT_BREAKER;
+      maxContiguousRetries?: number;
+      openTime?: number;
+      requestTimeout?: number;
+      maxRetryAfter?: number;
+      retryOn?: RetryOnPolicy;
+      backoff: NormalizedBackoffPolicy;
+    };
+
+/** Limit of concurrent requests to the provider, requests over the limit wait in a queue */
+export type ConcurrencyLimitPolicy = {
+  /**
+   * Maximum number of requests in flight
+   *
+   * @TJS-minimum 1
+   * @TJS-type integer
+   **/
+  maxConcurrent: number;
+  /**
+   * Maximum number of requests waiting for a free slot
+   *
+   * @TJS-minimum 0
+   * @TJS-type integer
+   **/
+  maxQueued?: number;
+  /**
+   * Time in milliseconds after which a waiting request is aborted
+   *
+   * @TJS-minimum 0
+   * @TJS-type integer
+   **/
+  queueTimeout?: number;
+};
+
+/** Hedging of performs which take too long, performs are hedged only for safe and idempotent usecases */
+export type HedgingPolicy = {
+  /**
+   * Percentile of latencies of recent performs after which the perform is repeated with the next provider, defaults to 95
+   *
+   * @TJS-minimum 1
+   * @TJS-maximum 100
+   **/
+  percentile?: number;
+  /**
+   * Time in milliseconds after which the perform is repeated until enough performs are observed, defaults to one second
+   *
+   * @TJS-minimum 0
+   * @TJS-type integer
+   **/
+  initialDelay?: number;
+};
+
+export type UsecaseDefaults = {
+  [usecase: string]: AstUsecaseDefaults[string] & {
+    hedging?: HedgingPolicy;
+    /** Allows retrying and failing over an unsafe usecase after the request reached the server, defaults to false */
+    retryUnsafe?: boolean;
+    /**
+     * Time in milliseconds in which the whole perform must finish, including retries, backoffs and provider failovers
+     *
+     * @TJS-minimum 1
+     * @TJS-type integer
+     **/
+    timeout?: number;
+  };
+};
+
+export type NormalizedUsecaseDefaults = {
+  [usecase: string]: AstNormalizedUsecaseDefaults[string] & {
+    hedging?: HedgingPolicy;
+    retryUnsafe?: boolean;
+    timeout?: number;
+  };
+};
+
+export type ProfileProviderDefaults = {
+  [usecase: string]: {
+    input?: { [key: string]: unknown };
+    retryPolicy?: RetryPolicy;
+    concurrencyLimit?: ConcurrencyLimitPolicy;
+  };
+};
+
+export type NormalizedProfileProviderDefaults = {
+  [usecase: string]: {
+    input: { [key: string]: unknown };
+    retryPolicy: NormalizedRetryPolicy;
+    concurrencyLimit?: ConcurrencyLimitPolicy;
+  };
+};
+
+export type ProfileProviderSettings = {
+  defaults?: ProfileProviderDefaults;
+} & (
+  | {
+      file: string;
+    }
+  | {
+      mapVariant?: string;
+      mapRevision?: string;
+    }
+);
+
+export type NormalizedProfileProviderSettings =
+  | {
+      file: string;
+      defaults: NormalizedProfileProviderDefaults;
+    }
+  | {
+      mapVariant?: string;
+      mapRevision?: string;
+      defaults: NormalizedProfileProviderDefaults;
+    };
+
+export type ProfileProviderEntry = UriPath | ProfileProviderSettings;
+
+export enum RoutingKind {
+  PRIORITY = 'priority',
+  ROUND_ROBIN = 'round-robin',
+  WEIGHTED = 'weighted',
+  LATENCY = 'latency',
+}
+
+/** Strategy which selects the provider of each perform, providers are used in the order of `priority` by default */
+export type RoutingPolicy =
+  | RoutingKind
+  | {
+      kind: RoutingKind.PRIORITY | RoutingKind.ROUND_ROBIN;
+    }
+  | {
+      kind: RoutingKind.WEIGHTED;
+      /** Relative weights of providers, providers without a weight have weight 1 */
+      weights?: { [provider: string]: number };
+    }
+  | {
+      kind: RoutingKind.LATENCY;
+      /**
+       * Weight of the newest observation in moving averages of latency and success rate, from 0 to 1
+       *
+       * @TJS-minimum 0
+       * @TJS-maximum 1
+       **/
+      smoothing?: number;
+    };
+
+export type NormalizedRoutingPolicy =
+  | {
+      kind: RoutingKind.PRIORITY | RoutingKind.ROUND_ROBIN;
+    }
+  | {
+      kind: RoutingKind.WEIGHTED;
+      weights?: { [provider: string]: number };
+    }
+  | {
+      kind: RoutingKind.LATENCY;
+      smoothing?: number;
+    };
+
+export type ProfileSettings = {
+  priority?: string[];
+  routing?: RoutingPolicy;
+  defaults?: UsecaseDefaults;
+  providers?: {
+    [provider: string]: ProfileProviderEntry;
+  };
+} & (
+  | {
+      version: SemanticVersion;
+    }
+  | {
+      file: string;
+    }
+);
+
+export type NormalizedProfileSettings = {
+  priority: string[];
+  routing?: NormalizedRoutingPolicy;
+  defaults: NormalizedUsecaseDefaults;
+  providers: {
+    [provider: string]: NormalizedProfileProviderSettings;
+  };
+} & (
+  | {
+      version: SemanticVersion;
+    }
+  | {
+      file: string;
+    }
+);
+
+export type ProfileEntry = SemanticVersion | UriPath | ProfileSettings;
+
+/** Client-side limit of the rate of requests sent to the provider */
+export type RateLimitPolicy = {
+  /**
+   * Number of requests allowed per interval
+   *
+   * @TJS-minimum 1
+   * @TJS-type integer
+   **/
+  requests: number;
+  /**
+   * Length of the interval in milliseconds, defaults to one second
+   *
+   * @TJS-minimum 1
+   * @TJS-type integer
+   **/
+  interval?: number;
+  /**
+   * Maximum number of requests sent at once after a period of inactivity, defaults to `requests`
+   *
+   * @TJS-minimum 1
+   * @TJS-type integer
+   **/
+  burst?: number;
+  /**
+   * Maximum time in milliseconds a request waits for the budget before it is rejected, requests wait indefinitely by default
+   *
+   * @TJS-minimum 0
+   * @TJS-type integer
+   **/
+  maxWait?: number;
+};
+
+/** TLS options of connections to the provider, PEM values can reference environment variables */
+export type TlsSettings = {
+  /** Client certificate chain in PEM format */
+  cert?: string;
+  /** Private key of the client certificate in PEM format */
+  key?: string;
+  /** Passphrase of the private key */
+  passphrase?: string;
+  /** Certificate authorities in PEM format trusted instead of the default ones */
+  ca?: string;
+  /** Server name used for SNI and certificate verification, defaults to the host name */
+  serverName?: string;
+  minVersion?: 'TLSv1' | 'TLSv1.1' | 'TLSv1.2' | 'TLSv1.3';
+};
+
+export type ProviderServiceSettings = {
+  rateLimit?: RateLimitPolicy;
+  /** Overrides TLS options of the provider for this service */
+  tls?: TlsSettings;
+};
+
+export type ProviderSettings = Omit<AstProviderSettings, 'security'> & {
+  security?: SecurityValues[];
+  rateLimit?: RateLimitPolicy;
+  tls?: TlsSettings;
+  services?: {
+    [serviceId: string]: ProviderServiceSettings;
+  };
+};
+
+export type NormalizedProviderSettings = Omit<
+  AstNormalizedProviderSettings,
+  'security'
+> & {
+  security: SecurityValues[];
+  rateLimit?: RateLimitPolicy;
+  tls?: TlsSettings;
+  services?: {
+    [serviceId: string]: ProviderServiceSettings;
+  };
+};
+
+export type ProviderEntry = UriPath | ProviderSettings;
+
+export type SuperJsonDocument = {
+  profiles?: {
+    [profile: string]: ProfileEntry;
+  };
+  providers?: {
+    [provider: string]: ProviderEntry;
+  };
+};
+
+export type NormalizedSuperJsonDocument = {
+  profiles: {
+    [profile: string]: NormalizedProfileSettings;
+  };
+  providers: {
+    [provider: string]: NormalizedProviderSettings;
+  };
+};
+
+function isRecord(input: unknown): input is Record<string, unknown> {
+  return typeof input === 'object' && input !== null && !Array.isArray(input);
+}
+
+const OAUTH2_CLIENT_CREDENTIALS_PROPERTIES = [
+  'id',
+  'clientId',
+  'clientSecret',
+  'tokenUrl',
+  'scope',
+];
+
+export function isOAuth2ClientCredentialsSecurityValues(
+  input: unknown
+): input is OAuth2ClientCredentialsSecurityValues {
+  return (
+    isRecord(input) &&
+    typeof input.id === 'string' &&
+    typeof input.clientId === 'string' &&
+    typeof input.clientSecret === 'string' &&
+    typeof input.tokenUrl === 'string' &&
+    (input.scope === undefined || typeof input.scope === 'string')
+  );
+}
+
+const OAUTH2_REFRESH_TOKEN_PROPERTIES = [
+  'id',
+  'clientId',
+  'clientSecret',
+  'tokenUrl',
+  'refreshToken',
+  'accessToken',
+  'expiresAt',
+];
+
+export function isOAuth2RefreshTokenSecurityValues(
+  input: unknown
+): input is OAuth2RefreshTokenSecurityValues {
+  return (
+    isRecord(input) &&
+    typeof input.id === 'string' &&
+    typeof input.clientId === 'string' &&
+    typeof input.clientSecret === 'string' &&
+    typeof input.tokenUrl === 'string' &&
+    typeof input.refreshToken === 'string' &&
+    (input.accessToken === undefined ||
+      typeof input.accessToken === 'string') &&
+    (input.expiresAt === undefined || typeof input.expiresAt === 'string')
+  );
+}
+
+const AWS_SIGNATURE_V4_PROPERTIES = [
+  'id',
+  'accessKeyId',
+  'secretAccessKey',
+  'sessionToken',
+  'region',
+  'service',
+];
+
+export function isAwsSignatureV4SecurityValues(
+  input: unknown
+): input is AwsSignatureV4SecurityValues {
+  return (
+    isRecord(input) &&
+    typeof input.id === 'string' &&
+    typeof input.accessKeyId === 'string' &&
+    typeof input.secretAccessKey === 'string' &&
+    (input.sessionToken === undefined ||
+      typeof input.sessionToken === 'string') &&
+    typeof input.region === 'string' &&
+    typeof input.service === 'string'
+  );
+}
+
+const HMAC_PROPERTIES = [
+  'id',
+  'secret',
+  'algorithm',
+  'header',
+  'prefix',
+  'components',
+  'encoding',
+  'timestampHeader',
+];
+const HMAC_SIGNED_COMPONENTS: HmacSignedComponent[] = [
+  'method',
+  'path',
+  'timestamp',
+  'body',
+];
+
+export function isHmacSecurityValues(
+  input: unknown
+): input is HmacSecurityValues {
+  return (
+    isRecord(input) &&
+    typeof input.id === 'string' &&
+    typeof input.secret === 'string' &&
+    (input.algorithm === undefined ||
+      input.algorithm === 'sha256' ||
+      input.algorithm === 'sha512') &&
+    (input.header === undefined || typeof input.header === 'string') &&
+    (input.prefix === undefined || typeof input.prefix === 'string') &&
+    (input.components === undefined ||
+      (Array.isArray(input.components) &&
+        input.components.every((component: unknown) =>
+          HMAC_SIGNED_COMPONENTS.some(known => known === component)
+        ))) &&
+    (input.encoding === undefined ||
+      input.encoding === 'hex' ||
+      input.encoding === 'base64') &&
+    (input.timestampHeader === undefined ||
+      typeof input.timestampHeader === 'string')
+  );
+}
+
+function isBackoffExtension(backoff: unknown): boolean {
+  if (typeof backoff === 'string') {
+    return Object.values<string>(JitterBackoffKind).includes(backoff);
+  }
+
+  return (
+    isRecord(backoff) &&
+    ((typeof backoff.kind === 'string' &&
+      Object.values<string>(JitterBackoffKind).includes(backoff.kind)) ||
+      'maximum' in backoff)
+  );
+}
+
+function assertNonNegativeInteger(value: unknown, path: string): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${path} must be a non-negative integer`);
+  }
+}
+
+function assertBackoffExtension(backoff: unknown, path: string): void {
+  if (typeof backoff === 'string') {
+    return;
+  }
+
+  if (!isRecord(backoff)) {
+    throw new Error(`${path} must be a string or an object`);
+  }
+
+  for (const [key, value] of Object.entries(backoff)) {
+    if (key === 'kind') {
+      continue;
+    }
+
+    if (!['start', 'factor', 'maximum'].includes(key)) {
+      throw new Error(`${path} must NOT have additional property "${key}"`);
+    }
+
+    assertNonNegativeInteger(value, `${path}/${key}`);
+  }
+}
+
+function assertArrayOf(
+  value: unknown,
+  path: string,
+  assertItem: (item: unknown, path: string) => void
+): void {
+  if (!Array.isArray(value)) {
+    throw new Error(`${path} must be an array`);
+  }
+
+  value.forEach((item, index) => assertItem(item, `${path}/${index}`));
+}
+
+function assertOneOf(
+  allowed: string[]
+): (value: unknown, path: string) => void {
+  return (value, path) => {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      throw new Error(`${path} must be one of ${allowed.join(', ')}`);
+    }
+  };
+}
+
+function assertStatusCode(value: unknown, path: string): void {
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < 100 ||
+    value > 599
+  ) {
+    throw new Error(`${path} must be an HTTP status code`);
+  }
+}
+
+const RETRY_ON_PROPERTIES: Record<
+  string,
+  (value: unknown, path: string) => void
+> = {
+  statusCodes: assertStatusCode,
+  networkIssues: assertOneOf(['unsigned-ssl', 'dns', 'timeout', 'reject']),
+  requestIssues: assertOneOf(['abort', 'timeout']),
+};
+
+function assertRetryOn(retryOn: unknown, path: string): void {
+  if (!isRecord(retryOn)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  for (const [key, value] of Object.entries(retryOn)) {
+    const assertItem = RETRY_ON_PROPERTIES[key];
+    if (assertItem === undefined) {
+      throw new Error(`${path} must NOT have additional property "${key}"`);
+    }
+
+    assertArrayOf(value, `${path}/${key}`, assertItem);
+  }
+}
+
+function assertConcurrencyLimit(concurrencyLimit: unknown, path: string): void {
+  if (!isRecord(concurrencyLimit)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  if (!('maxConcurrent' in concurrencyLimit)) {
+    throw new Error(`${path} must have required property "maxConcurrent"`);
+  }
+
+  for (const [key, value] of Object.entries(concurrencyLimit)) {
+    if (!['maxConcurrent', 'maxQueued', 'queueTimeout'].includes(key)) {
+      throw new Error(`${path} must NOT have additional property "${key}"`);
+    }
+
+    assertNonNegativeInteger(value, `${path}/${key}`);
+  }
+
+  if (concurrencyLimit.maxConcurrent === 0) {
+    throw new Error(`${path}/maxConcurrent must be greater than 0`);
+  }
+}
+
+function assertWeights(weights: unknown, path: string): void {
+  if (!isRecord(weights)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  for (const [provider, weight] of Object.entries(weights)) {
+    assertNonNegativeInteger(weight, `${path}/${provider}`);
+  }
+}
+
+function assertSmoothing(smoothing: unknown, path: string): void {
+  if (typeof smoothing !== 'number' || smoothing <= 0 || smoothing > 1) {
+    throw new Error(`${path} must be a number greater than 0 and at most 1`);
+  }
+}
+
+const ROUTING_PROPERTIES: Record<
+  RoutingKind,
+  Record<string, (value: unknown, path: string) => void>
+> = {
+  [RoutingKind.PRIORITY]: {},
+  [RoutingKind.ROUND_ROBIN]: {},
+  [RoutingKind.WEIGHTED]: { weights: assertWeights },
+  [RoutingKind.LATENCY]: { smoothing: assertSmoothing },
+};
+
+function assertRouting(routing: unknown, path: string): void {
+  const assertKind = assertOneOf(Object.values<string>(RoutingKind));
+  if (typeof routing === 'string') {
+    assertKind(routing, path);
+
+    return;
+  }
+
+  if (!isRecord(routing)) {
+    throw new Error(`${path} must be a string or an object`);
+  }
+
+  assertKind(routing.kind, `${path}/kind`);
+  const properties = ROUTING_PROPERTIES[routing.kind as RoutingKind];
+  for (const [key, value] of Object.entries(routing)) {
+    if (key === 'kind') {
+      continue;
+    }
+
+    const assertValue = properties[key];
+    if (assertValue === undefined) {
+      throw new Error(`${path} must NOT have additional property "${key}"`);
+    }
+
+    assertValue(value, `${path}/${key}`);
+  }
+}
+
+function assertPercentile(value: unknown, path: string): void {
+  if (typeof value !== 'number' || value < 1 || value > 100) {
+    throw new Error(`${path} must be a number from 1 to 100`);
+  }
+}
+
+const HEDGING_PROPERTIES: Record<
+  string,
+  (value: unknown, path: string) => void
+> = {
+  percentile: assertPercentile,
+  initialDelay: assertNonNegativeInteger,
+};
+
+function assertHedging(hedging: unknown, path: string): void {
+  if (!isRecord(hedging)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  for (const [key, value] of Object.entries(hedging)) {
+    const assertValue = HEDGING_PROPERTIES[key];
+    if (assertValue === undefined) {
+      throw new Error(`${path} must NOT have additional property "${key}"`);
+    }
+
+    assertValue(value, `${path}/${key}`);
+  }
+}
+
+/** Properties of retry policy object which are not part of the super.json schema */
+const RETRY_POLICY_EXTENSIONS: Record<
+  string,
+  (value: unknown, path: string) => void
+> = {
+  maxRetryAfter: assertNonNegativeInteger,
+  retryOn: assertRetryOn,
+};
+
+function assertPositiveInteger(value: unknown, path: string): void {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${path} must be a positive integer`);
+  }
+}
+
+const RATE_LIMIT_PROPERTIES: Record<
+  string,
+  (value: unknown, path: string) => void
+> = {
+  requests: assertPositiveInteger,
+  interval: assertPositiveInteger,
+  burst: assertPositiveInteger,
+  maxWait: assertNonNegativeInteger,
+};
+
+function assertRateLimit(rateLimit: unknown, path: string): void {
+  if (!isRecord(rateLimit)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  if (!('requests' in rateLimit)) {
+    throw new Error(`${path} must have required property "requests"`);
+  }
+
+  for (const [key, value] of Object.entries(rateLimit)) {
+    const assertValue = RATE_LIMIT_PROPERTIES[key];
+    if (assertValue === undefined) {
+      throw new Error(`${path} must NOT have additional property "${key}"`);
+    }
+
+    assertValue(value, `${path}/${key}`);
+  }
+}
+
+const TLS_VERSIONS = ['TLSv1', 'TLSv1.1', 'TLSv1.2', 'TLSv1.3'];
+const TLS_PROPERTIES = [
+  'cert',
+  'key',
+  'passphrase',
+  'ca',
+  'serverName',
+  'minVersion',
+];
+
+function assertTls(tls: unknown, path: string): void {
+  if (!isRecord(tls)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  for (const [key, value] of Object.entries(tls)) {
+    if (!TLS_PROPERTIES.includes(key)) {
+      throw new Error(`${path} must NOT have additional property "${key}"`);
+    }
+
+    if (typeof value !== 'string') {
+      throw new Error(`${path}/${key} must be string`);
+    }
+
+    if (key === 'minVersion' && !TLS_VERSIONS.includes(value)) {
+      throw new Error(
+        `${path}/${key} must be one of ${TLS_VERSIONS.join(', ')}`
+      );
+    }
+  }
+}
+
+/** Properties of provider service settings */
+const SERVICE_SETTINGS_PROPERTIES: Record<
+  string,
+  (value: unknown, path: string) => void
+> = {
+  rateLimit: assertRateLimit,
+  tls: assertTls,
+};
+
+function assertProviderServices(services: unknown, path: string): void {
+  if (!isRecord(services)) {
+    throw new Error(`${path} must be an object`);
+  }
+
+  for (const [serviceId, service] of Object.entries(services)) {
+    if (!isRecord(service)) {
+      throw new Error(`${path}/${serviceId} must be an object`);
+    }
+
+    for (const [key, value] of Object.entries(service)) {
+      const assertValue = SERVICE_SETTINGS_PROPERTIES[key];
+      if (assertValue === undefined) {
+        throw new Error(
+          `${path}/${serviceId} must NOT have additional property "${key}"`
+        );
+      }
+
+      assertValue(value, `${path}/${serviceId}/${key}`);
+    }
+  }
+}
+
+/** Properties of provider settings which are not part of the super.json schema */
+const PROVIDER_SETTINGS_EXTENSIONS: Record<
+  string,
+  (value: unknown, path: string) => void
+> = {
+  rateLimit: assertRateLimit,
+  tls: assertTls,
+  services: assertProviderServices,
+};
+
+function stripProfileExtensions(profiles: Record<string, unknown>): void {
+  for (const [profile, profileEntry] of Object.entries(profiles)) {
+    if (!isRecord(profileEntry)) {
+      continue;
+    }
+
+    if ('routing' in profileEntry) {
+      assertRouting(profileEntry.routing, `/profiles/${profile}/routing`);
+      delete profileEntry.routing;
+    }
+
+    if (isRecord(profileEntry.defaults)) {
+      for (const [usecase, defaults] of Object.entries(profileEntry.defaults)) {
+        if (!isRecord(defaults)) {
+          continue;
+        }
+
+        if ('hedging' in defaults) {
+          assertHedging(
+            defaults.hedging,
+            `/profiles/${profile}/defaults/${usecase}/hedging`
+          );
+          delete defaults.hedging;
+        }
+
+        if ('retryUnsafe' in defaults) {
+          if (typeof defaults.retryUnsafe !== 'boolean') {
+            throw new Error(
+              `/profiles/${profile}/defaults/${usecase}/retryUnsafe must be boolean`
+            );
+          }
+          delete defaults.retryUnsafe;
+        }
+
+        if ('timeout' in defaults) {
+          assertPositiveInteger(
+            defaults.timeout,
+            `/profiles/${profile}/defaults/${usecase}/timeout`
+          );
+          delete defaults.timeout;
+        }
+      }
+    }
+
+    if (!isRecord(profileEntry.providers)) {
+      continue;
+    }
+
+    for (const [provider, providerEntry] of Object.entries(
+      profileEntry.providers
+    )) {
+      if (!isRecord(providerEntry) || !isRecord(providerEntry.defaults)) {
+        continue;
+      }
+
+      for (const [usecase, defaults] of Object.entries(
+        providerEntry.defaults
+      )) {
+        if (!isRecord(defaults)) {
+          continue;
+        }
+
+        if ('concurrencyLimit' in defaults) {
+          assertConcurrencyLimit(
+            defaults.concurrencyLimit,
+            `/profiles/${profile}/providers/${provider}/defaults/${usecase}/concurrencyLimit`
+          );
+          delete defaults.concurrencyLimit;
+        }
+
+        if (!isRecord(defaults.retryPolicy)) {
+          continue;
+        }
+
+        const retryPolicy = defaults.retryPolicy;
+        const path = `/profiles/${profile}/providers/${provider}/defaults/${usecase}/retryPolicy`;
+        if (isBackoffExtension(retryPolicy.backoff)) {
+          assertBackoffExtension(retryPolicy.backoff, `${path}/backoff`);
+          delete retryPolicy.backoff;
+        }
+
+        for (const [key, assertValue] of Object.entries(
+          RETRY_POLICY_EXTENSIONS
+        )) {
+          if (key in retryPolicy) {
+            assertValue(retryPolicy[key], `${path}/${key}`);
+            delete retryPolicy[key];
+          }
+        }
+      }
+    }
+  }
+}
+
+function stripProviderExtensions(providers: Record<string, unknown>): void {
+  for (const [provider, providerEntry] of Object.entries(providers)) {
+    if (!isRecord(providerEntry)) {
+      continue;
+    }
+
+    if (Array.isArray(providerEntry.security)) {
+      providerEntry.security = providerEntry.security.filter(
+        (values: unknown, index) => {
+          if (!isRecord(values)) {
+            return true;
+          }
+
+          if ('accessKeyId' in values) {
+            if (
+              !isAwsSignatureV4SecurityValues(values) ||
+              !Object.keys(values).every(key =>
+                AWS_SIGNATURE_V4_PROPERTIES.includes(key)
+              )
+            ) {
+              throw new Error(
+                `/providers/${provider}/security/${index} must be AWS Signature Version 4 credentials with string properties ${AWS_SIGNATURE_V4_PROPERTIES.join(
+                  ', '
+                )}`
+              );
+            }
+
+            return false;
+          }
+
+          if ('secret' in values) {
+            if (
+              !isHmacSecurityValues(values) ||
+              !Object.keys(values).every(key => HMAC_PROPERTIES.includes(key))
+            ) {
+              throw new Error(
+                `/providers/${provider}/security/${index} must be HMAC signing values with properties ${HMAC_PROPERTIES.join(
+                  ', '
+                )}`
+              );
+            }
+
+            return false;
+          }
+
+          // OAuth 2.0 values are the only security values with a token endpoint
+          if (!('tokenUrl' in values)) {
+            return true;
+          }
+
+          if ('refreshToken' in values) {
+            if (
+              !isOAuth2RefreshTokenSecurityValues(values) ||
+              !Object.keys(values).every(key =>
+                OAUTH2_REFRESH_TOKEN_PROPERTIES.includes(key)
+              )
+            ) {
+              throw new Error(
+                `/providers/${provider}/security/${index} must be OAuth 2.0 refresh token with string properties ${OAUTH2_REFRESH_TOKEN_PROPERTIES.join(
+                  ', '
+                )}`
+              );
+            }
+          } else if (
+            !isOAuth2ClientCredentialsSecurityValues(values) ||
+            !Object.keys(values).every(key =>
+              OAUTH2_CLIENT_CREDENTIALS_PROPERTIES.includes(key)
+            )
+          ) {
+            throw new Error(
+              `/providers/${provider}/security/${index} must be OAuth 2.0 client credentials with string properties ${OAUTH2_CLIENT_CREDENTIALS_PROPERTIES.join(
+                ', '
+              )}`
+            );
+          }
+
+          return false;
+        }
+      );
+    }
+
+    for (const [key, assertValue] of Object.entries(
+      PROVIDER_SETTINGS_EXTENSIONS
+    )) {
+      if (key in providerEntry) {
+        assertValue(providerEntry[key], `/providers/${provider}/${key}`);
+        delete providerEntry[key];
+      }
+    }
+  }
+}
+
+/**
+ * Validates settings supported only by the SDK and returns a copy of the document without them.
+ *
+ * The returned document can be validated against the super.json schema.
+ */
+export function stripSuperJsonExtensions(input: unknown): unknown {
+  if (!isRecord(input)) {
+    return input;
+  }
+
+  const document = clone(input);
+  if (isRecord(document.profiles)) {
+    stripProfileExtensions(document.profiles);
+  }
+
+  if (isRecord(document.providers)) {
+    stripProviderExtensions(document.providers);
+  }
+
+  return document;
+}
@@ -374,6 +374,489 @@ describe('SuperJson utils', () => {
       expect(parseSuperJson(JSON.parse(superJson)).isErr()).toBe(true);
     });
 
+    it('parses super.json with SDK retry policy settings', () => {
+      const superJson = {
+        profiles: {
+          'send-message': {
+            version: '1.0.0',
+            providers: {
+              acme: {
+                defaults: {
+                  SendMessage: {
+                    retryPolicy: {
+                      kind: 'circuit-breaker',
+                      maxRetryAfter: 30000,
+                      retryOn: {
+                        statusCodes: [502, 503, 504],
+                        networkIssues: ['timeout'],
+                      },
+                      backoff: {
+                        kind: 'decorrelated-jitter',
+                        start: 100,
+                        maximum: 10000,
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('returns error on document with invalid jitter backoff', () => {
+      const superJson = {
+        profiles: {
+          'send-message': {
+            version: '1.0.0',
+            providers: {
+              acme: {
+                defaults: {
+                  SendMessage: {
+                    retryPolicy: {
+                      kind: 'circuit-breaker',
+                      backoff: { kind: 'full-jitter', maximum: -1 },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      expect(parseSuperJson(superJson).isErr()).toBe(true);
+    });
+
+    it('returns error on document with invalid retryable failures', () => {
+      const superJson = {
+        profiles: {
+          'send-message': {
+            version: '1.0.0',
+            providers: {
+              acme: {
+                defaults: {
+                  SendMessage: {
+                    retryPolicy: {
+                      kind: 'simple',
+                      retryOn: { statusCodes: [503], requestIssues: ['dns'] },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      expect(parseSuperJson(superJson).isErr()).toBe(true);
+    });
+
+    it('parses super.json with concurrency limit', () => {
+      const superJson = {
+        profiles: {
+          'send-message': {
+            version: '1.0.0',
+            providers: {
+              acme: {
+                defaults: {
+                  SendMessage: {
+                    concurrencyLimit: {
+                      maxConcurrent: 5,
+                      maxQueued: 10,
+                      queueTimeout: 1000,
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('returns error on document with invalid concurrency limit', () => {
+      const superJson = {
+        profiles: {
+          'send-message': {
+            version: '1.0.0',
+            providers: {
+              acme: {
+                defaults: {
+                  SendMessage: {
+                    concurrencyLimit: { maxQueued: 10 },
+                  },
+                },
+              },
+            },
+          },
+        },
+      };
+
+      expect(parseSuperJson(superJson).isErr()).toBe(true);
+    });
+
+    it('parses document with provider routing', () => {
+      const superJson = {
+        profiles: {
+          'send-message': {
+            version: '1.0.0',
+            routing: { kind: 'weighted', weights: { acme: 3, other: 1 } },
+          },
+          'send-email': {
+            version: '1.0.0',
+            routing: 'round-robin',
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('returns error on document with invalid provider routing', () => {
+      expect(
+        parseSuperJson({
+          profiles: { 'send-message': { version: '1.0.0', routing: 'random' } },
+        }).isErr()
+      ).toBe(true);
+      expect(
+        parseSuperJson({
+          profiles: {
+            'send-message': {
+              version: '1.0.0',
+              routing: { kind: 'round-robin', weights: {} },
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+      expect(
+        parseSuperJson({
+          profiles: {
+            'send-message': {
+              version: '1.0.0',
+              routing: { kind: 'latency', smoothing: 2 },
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+    });
+
+    it('parses document with usecase hedging', () => {
+      const superJson = {
+        profiles: {
+          'send-message': {
+            version: '1.0.0',
+            defaults: {
+              SendMessage: {
+                hedging: { percentile: 90, initialDelay: 200 },
+              },
+              SendPayment: {
+                retryUnsafe: true,
+                timeout: 10000,
+              },
+            },
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('returns error on document with invalid usecase hedging', () => {
+      expect(
+        parseSuperJson({
+          profiles: {
+            'send-message': {
+              version: '1.0.0',
+              defaults: { SendMessage: { hedging: { percentile: 0 } } },
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+      expect(
+        parseSuperJson({
+          profiles: {
+            'send-message': {
+              version: '1.0.0',
+              defaults: { SendMessage: { hedging: { delay: 100 } } },
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+      expect(
+        parseSuperJson({
+          profiles: {
+            'send-message': {
+              version: '1.0.0',
+              defaults: { SendMessage: { retryUnsafe: 'yes' } },
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+      expect(
+        parseSuperJson({
+          profiles: {
+            'send-message': {
+              version: '1.0.0',
+              defaults: { SendMessage: { timeout: 0 } },
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+    });
+
+    it('parses document with OAuth 2.0 client credentials', () => {
+      const superJson = {
+        providers: {
+          acme: {
+            security: [
+              {
+                id: 'oauth',
+                clientId: '$CLIENT_ID',
+                clientSecret: '$CLIENT_SECRET',
+                tokenUrl: 'https://auth.acme.com/token',
+                scope: 'read',
+              },
+              { id: 'api', apikey: '$API_KEY' },
+            ],
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('returns error on document with invalid OAuth 2.0 client credentials', () => {
+      expect(
+        parseSuperJson({
+          providers: {
+            acme: {
+              security: [
+                {
+                  id: 'oauth',
+                  clientId: 'client',
+                  tokenUrl: 'https://auth.acme.com/token',
+                },
+              ],
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+    });
+
+    it('parses document with OAuth 2.0 refresh token', () => {
+      const superJson = {
+        providers: {
+          acme: {
+            security: [
+              {
+                id: 'oauth',
+                clientId: '$CLIENT_ID',
+                clientSecret: '$CLIENT_SECRET',
+                tokenUrl: 'https://auth.acme.com/token',
+                refreshToken: '$REFRESH_TOKEN',
+                accessToken: '$ACCESS_TOKEN',
+                expiresAt: '$ACCESS_TOKEN_EXPIRES_AT',
+              },
+            ],
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('returns error on document with OAuth 2.0 refresh token and scope', () => {
+      expect(
+        parseSuperJson({
+          providers: {
+            acme: {
+              security: [
+                {
+                  id: 'oauth',
+                  clientId: 'client',
+                  clientSecret: 'secret',
+                  tokenUrl: 'https://auth.acme.com/token',
+                  refreshToken: 'refresh',
+                  scope: 'read',
+                },
+              ],
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+    });
+
+    it('parses document with AWS Signature Version 4 credentials', () => {
+      const superJson = {
+        providers: {
+          acme: {
+            security: [
+              {
+                id: 'aws',
+                accessKeyId: '$AWS_ACCESS_KEY_ID',
+                secretAccessKey: '$AWS_SECRET_ACCESS_KEY',
+                sessionToken: '$AWS_SESSION_TOKEN',
+                region: 'eu-west-1',
+                service: 'execute-api',
+              },
+            ],
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('returns error on document with AWS Signature Version 4 credentials without region', () => {
+      expect(
+        parseSuperJson({
+          providers: {
+            acme: {
+              security: [
+                {
+                  id: 'aws',
+                  accessKeyId: 'key',
+                  secretAccessKey: 'secret',
+                  service: 'execute-api',
+                },
+              ],
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+    });
+
+    it('parses document with HMAC signing values', () => {
+      const superJson = {
+        providers: {
+          acme: {
+            security: [
+              {
+                id: 'hmac',
+                secret: '$SIGNING_SECRET',
+                algorithm: 'sha512',
+                header: 'X-Hub-Signature',
+                prefix: 'sha512=',
+                components: ['method', 'path', 'body'],
+                encoding: 'base64',
+              },
+            ],
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('returns error on document with HMAC signing values with unknown component', () => {
+      expect(
+        parseSuperJson({
+          providers: {
+            acme: {
+              security: [
+                { id: 'hmac', secret: 'secret', components: ['headers'] },
+              ],
+            },
+          },
+        }).isErr()
+      ).toBe(true);
+    });
+
+    it('parses document with provider rate limits', () => {
+      const superJson = {
+        providers: {
+          acme: {
+            security: [],
+            rateLimit: { requests: 10, interval: 1000, burst: 5, maxWait: 0 },
+            services: {
+              default: { rateLimit: { requests: 2 } },
+            },
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('parses document with provider TLS options', () => {
+      const superJson = {
+        providers: {
+          acme: {
+            security: [],
+            tls: {
+              cert: '$CLIENT_CERT',
+              key: '$CLIENT_KEY',
+              passphrase: '$CLIENT_KEY_PASSPHRASE',
+              ca: '$CA_BUNDLE',
+              serverName: 'api.acme.com',
+              minVersion: 'TLSv1.2',
+            },
+            services: {
+              default: { tls: { ca: '$SERVICE_CA' } },
+            },
+          },
+        },
+      };
+
+      const result = parseSuperJson(superJson);
+
+      expect(result.isOk() && result.value).toEqual(superJson);
+    });
+
+    it('returns error on document with invalid TLS options', () => {
+      expect(
+        parseSuperJson({
+          providers: { acme: { tls: { minVersion: 'SSLv3' } } },
+        }).isErr()
+      ).toBe(true);
+      expect(
+        parseSuperJson({
+          providers: {
+            acme: { services: { default: { tls: { certificate: 'pem' } } } },
+          },
+        }).isErr()
+      ).toBe(true);
+    });
+
+    it('returns error on document with invalid provider rate limit', () => {
+      expect(
+        parseSuperJson({
+          providers: { acme: { rateLimit: { requests: 0 } } },
+        }).isErr()
+      ).toBe(true);
+      expect(
+        parseSuperJson({
+          providers: {
+            acme: { services: { default: { rateLimit: { interval: 10 } } } },
+          },
+        }).isErr()
+      ).toBe(true);
+    });
+
     it('returns error invalid document', () => {
       const superJson = '"hello"';
       expect(parseSuperJson(JSON.parse(superJson)).isErr()).toBe(true);
@@ -1,4 +1,3 @@
-import type { SuperJsonDocument } from '@superfaceai/ast';
 import {
   assertSuperJsonDocument,
   FILE_URI_PROTOCOL,
@@ -15,6 +14,8 @@ import {
   superJsonNotFoundError,
   superJsonReadError,
 } from './errors.helpers';
+import type { SuperJsonDocument } from './superjson';
+import { stripSuperJsonExtensions } from './superjson';
 
 const DEBUG_NAMESPACE = 'superjson';
 
@@ -73,9 +74,9 @@ export function parseSuperJson(
   input: unknown
 ): Result<SuperJsonDocument, SDKExecutionError> {
   try {
-    const superdocument = assertSuperJsonDocument(input);
+    assertSuperJsonDocument(stripSuperJsonExtensions(input));
 
-    return ok(superdocument);
+    return ok(input as SuperJsonDocument);
   } catch (e: unknown) {
     return err(superJsonFormatError(ensureErrorSubclass(e)));
   }